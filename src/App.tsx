@@ -1,66 +1,267 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Calculator, Shuffle, RotateCcw, Play, BookOpen } from 'lucide-react';
 import './App.css';
 
 import { MatrixInput } from './components/MatrixInput';
+import { MatrixWorkspace } from './components/MatrixWorkspace';
+import type { WorkspaceTarget } from './components/MatrixWorkspace';
 import { StepsVisualizer } from './components/StepsVisualizer';
 
-import type { Matrix, Vector, CalculationStep, CalculationMethod, Solution, InverseResult } from './types/matrix';
+import type { Matrix, Vector, CalculationStep, CalculationMethod, Solution, InverseResult, SubspaceAnalysis, QRResult, CholeskyResult, WorkspaceMatrixName, WorkspaceResult, ExpansionChoices, ExpansionLine, LaplaceTerm, LaplaceTreeNode } from './types/matrix';
 import { LaplaceExpansion } from './utils/laplaceExpansion';
 import { GaussJordanDeterminant } from './utils/gaussJordanDeterminant';
 import { GaussJordanFractions } from './utils/gaussJordanFractions';
+import { GaussianEliminationFractions } from './utils/gaussianEliminationFractions';
+import { BareissElimination } from './utils/bareissElimination';
+import { DeterminantFormulas } from './utils/determinantFormulas';
+import { ChioCondensation } from './utils/chioCondensation';
+import { LUDecomposition } from './utils/luDecomposition';
+import { GramSchmidt } from './utils/gramSchmidt';
+import { CholeskyDecomposition } from './utils/cholesky';
 import { MatrixInverse } from './utils/matrixInverse';
-import { Fraction } from './utils/fraction';
+import { LaplaceExpansionFractions } from './utils/laplaceExpansionFractions';
+import { Fraction, FractionMatrixUtils } from './utils/fraction';
+import type { FractionMatrix, FractionVector } from './utils/fraction';
+import { ComplexFraction } from './utils/complexFraction';
+import type { ComplexMatrix, ComplexVector } from './utils/complexFraction';
+import { Polynomial } from './utils/polynomial';
+import type { PolynomialMatrix, PolynomialVector } from './utils/polynomial';
+import { FractionParser } from './utils/fractionParser';
+import { createModularField } from './utils/fields';
+import { ParametricSystem } from './utils/parametricSystem';
+import { MatrixSubspaces } from './utils/matrixSubspaces';
 
-type CalculationMode = 'determinant' | 'system' | 'inverse';
+type CalculationMode = 'determinant' | 'system' | 'inverse' | 'subspaces' | 'qr' | 'cholesky' | 'workspace';
+
+const MODE_NAMES: Record<CalculationMode, string> = {
+  determinant: 'Determinante',
+  system: 'Sistema de Ecuaciones',
+  inverse: 'Matriz Inversa',
+  subspaces: 'Espacio Fila / Nulo',
+  qr: 'QR (Gram–Schmidt)',
+  cholesky: 'Cholesky / LDLᵀ',
+  workspace: 'Operaciones A, B, C'
+};
 
 function App() {
-  const [size, setSize] = useState<number>(3);
-  const [matrix, setMatrix] = useState<Matrix>(
-    Array.from({ length: 3 }, () => Array(3).fill(0))
+  // Número de filas (ecuaciones) y columnas (incógnitas); pueden ser distintos
+  const [rows, setRows] = useState<number>(3);
+  const [cols, setCols] = useState<number>(3);
+  // Texto escrito en cada celda; se interpreta como fracción (o complejo) exacto con FractionParser
+  const [matrixText, setMatrixText] = useState<string[][]>(
+    Array.from({ length: 3 }, () => Array(3).fill(''))
   );
-  const [constants, setConstants] = useState<Vector>(Array(3).fill(0));
+  const [constantsText, setConstantsText] = useState<string[]>(Array(3).fill(''));
   const [method, setMethod] = useState<CalculationMethod>('laplace');
   const [mode, setMode] = useState<CalculationMode>('determinant');
   const [steps, setSteps] = useState<CalculationStep[]>([]);
-  const [determinant, setDeterminant] = useState<Fraction | null>(null);
+  const [determinant, setDeterminant] = useState<Fraction | ComplexFraction | Polynomial | null>(null);
   const [solution, setSolution] = useState<Solution | null>(null);
   const [inverseResult, setInverseResult] = useState<InverseResult | null>(null);
-  const [expansionFormula, setExpansionFormula] = useState<string | undefined>(undefined);
+  const [subspaceAnalysis, setSubspaceAnalysis] = useState<SubspaceAnalysis | null>(null);
+  const [qrResult, setQRResult] = useState<QRResult | null>(null);
+  const [choleskyResult, setCholeskyResult] = useState<CholeskyResult | null>(null);
+  // Espacio de trabajo: matrices con nombre, cada una con su propio tamaño
+  const [workspaceMatrices, setWorkspaceMatrices] = useState<Record<WorkspaceMatrixName, string[][]>>({
+    A: Array.from({ length: 3 }, () => Array(3).fill('')),
+    B: Array.from({ length: 3 }, () => Array(3).fill('')),
+    C: Array.from({ length: 3 }, () => Array(3).fill(''))
+  });
+  const [workspaceResult, setWorkspaceResult] = useState<WorkspaceResult | null>(null);
+  // Términos de la expansión de LaPlace de A, para el desarrollo del resultado
+  const [expansionTerms, setExpansionTerms] = useState<LaplaceTerm<Fraction | ComplexFraction | Polynomial>[] | undefined>(undefined);
+  // Fila/columna de LaPlace elegida para cada matriz de la expansión (las demás, por la de más ceros)
+  const [expansionChoices, setExpansionChoices] = useState<ExpansionChoices>({});
+  const [laplaceTree, setLaplaceTree] = useState<LaplaceTreeNode | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [isModular, setIsModular] = useState(false);
+  const [modulusText, setModulusText] = useState('7');
+
+  // Interpretar las celdas como complejos exactos (a + bi; la mayoría tendrá b = 0)
+  const parsedMatrix = useMemo(
+    () => matrixText.map(row => row.map(cell => FractionParser.parseComplex(cell))),
+    [matrixText]
+  );
+  const parsedConstants = useMemo(
+    () => constantsText.map(cell => FractionParser.parseComplex(cell)),
+    [constantsText]
+  );
+  const complexMatrix: ComplexMatrix = useMemo(
+    () => parsedMatrix.map(row => row.map(cell => cell.value ?? new ComplexFraction(0, 0))),
+    [parsedMatrix]
+  );
+  const complexConstants: ComplexVector = useMemo(
+    () => parsedConstants.map(cell => cell.value ?? new ComplexFraction(0, 0)),
+    [parsedConstants]
+  );
+  const fractionMatrix: FractionMatrix = useMemo(
+    () => complexMatrix.map(row => row.map(value => value.re)),
+    [complexMatrix]
+  );
+  const fractionConstants: FractionVector = useMemo(
+    () => complexConstants.map(value => value.re),
+    [complexConstants]
+  );
+
+  // Aritmética modular: todas las operaciones se hacen en Z/nZ con 2 ≤ n ≤ 10⁹
+  const modularField = useMemo(() => {
+    const n = Number(modulusText);
+    return Number.isInteger(n) && n >= 2 && n <= 1e9 ? createModularField(n) : null;
+  }, [modulusText]);
+  const activeModularField = isModular ? modularField : null;
+  const modulusError = isModular && !modularField ? 'El módulo debe ser un entero entre 2 y 1000000000' : undefined;
+  const parsedModularMatrix = useMemo(
+    () => activeModularField ? matrixText.map(row => row.map(cell => FractionParser.parseModular(cell, activeModularField))) : [],
+    [matrixText, activeModularField]
+  );
+  const parsedModularConstants = useMemo(
+    () => activeModularField ? constantsText.map(cell => FractionParser.parseModular(cell, activeModularField)) : [],
+    [constantsText, activeModularField]
+  );
+  const modularMatrix = useMemo(
+    () => parsedModularMatrix.map(row => row.map(cell => cell.value ?? 0n)),
+    [parsedModularMatrix]
+  );
+  const modularConstants = useMemo(
+    () => parsedModularConstants.map(cell => cell.value ?? 0n),
+    [parsedModularConstants]
+  );
+
+  // Parámetros (k, a, λ, ...): las celdas se interpretan como polinomios
+  const parsedSymbolicMatrix = useMemo(
+    () => matrixText.map(row => row.map(cell => FractionParser.parseSymbolic(cell))),
+    [matrixText]
+  );
+  const parsedSymbolicConstants = useMemo(
+    () => constantsText.map(cell => FractionParser.parseSymbolic(cell)),
+    [constantsText]
+  );
+  const symbolicMatrix: PolynomialMatrix = useMemo(
+    () => parsedSymbolicMatrix.map(row => row.map(cell => cell.value ?? Polynomial.constant(0))),
+    [parsedSymbolicMatrix]
+  );
+  const symbolicConstants: PolynomialVector = useMemo(
+    () => parsedSymbolicConstants.map(cell => cell.value ?? Polynomial.constant(0)),
+    [parsedSymbolicConstants]
+  );
+  const isSymbolic = !isModular && (parsedSymbolicMatrix.some(row => row.some(cell => cell.value && !cell.value.isConstant())) ||
+    (mode === 'system' && parsedSymbolicConstants.some(cell => cell.value && !cell.value.isConstant())));
+  // El determinante y la discusión de sistemas admiten parámetros; el resto de modos todavía no
+  const symbolicModeError = isSymbolic && mode !== 'determinant' && mode !== 'system'
+    ? `Las entradas con parámetros (k, a, λ, ...) no se admiten en el modo ${MODE_NAMES[mode]}`
+    : undefined;
+  // Montante divide entre el pivote anterior de forma exacta, pero la división larga de polinomios
+  // admite un único parámetro
+  const symbolicParameterCount = useMemo(
+    () => new Set(symbolicMatrix.flat().flatMap(value => value.variables)).size,
+    [symbolicMatrix]
+  );
+  // Motivo por el que el determinante con parámetros se calcula por LaPlace en lugar del método elegido
+  const symbolicFallbackReason = !isSymbolic || mode !== 'determinant'
+    ? undefined
+    : method === 'bareiss'
+    ? (symbolicParameterCount > 1 ? 'Montante solo divide de forma exacta polinomios en un único parámetro' : undefined)
+    : method === 'chio' || method === 'gaussian' || method === 'gauss-jordan'
+    ? `${method === 'gaussian' ? 'la eliminación gaussiana' : method === 'chio' ? 'Chiò' : 'Gauss-Jordan'} tendría que dividir entre expresiones`
+    : undefined;
+  // Método con el que se calcula de verdad, para los títulos de los pasos
+  const effectiveMethod: CalculationMethod = symbolicFallbackReason ? 'laplace' : method;
+
+  const constantErrors = (activeModularField ? parsedModularConstants : isSymbolic ? parsedSymbolicConstants : parsedConstants)
+    .map(cell => cell.error);
+  const hasInputErrors = isModular
+    ? !modularField || parsedModularMatrix.some(row => row.some(cell => cell.error)) ||
+      (mode === 'system' && constantErrors.some(Boolean))
+    : isSymbolic
+    ? Boolean(symbolicModeError) || parsedSymbolicMatrix.some(row => row.some(cell => cell.error)) ||
+      (mode === 'system' && constantErrors.some(Boolean))
+    : parsedMatrix.some(row => row.some(cell => cell.error)) ||
+      (mode === 'system' && constantErrors.some(Boolean));
+  // Con alguna entrada no real, todos los modos usan aritmética compleja exacta
+  const isComplex = !isModular && !isSymbolic && (complexMatrix.some(row => row.some(value => !value.isReal())) ||
+    (mode === 'system' && complexConstants.some(value => !value.isReal())));
+  // Gram–Schmidt usa el producto escalar real y raíces cuadradas
+  const qrModeError = mode === 'qr' && (isModular || isComplex)
+    ? `La factorización QR usa el producto escalar real: no admite ${isModular ? 'aritmética modular' : 'entradas complejas'}`
+    : undefined;
+  // LDLᵀ y Cholesky solo tienen sentido para matrices reales simétricas
+  const choleskyModeError = mode !== 'cholesky' || isSymbolic
+    ? undefined
+    : isModular || isComplex
+    ? `LDLᵀ y Cholesky trabajan con matrices reales simétricas: no admiten ${isModular ? 'aritmética modular' : 'entradas complejas'}`
+    : parsedMatrix.some(row => row.some(cell => cell.error))
+    ? undefined
+    : CholeskyDecomposition.symmetryError(fractionMatrix);
+  const modeError = qrModeError ?? choleskyModeError;
+
+  // Valores decimales para los métodos y vistas que trabajan con números
+  const matrix: Matrix = useMemo(() => FractionMatrixUtils.toNumberMatrix(fractionMatrix), [fractionMatrix]);
+  const constants: Vector = useMemo(() => FractionMatrixUtils.toNumberVector(fractionConstants), [fractionConstants]);
+  // En modo modular, las vistas muestran los representantes en [0, n)
+  const displayMatrix: Matrix = useMemo(
+    () => activeModularField ? modularMatrix.map(row => row.map(Number)) : matrix,
+    [activeModularField, modularMatrix, matrix]
+  );
+  const displayConstants: Vector = useMemo(
+    () => activeModularField ? modularConstants.map(Number) : constants,
+    [activeModularField, modularConstants, constants]
+  );
+
+  const isSquare = rows === cols;
+  const squareOnlyMessage = 'el determinante y la matriz inversa solo están definidos para matrices cuadradas';
+
+  // Borrar los resultados del último cálculo: cada cálculo y cada cambio de modo o de tamaño
+  // empieza desde cero y solo vuelve a poner lo que calcula
+  const resetResults = useCallback(() => {
+    setSteps([]);
+    setDeterminant(null);
+    setSolution(null);
+    setInverseResult(null);
+    setSubspaceAnalysis(null);
+    setQRResult(null);
+    setCholeskyResult(null);
+    setExpansionTerms(undefined);
+    setLaplaceTree(null);
+  }, []);
 
   // Actualizar matriz cuando cambia el tamaño
-  const handleSizeChange = useCallback((newSize: number) => {
-    if (newSize < 2 || newSize > 6) return;
+  const handleSizeChange = useCallback((newRows: number, newCols: number) => {
+    if (newRows < 2 || newRows > 6 || newCols < 2 || newCols > 6) return;
     
-    setSize(newSize);
+    setRows(newRows);
+    setCols(newCols);
+
+    // El determinante y la inversa solo existen para matrices cuadradas
+    if (newRows !== newCols) {
+      setMode(prev => (prev === 'subspaces' || prev === 'qr' || prev === 'workspace' ? prev : 'system'));
+      setMethod(prev => (prev === 'gaussian' || prev === 'bareiss' ? prev : 'gauss-jordan')); // Gauss y Montante también resuelven sistemas m×n
+    } else {
+      // Sarrus solo vale para 3×3 y Leibniz se limita a 4×4 (24 permutaciones)
+      setMethod(prev => ((prev === 'sarrus' && newRows !== 3) || (prev === 'leibniz' && newRows > 4) ? 'laplace' : prev));
+    }
     
     // Redimensionar matriz
-    const newMatrix: Matrix = Array.from({ length: newSize }, (_, i) =>
-      Array.from({ length: newSize }, (_, j) =>
-        matrix[i]?.[j] || 0
+    const newMatrix: string[][] = Array.from({ length: newRows }, (_, i) =>
+      Array.from({ length: newCols }, (_, j) =>
+        matrixText[i]?.[j] ?? ''
       )
     );
-    setMatrix(newMatrix);
+    setMatrixText(newMatrix);
     
-    // Redimensionar vector de constantes
-    const newConstants: Vector = Array.from({ length: newSize }, (_, i) =>
-      constants[i] || 0
+    // Redimensionar vector de constantes (una entrada por ecuación)
+    const newConstants: string[] = Array.from({ length: newRows }, (_, i) =>
+      constantsText[i] ?? ''
     );
-    setConstants(newConstants);
+    setConstantsText(newConstants);
     
-    // Limpiar resultados
-    setSteps([]);
-    setDeterminant(null);
-    setSolution(null);
-    setInverseResult(null);
-    setExpansionFormula(undefined);
-  }, [matrix, constants]);
+    resetResults();
+    setExpansionChoices({});
+  }, [matrixText, constantsText, resetResults]);
 
   // Actualizar elemento de la matriz
-  const handleMatrixChange = useCallback((row: number, col: number, value: number) => {
-    setMatrix(prev => {
+  const handleMatrixChange = useCallback((row: number, col: number, value: string) => {
+    setMatrixText(prev => {
       const newMatrix = prev.map(r => [...r]);
       newMatrix[row][col] = value;
       return newMatrix;
@@ -69,32 +270,95 @@ function App() {
 
   // Generar matriz de ejemplo aleatoria
   const generateRandomMatrix = useCallback(() => {
-    const newMatrix: Matrix = Array.from({ length: size }, () =>
-      Array.from({ length: size }, () => Math.floor(Math.random() * 10) - 5)
+    const newMatrix: string[][] = Array.from({ length: rows }, () =>
+      Array.from({ length: cols }, () => String(Math.floor(Math.random() * 10) - 5))
     );
-    const newConstants: Vector = Array.from({ length: size }, () => 
-      Math.floor(Math.random() * 20) - 10
+    const newConstants: string[] = Array.from({ length: rows }, () => 
+      String(Math.floor(Math.random() * 20) - 10)
     );
     
-    setMatrix(newMatrix);
-    setConstants(newConstants);
-    setSteps([]);
-    setDeterminant(null);
-    setSolution(null);
-    setInverseResult(null);
-    setExpansionFormula(undefined);
-  }, [size]);
+    setMatrixText(newMatrix);
+    setConstantsText(newConstants);
+    resetResults();
+    setExpansionChoices({});
+  }, [rows, cols, resetResults]);
 
   // Limpiar matriz
   const clearMatrix = useCallback(() => {
-    setMatrix(Array.from({ length: size }, () => Array(size).fill(0)));
-    setConstants(Array(size).fill(0));
-    setSteps([]);
-    setDeterminant(null);
-    setSolution(null);
-    setInverseResult(null);
-    setExpansionFormula(undefined);
-  }, [size]);
+    setMatrixText(Array.from({ length: rows }, () => Array(cols).fill('')));
+    setConstantsText(Array(rows).fill(''));
+    resetResults();
+    setExpansionChoices({});
+  }, [rows, cols, resetResults]);
+
+  // Mostrar los pasos de una operación del espacio de trabajo
+  const handleWorkspaceCalculate = useCallback((workspaceSteps: CalculationStep[], result: WorkspaceResult) => {
+    resetResults();
+    setSteps(workspaceSteps);
+    setWorkspaceResult(result);
+  }, [resetResults]);
+
+  // Copiar un resultado del espacio de trabajo a la matriz principal y cambiar de modo
+  const sendToMode = useCallback((result: FractionMatrix, target: WorkspaceTarget) => {
+    const newRows = result.length;
+    const newCols = result[0].length;
+    setRows(newRows);
+    setCols(newCols);
+    setMatrixText(result.map(row => row.map(value => value.toString())));
+    setConstantsText(Array.from({ length: newRows }, (_, i) => constantsText[i] ?? ''));
+    setIsModular(false);
+    setMode(target);
+    setMethod(target === 'system' ? 'gauss-jordan' : 'laplace');
+    resetResults();
+    setExpansionChoices({});
+  }, [constantsText, resetResults]);
+
+  // Determinante por LaPlace con la fila/columna elegida para cada matriz
+  const calculateLaplaceDeterminant = useCallback((choices: ExpansionChoices) => {
+    if (isSymbolic) {
+      const symbolicResult = LaplaceExpansion.calculateSymbolicDeterminant(symbolicMatrix, choices);
+      setSteps(symbolicResult.steps);
+      setDeterminant(symbolicResult.determinant);
+      setExpansionTerms(symbolicResult.terms);
+      setLaplaceTree(symbolicResult.tree);
+    } else if (activeModularField) {
+      const modularResult = LaplaceExpansion.calculateModularDeterminant(modularMatrix, activeModularField, choices);
+      setSteps(modularResult.steps);
+      setDeterminant(new Fraction(modularResult.determinant));
+      // Los términos en Z/nZ se muestran con sus representantes en [0, n)
+      setExpansionTerms(modularResult.terms.map(term => ({
+        ...term,
+        entry: new Fraction(term.entry),
+        minor: term.minor.map(row => row.map(value => new Fraction(value))),
+        minorDeterminant: new Fraction(term.minorDeterminant),
+        product: new Fraction(term.product)
+      })));
+      setLaplaceTree(modularResult.tree);
+    } else if (isComplex) {
+      const complexResult = LaplaceExpansionFractions.calculateComplexDeterminant(complexMatrix, choices);
+      setSteps(complexResult.steps);
+      setDeterminant(complexResult.determinant);
+      setExpansionTerms(complexResult.terms);
+      setLaplaceTree(complexResult.tree);
+    } else {
+      const laplaceResult = LaplaceExpansionFractions.calculateDeterminant(fractionMatrix, choices);
+      setSteps(laplaceResult.steps);
+      setDeterminant(laplaceResult.fractionDeterminant);
+      setExpansionTerms(laplaceResult.terms);
+      setLaplaceTree(laplaceResult.tree);
+    }
+  }, [isSymbolic, symbolicMatrix, activeModularField, modularMatrix, isComplex, complexMatrix, fractionMatrix]);
+
+  // Elegir otra fila/columna para una matriz de la expansión: sus menores cambian, así que se
+  // descartan las elecciones que colgaban de ella, y se recalcula al momento
+  const handleExpansionLineSelect = useCallback((path: string, line: ExpansionLine) => {
+    const choices: ExpansionChoices = Object.fromEntries(
+      Object.entries(expansionChoices).filter(([key]) => path !== '' && !key.startsWith(`${path}/`))
+    );
+    choices[path] = line;
+    setExpansionChoices(choices);
+    calculateLaplaceDeterminant(choices);
+  }, [expansionChoices, calculateLaplaceDeterminant]);
 
   // Calcular determinante o resolver sistema
   const calculate = useCallback(async () => {
@@ -104,57 +368,203 @@ function App() {
     await new Promise(resolve => setTimeout(resolve, 500));
     
     try {
+      resetResults();
+
       if (mode === 'determinant') {
         // Modo: Calcular determinante
         let result: { steps: CalculationStep[]; determinant: Fraction };
         
-        if (method === 'laplace') {
-          // Usar el algoritmo de Laplace optimizado
-          const laplaceResult = LaplaceExpansion.calculateDeterminant(matrix);
-          setSteps(laplaceResult.steps);
-          setDeterminant(new Fraction(laplaceResult.determinant));
-          setExpansionFormula(laplaceResult.expansionFormula);
-          setSolution(null);
-          setInverseResult(null);
+        if (isSymbolic && (method === 'sarrus' || method === 'leibniz')) {
+          // Sarrus y Leibniz solo suman y multiplican, así que también dan el polinomio
+          const symbolicResult = method === 'sarrus'
+            ? DeterminantFormulas.calculateSymbolicSarrus(symbolicMatrix)
+            : DeterminantFormulas.calculateSymbolicLeibniz(symbolicMatrix);
+          setSteps(symbolicResult.steps);
+          setDeterminant(symbolicResult.determinant);
+        } else if (isSymbolic && method === 'bareiss' && !symbolicFallbackReason) {
+          // Montante solo divide de forma exacta, así que todos los elementos siguen siendo polinomios
+          const symbolicResult = BareissElimination.calculateSymbolicDeterminant(symbolicMatrix);
+          setSteps(symbolicResult.steps);
+          setDeterminant(symbolicResult.determinant);
+        } else if (isSymbolic) {
+          // Con parámetros el determinante es un polinomio; el resto de métodos, por LaPlace
+          calculateLaplaceDeterminant(expansionChoices);
+        } else if (activeModularField) {
+          // Aritmética modular: el determinante es un entero en [0, n)
+          if (method === 'laplace') {
+            calculateLaplaceDeterminant(expansionChoices);
+          } else if (method === 'gaussian') {
+            const modularResult = GaussianEliminationFractions.calculateModularDeterminant(modularMatrix, activeModularField);
+            setSteps(modularResult.steps);
+            setDeterminant(new Fraction(modularResult.determinant));
+          } else if (method === 'bareiss') {
+            const modularResult = BareissElimination.calculateModularDeterminant(modularMatrix, activeModularField);
+            setSteps(modularResult.steps);
+            setDeterminant(new Fraction(modularResult.determinant));
+          } else if (method === 'chio') {
+            const modularResult = ChioCondensation.calculateModularDeterminant(modularMatrix, activeModularField);
+            setSteps(modularResult.steps);
+            setDeterminant(new Fraction(modularResult.determinant));
+          } else if (method === 'sarrus' || method === 'leibniz') {
+            const modularResult = method === 'sarrus'
+              ? DeterminantFormulas.calculateModularSarrus(modularMatrix, activeModularField)
+              : DeterminantFormulas.calculateModularLeibniz(modularMatrix, activeModularField);
+            setSteps(modularResult.steps);
+            setDeterminant(new Fraction(modularResult.determinant));
+          } else {
+            const modularResult = GaussJordanDeterminant.calculateModularDeterminant(modularMatrix, activeModularField);
+            setSteps(modularResult.steps);
+            setDeterminant(new Fraction(modularResult.determinant));
+          }
+        } else if (isComplex) {
+          // Entradas complejas: mismos métodos con racionales gaussianos
+          if (method === 'laplace') {
+            calculateLaplaceDeterminant(expansionChoices);
+          } else if (method === 'gaussian') {
+            const complexResult = GaussianEliminationFractions.calculateComplexDeterminant(complexMatrix);
+            setSteps(complexResult.steps);
+            setDeterminant(complexResult.determinant);
+          } else if (method === 'bareiss') {
+            const complexResult = BareissElimination.calculateComplexDeterminant(complexMatrix);
+            setSteps(complexResult.steps);
+            setDeterminant(complexResult.determinant);
+          } else if (method === 'chio') {
+            const complexResult = ChioCondensation.calculateComplexDeterminant(complexMatrix);
+            setSteps(complexResult.steps);
+            setDeterminant(complexResult.determinant);
+          } else if (method === 'sarrus' || method === 'leibniz') {
+            const complexResult = method === 'sarrus'
+              ? DeterminantFormulas.calculateComplexSarrus(complexMatrix)
+              : DeterminantFormulas.calculateComplexLeibniz(complexMatrix);
+            setSteps(complexResult.steps);
+            setDeterminant(complexResult.determinant);
+          } else {
+            const complexResult = GaussJordanDeterminant.calculateComplexDeterminant(complexMatrix);
+            setSteps(complexResult.steps);
+            setDeterminant(complexResult.determinant);
+          }
+        } else if (method === 'laplace') {
+          // LaPlace por las filas/columnas elegidas (o por la de más ceros en cada matriz)
+          calculateLaplaceDeterminant(expansionChoices);
+        } else if (method === 'gaussian') {
+          // Eliminación gaussiana: una operación de fila por paso y el producto de la diagonal
+          const gaussianResult = GaussianEliminationFractions.calculateDeterminant(fractionMatrix);
+          setSteps(gaussianResult.steps);
+          setDeterminant(gaussianResult.fractionDeterminant);
+        } else if (method === 'bareiss') {
+          // Montante: el último pivote es el determinante, sin fracciones intermedias
+          const bareissResult = BareissElimination.calculateDeterminant(fractionMatrix);
+          setSteps(bareissResult.steps);
+          setDeterminant(bareissResult.determinant);
+        } else if (method === 'chio') {
+          // Chiò: cada etapa condensa a una matriz de determinantes 2×2 con el pivote a₁₁
+          const chioResult = ChioCondensation.calculateDeterminant(fractionMatrix);
+          setSteps(chioResult.steps);
+          setDeterminant(chioResult.determinant);
+        } else if (method === 'sarrus' || method === 'leibniz') {
+          // Fórmulas explícitas: seis diagonales (Sarrus) o una permutación por paso (Leibniz)
+          const formulaResult = method === 'sarrus'
+            ? DeterminantFormulas.calculateSarrus(fractionMatrix)
+            : DeterminantFormulas.calculateLeibniz(fractionMatrix);
+          setSteps(formulaResult.steps);
+          setDeterminant(formulaResult.determinant);
         } else {
           // Para Gauss-Jordan, crear el método optimizado para determinantes
-          result = GaussJordanDeterminant.calculateDeterminant(matrix);
+          result = GaussJordanDeterminant.calculateDeterminant(fractionMatrix);
           setSteps(result.steps);
           setDeterminant(result.determinant);
-          setExpansionFormula(undefined);
-          setSolution(null);
-          setInverseResult(null);
         }
       } else if (mode === 'system') {
         // Modo: Resolver sistema de ecuaciones
-        if (method === 'gauss-jordan') {
-          const result = GaussJordanFractions.solve(matrix, constants);
+        if (isSymbolic) {
+          // Con parámetros se discute el sistema según su valor
+          const result = ParametricSystem.solve(symbolicMatrix, symbolicConstants);
+          setSteps(result.steps);
+          setSolution(result.solution);
+        } else if (method === 'lu') {
+          const result = activeModularField
+            ? LUDecomposition.solveModular(modularMatrix, modularConstants, activeModularField)
+            : isComplex
+            ? LUDecomposition.solveComplex(complexMatrix, complexConstants)
+            : LUDecomposition.solve(fractionMatrix, fractionConstants);
+          setSteps(result.steps);
+          setSolution(result.solution);
+        } else if (method === 'gauss-jordan') {
+          const result = activeModularField
+            ? GaussJordanFractions.solveModular(modularMatrix, modularConstants, activeModularField)
+            : isComplex
+            ? GaussJordanFractions.solveComplex(complexMatrix, complexConstants)
+            : GaussJordanFractions.solve(fractionMatrix, fractionConstants);
+          setSteps(result.steps);
+          setSolution(result.solution);
+        } else if (method === 'gaussian') {
+          // Eliminación gaussiana hasta la forma escalonada y sustitución hacia atrás
+          const result = activeModularField
+            ? GaussianEliminationFractions.solveModular(modularMatrix, modularConstants, activeModularField)
+            : isComplex
+            ? GaussianEliminationFractions.solveComplex(complexMatrix, complexConstants)
+            : GaussianEliminationFractions.solve(fractionMatrix, fractionConstants);
+          setSteps(result.steps);
+          setSolution(result.solution);
+        } else if (method === 'bareiss') {
+          // Montante sobre [A | b]: productos cruzados divididos entre el pivote anterior
+          const result = activeModularField
+            ? BareissElimination.solveModular(modularMatrix, modularConstants, activeModularField)
+            : isComplex
+            ? BareissElimination.solveComplex(complexMatrix, complexConstants)
+            : BareissElimination.solve(fractionMatrix, fractionConstants);
           setSteps(result.steps);
           setSolution(result.solution);
-          setDeterminant(null);
-          setInverseResult(null);
-          setExpansionFormula(undefined);
         } else {
-          // Para LaPlace, mostrar mensaje de que solo Gauss-Jordan soporta sistemas
-          setSteps([{
-            id: 1,
-            title: 'Información',
-            description: 'Para resolver sistemas de ecuaciones, usa el método de Gauss-Jordan.',
-            matrix: matrix,
-            operation: 'Info'
-          }]);
-          setDeterminant(null);
-          setSolution(null);
-          setInverseResult(null);
+          // Regla de Cramer: un determinante por LaPlace para A y para cada Aᵢ
+          const result = activeModularField
+            ? LaplaceExpansion.solveModularByCramersRule(modularMatrix, modularConstants, activeModularField)
+            : isComplex
+            ? LaplaceExpansionFractions.solveComplexByCramersRule(complexMatrix, complexConstants)
+            : LaplaceExpansionFractions.solveByCramersRule(fractionMatrix, fractionConstants);
+          setSteps(result.steps);
+          setSolution(result.solution);
         }
+      } else if (mode === 'subspaces') {
+        // Modo: Rango y subespacios fundamentales (cualquier tamaño)
+        const result = activeModularField
+          ? MatrixSubspaces.analyzeModular(modularMatrix, activeModularField)
+          : isComplex
+          ? MatrixSubspaces.analyzeComplex(complexMatrix)
+          : MatrixSubspaces.analyze(fractionMatrix);
+        setSteps(result.steps);
+        setSubspaceAnalysis(result.result);
+      } else if (mode === 'qr') {
+        // Modo: Gram–Schmidt y A = QR (solo entradas reales)
+        const result = GramSchmidt.decompose(fractionMatrix);
+        setSteps(result.steps);
+        setQRResult(result.result);
+      } else if (mode === 'cholesky') {
+        // Modo: LDLᵀ y Cholesky (solo matrices reales simétricas)
+        const result = CholeskyDecomposition.decompose(fractionMatrix);
+        setSteps(result.steps);
+        setCholeskyResult(result.result);
       } else {
         // Modo: Calcular matriz inversa
-        const result = MatrixInverse.calculateInverse(matrix);
+        const result = method === 'gauss-jordan'
+          ? activeModularField
+            ? MatrixInverse.calculateModularGaussJordanInverse(modularMatrix, activeModularField)
+            : isComplex
+            ? MatrixInverse.calculateComplexGaussJordanInverse(complexMatrix)
+            : MatrixInverse.calculateGaussJordanInverse(fractionMatrix)
+          : method === 'bareiss'
+          ? activeModularField
+            ? MatrixInverse.calculateModularBareissInverse(modularMatrix, activeModularField)
+            : isComplex
+            ? MatrixInverse.calculateComplexBareissInverse(complexMatrix)
+            : MatrixInverse.calculateBareissInverse(fractionMatrix)
+          : activeModularField
+          ? MatrixInverse.calculateModularInverse(modularMatrix, activeModularField)
+          : isComplex
+          ? MatrixInverse.calculateComplexInverse(complexMatrix)
+          : MatrixInverse.calculateInverse(fractionMatrix);
         setSteps(result.steps);
         setInverseResult(result.result);
-        setDeterminant(null);
-        setSolution(null);
-        setExpansionFormula(undefined);
       }
     } catch (error) {
       console.error('Error al calcular:', error);
@@ -163,6 +573,12 @@ function App() {
         ? 'calcular el determinante' 
         : mode === 'system' 
         ? 'resolver el sistema' 
+        : mode === 'subspaces'
+        ? 'calcular los subespacios'
+        : mode === 'qr'
+        ? 'calcular la factorización QR'
+        : mode === 'cholesky'
+        ? 'calcular la factorización LDLᵀ'
         : 'calcular la matriz inversa';
       
       setSteps([{
@@ -172,13 +588,12 @@ function App() {
         matrix: matrix,
         operation: 'Error'
       }]);
-      setDeterminant(null);
-      setSolution(null);
-      setInverseResult(null);
     } finally {
       setIsCalculating(false);
     }
-  }, [mode, method, matrix, constants]);
+  }, [mode, method, matrix, fractionMatrix, fractionConstants, isComplex, complexMatrix, complexConstants,
+      activeModularField, modularMatrix, modularConstants, isSymbolic, symbolicMatrix, symbolicConstants,
+      symbolicFallbackReason, calculateLaplaceDeterminant, expansionChoices, resetResults]);
 
   return (
     <div className="app">
@@ -215,7 +630,13 @@ function App() {
             <nav className="nav-buttons">
               <button
                 className={`nav-button ${mode === 'determinant' ? 'active' : ''}`}
-                onClick={() => setMode('determinant')}
+                onClick={() => {
+                  setMode('determinant');
+                  resetResults();
+                  setMethod(prev => (prev === 'lu' ? 'laplace' : prev)); // LU solo está disponible para sistemas
+                }}
+                disabled={!isSquare}
+                title={!isSquare ? squareOnlyMessage : undefined}
               >
                 Determinante
               </button>
@@ -223,6 +644,7 @@ function App() {
                 className={`nav-button ${mode === 'system' ? 'active' : ''}`}
                 onClick={() => {
                   setMode('system');
+                  resetResults();
                   setMethod('gauss-jordan'); // Gauss-Jordan por defecto para sistemas
                 }}
               >
@@ -232,11 +654,55 @@ function App() {
                 className={`nav-button ${mode === 'inverse' ? 'active' : ''}`}
                 onClick={() => {
                   setMode('inverse');
+                  resetResults();
                   setMethod('laplace'); // LaPlace por defecto para matriz inversa
                 }}
+                disabled={!isSquare}
+                title={!isSquare ? squareOnlyMessage : undefined}
               >
                 Matriz Inversa
               </button>
+              <button
+                className={`nav-button ${mode === 'subspaces' ? 'active' : ''}`}
+                onClick={() => {
+                  setMode('subspaces');
+                  resetResults();
+                  setMethod('gauss-jordan'); // Los subespacios se leen de la forma escalonada reducida
+                }}
+              >
+                Espacio Fila / Nulo
+              </button>
+              <button
+                className={`nav-button ${mode === 'qr' ? 'active' : ''}`}
+                onClick={() => {
+                  setMode('qr');
+                  resetResults();
+                  setMethod('gauss-jordan');
+                }}
+              >
+                QR (Gram–Schmidt)
+              </button>
+              <button
+                className={`nav-button ${mode === 'cholesky' ? 'active' : ''}`}
+                onClick={() => {
+                  setMode('cholesky');
+                  resetResults();
+                  setMethod('gauss-jordan');
+                }}
+                disabled={!isSquare}
+                title={!isSquare ? 'LDLᵀ y Cholesky solo están definidas para matrices cuadradas simétricas' : undefined}
+              >
+                Cholesky / LDLᵀ
+              </button>
+              <button
+                className={`nav-button ${mode === 'workspace' ? 'active' : ''}`}
+                onClick={() => {
+                  setMode('workspace');
+                  resetResults();
+                }}
+              >
+                Operaciones A, B, C
+              </button>
             </nav>
             
             {/* Selector de método */}
@@ -244,17 +710,80 @@ function App() {
               <button
                 className={`nav-button ${method === 'gauss-jordan' ? 'active' : ''}`}
                 onClick={() => setMethod('gauss-jordan')}
-                disabled={mode === 'system'} // En modo sistema, solo Gauss-Jordan
+                disabled={mode === 'subspaces' || mode === 'qr' || mode === 'cholesky'} // Estos modos tienen un único método
               >
                 Gauss-Jordan
               </button>
-              <button
-                className={`nav-button ${method === 'laplace' ? 'active' : ''}`}
-                onClick={() => setMethod('laplace')}
-                disabled={mode === 'system'} // En modo sistema, solo Gauss-Jordan
-              >
-                {mode === 'inverse' ? 'LaPlace (Adjunta)' : 'LaPlace'}
-              </button>
+              {(mode === 'system' || mode === 'determinant') && (
+                <button
+                  className={`nav-button ${method === 'gaussian' ? 'active' : ''}`}
+                  onClick={() => setMethod('gaussian')}
+                >
+                  Gauss
+                </button>
+              )}
+              {(mode === 'system' || mode === 'determinant' || mode === 'inverse') && (
+                <button
+                  className={`nav-button ${method === 'bareiss' ? 'active' : ''}`}
+                  onClick={() => setMethod('bareiss')}
+                >
+                  Montante (Bareiss)
+                </button>
+              )}
+              {mode === 'determinant' && (
+                <>
+                  <button
+                    className={`nav-button ${method === 'sarrus' ? 'active' : ''}`}
+                    onClick={() => setMethod('sarrus')}
+                    disabled={rows !== 3}
+                    title={rows !== 3 ? 'La regla de Sarrus solo es válida para matrices 3×3' : undefined}
+                  >
+                    Sarrus
+                  </button>
+                  <button
+                    className={`nav-button ${method === 'leibniz' ? 'active' : ''}`}
+                    onClick={() => setMethod('leibniz')}
+                    disabled={rows > 4}
+                    title={rows > 4 ? `La fórmula de Leibniz tendría ${rows === 5 ? 120 : 720} permutaciones; se desarrolla hasta 4×4` : undefined}
+                  >
+                    Leibniz
+                  </button>
+                  <button
+                    className={`nav-button ${method === 'chio' ? 'active' : ''}`}
+                    onClick={() => setMethod('chio')}
+                  >
+                    Chiò
+                  </button>
+                </>
+              )}
+              {mode === 'system' ? (
+                <>
+                  <button
+                    className={`nav-button ${method === 'lu' ? 'active' : ''}`}
+                    onClick={() => setMethod('lu')}
+                    disabled={!isSquare}
+                    title={!isSquare ? 'La factorización LU para resolver sistemas requiere una matriz cuadrada' : undefined}
+                  >
+                    LU (PA = LU)
+                  </button>
+                  <button
+                    className={`nav-button ${method === 'laplace' ? 'active' : ''}`}
+                    onClick={() => setMethod('laplace')}
+                    disabled={!isSquare}
+                    title={!isSquare ? 'La Regla de Cramer requiere una matriz cuadrada' : undefined}
+                  >
+                    Cramer
+                  </button>
+                </>
+              ) : (
+                <button
+                  className={`nav-button ${method === 'laplace' ? 'active' : ''}`}
+                  onClick={() => setMethod('laplace')}
+                  disabled={mode === 'subspaces' || mode === 'qr' || mode === 'cholesky'}
+                >
+                  {mode === 'inverse' ? 'LaPlace (Adjunta)' : 'LaPlace'}
+                </button>
+              )}
             </nav>
             
 
@@ -272,123 +801,278 @@ function App() {
           <div className="calculator-header">
             <h2 className="calculator-title">
               {mode === 'determinant'
-                ? (method === 'gauss-jordan'
+                ? (symbolicFallbackReason
+                    ? `Cálculo de Determinante por Expansión de LaPlace (con parámetros, ${symbolicFallbackReason})`
+                    : method === 'gauss-jordan'
                     ? 'Cálculo de Determinante por Gauss-Jordan'
+                    : method === 'gaussian'
+                    ? 'Cálculo de Determinante por Eliminación Gaussiana'
+                    : method === 'bareiss'
+                    ? 'Cálculo de Determinante por el Método de Montante (Bareiss)'
+                    : method === 'sarrus'
+                    ? 'Cálculo de Determinante por la Regla de Sarrus'
+                    : method === 'leibniz'
+                    ? 'Cálculo de Determinante por la Fórmula de Leibniz'
+                    : method === 'chio'
+                    ? 'Cálculo de Determinante por Condensación de Chiò'
                     : 'Cálculo de Determinante por Expansión de LaPlace')
                 : mode === 'system'
-                ? 'Resolución de Sistema de Ecuaciones por Gauss-Jordan'
+                ? (method === 'lu'
+                    ? 'Resolución de Sistema de Ecuaciones por Factorización LU'
+                    : method === 'laplace'
+                    ? 'Resolución de Sistema de Ecuaciones por la Regla de Cramer'
+                    : method === 'gaussian'
+                    ? 'Resolución de Sistema de Ecuaciones por Eliminación Gaussiana'
+                    : method === 'bareiss'
+                    ? 'Resolución de Sistema de Ecuaciones por el Método de Montante (Bareiss)'
+                    : 'Resolución de Sistema de Ecuaciones por Gauss-Jordan')
+                : mode === 'subspaces'
+                ? 'Rango y Subespacios Fundamentales'
+                : mode === 'qr'
+                ? 'Factorización QR por Gram–Schmidt'
+                : mode === 'cholesky'
+                ? 'Factorizaciones LDLᵀ y de Cholesky'
+                : mode === 'workspace'
+                ? 'Operaciones con Matrices A, B y C'
+                : method === 'gauss-jordan'
+                ? 'Cálculo de Matriz Inversa por Gauss-Jordan'
+                : method === 'bareiss'
+                ? 'Cálculo de Matriz Inversa por el Método de Montante (Bareiss)'
                 : 'Cálculo de Matriz Inversa por LaPlace'}
             </h2>
             <p className="calculator-subtitle">
               {mode === 'determinant'
                 ? (method === 'gauss-jordan'
                     ? 'Calcula el determinante usando eliminación gaussiana optimizada'
+                    : method === 'sarrus'
+                    ? 'Repite las dos primeras columnas a la derecha y resta a la suma de las tres diagonales descendentes la de las tres ascendentes, resaltando cada diagonal'
+                    : method === 'chio'
+                    ? 'Reduce la matriz n×n a una (n−1)×(n−1) de determinantes 2×2 con el pivote a₁₁, dividiendo entre a₁₁ⁿ⁻², hasta llegar a un solo número'
+                    : method === 'leibniz'
+                    ? 'Recorre las n! permutaciones con sus inversiones, su signo y el producto de los elementos que eligen, y suma todos los términos'
+                    : method === 'bareiss'
+                    ? 'Sustituye cada elemento por un determinante 2×2 con el pivote dividido entre el pivote anterior; con enteros todo sigue siendo entero y el último pivote es det(A)'
+                    : method === 'gaussian'
+                    ? 'Lleva A a forma triangular con una operación de fila por paso y multiplica la diagonal, cambiando el signo por cada intercambio de filas'
                     : 'Usa expansión por cofactores, seleccionando automáticamente la fila/columna con más ceros')
                 : mode === 'system'
-                ? 'Resuelve el sistema de ecuaciones Ax = b usando el método de Gauss-Jordan con eliminación hacia adelante y atrás'
+                ? (method === 'lu'
+                    ? 'Factoriza PA = LU guardando cada multiplicador en L y resuelve Ly = Pb y Ux = y por sustitución; P, L y U sirven para cualquier otro b'
+                    : method === 'laplace'
+                    ? 'Calcula xᵢ = det(Aᵢ) / det(A) con determinantes por LaPlace; si det(A) = 0, indica si el sistema es incompatible o tiene infinitas soluciones'
+                    : method === 'bareiss'
+                    ? 'Reduce [A | b] con productos cruzados divididos entre el pivote anterior, sin fracciones intermedias, y obtiene cada xᵢ con una única división final entre el último pivote'
+                    : method === 'gaussian'
+                    ? 'Lleva [A | b] a forma escalonada, comprueba los rangos y despeja las variables de la última ecuación a la primera con sustitución hacia atrás'
+                    : 'Resuelve el sistema de ecuaciones Ax = b usando el método de Gauss-Jordan con eliminación hacia adelante y atrás')
+                : mode === 'qr'
+                ? 'Ortogonaliza las columnas de A restando proyecciones con fracciones exactas y las normaliza para obtener A = QR, con las normas como raíces exactas'
+                : mode === 'workspace'
+                ? 'Guarda varias matrices de distinto tamaño y calcula X + Y, X·Y, kX, Xᵀ, Xⁿ o expresiones como det(A*B) - 2*det(C\') con fracciones exactas; el resultado se puede guardar o enviar a los modos de determinante, sistema o inversa'
+                : mode === 'cholesky'
+                ? 'Elimina sin intercambiar filas para obtener A = LDLᵀ con fracciones exactas y, si todos los pivotes son positivos (A definida positiva), la factorización de Cholesky A = GGᵀ'
+                : mode === 'subspaces'
+                ? 'Reduce A a su forma escalonada reducida con fracciones exactas y obtiene rango, columnas pivote y bases de N(A), C(A), F(A) y N(Aᵀ)'
+                : method === 'gauss-jordan'
+                ? 'Reduce la matriz doble [A | I] con fracciones exactas hasta [I | A⁻¹], mostrando cada operación de fila sobre las dos mitades'
+                : method === 'bareiss'
+                ? 'Reduce [A | I] por Montante hasta [p·I | p·A⁻¹]: el último pivote p da det(A), la mitad derecha la adjunta y una sola división final A⁻¹'
                 : 'Calcula la matriz inversa A⁻¹ = (1/det(A)) × adj(A) usando determinante y matriz adjunta'}
             </p>
           </div>
 
-          <div className="size-selector">
-            <label htmlFor="matrix-size">Tamaño de la matriz:</label>
-            <input
-              id="matrix-size"
-              type="number"
-              min="2"
-              max="6"
-              value={size}
-              onChange={(e) => handleSizeChange(parseInt(e.target.value))}
-              className="size-input"
+          {mode === 'workspace' ? (
+            <MatrixWorkspace
+              matrices={workspaceMatrices}
+              onMatricesChange={setWorkspaceMatrices}
+              result={workspaceResult}
+              onCalculate={handleWorkspaceCalculate}
+              onSendResult={sendToMode}
+              method={method}
+              isCalculating={isCalculating}
             />
-            <span>×</span>
-            <span>{size}</span>
-          </div>
+          ) : (
+            <>
+              <div className="size-selector">
+                <label htmlFor="matrix-rows">Tamaño de la matriz:</label>
+                <input
+                  id="matrix-rows"
+                  type="number"
+                  min="2"
+                  max="6"
+                  value={rows}
+                  onChange={(e) => handleSizeChange(parseInt(e.target.value), cols)}
+                  className="size-input"
+                  title="Filas (ecuaciones)"
+                />
+                <span>×</span>
+                <input
+                  id="matrix-cols"
+                  type="number"
+                  min="2"
+                  max="6"
+                  value={cols}
+                  onChange={(e) => handleSizeChange(rows, parseInt(e.target.value))}
+                  className="size-input"
+                  title="Columnas (incógnitas)"
+                  aria-label="Columnas de la matriz"
+                />
+              </div>
 
-          <MatrixInput
-            size={size}
-            matrix={matrix}
-            onMatrixChange={handleMatrixChange}
-          />
+              {!isSquare && (
+                <p className="complex-mode-note">
+                  Matriz de {rows}×{cols}: {squareOnlyMessage}. Los sistemas se resuelven con Gauss-Jordan, Gauss (eliminación gaussiana) o Montante (Bareiss) y análisis de rango, y los subespacios se calculan para cualquier tamaño.
+                </p>
+              )}
 
-          {/* Vector de constantes (solo para sistemas de ecuaciones) */}
-          {mode === 'system' && (
-            <div className="constants-vector">
-              <h3 className="constants-title">Vector de Términos Independientes (b)</h3>
-              <div className="constants-input">
-                {constants.map((value, i) => (
-                  <div key={i} className="constant-cell">
-                    <label htmlFor={`constant-${i}`}>b<sub>{i + 1}</sub></label>
+              <div className="modular-selector">
+                <label className="modular-toggle">
+                  <input
+                    type="checkbox"
+                    checked={isModular}
+                    onChange={(e) => setIsModular(e.target.checked)}
+                  />
+                  Aritmética modular
+                </label>
+                {isModular && (
+                  <>
+                    <label htmlFor="modulus">n =</label>
                     <input
-                      id={`constant-${i}`}
+                      id="modulus"
                       type="number"
-                      value={value === 0 ? '' : value}
-                      onChange={(e) => {
-                        const newValue = e.target.value === '' ? 0 : parseFloat(e.target.value);
-                        setConstants(prev => {
-                          const newConstants = [...prev];
-                          newConstants[i] = newValue;
-                          return newConstants;
-                        });
-                      }}
-                      placeholder="0"
+                      min="2"
+                      value={modulusText}
+                      onChange={(e) => setModulusText(e.target.value)}
+                      className={`modulus-input ${modulusError ? 'invalid' : ''}`}
+                      aria-invalid={modulusError ? true : undefined}
                     />
-                  </div>
-                ))}
+                    {modularField && <span className="modular-field-name">{modularField.name}</span>}
+                    {modulusError && <span className="cell-error">{modulusError}</span>}
+                  </>
+                )}
               </div>
-            </div>
-          )}
 
-          <div className="action-buttons">
-            <button
-              className="primary-button"
-              onClick={calculate}
-              disabled={isCalculating}
-            >
-              {isCalculating ? (
-                <>
-                  <motion.div
-                    animate={{ rotate: 360 }}
-                    transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                  >
-                    <RotateCcw size={20} />
-                  </motion.div>
-                  Calculando...
-                </>
-              ) : (
-                <>
-                  <Play size={20} />
-                  {mode === 'determinant' 
-                    ? 'Calcular Determinante' 
-                    : mode === 'system' 
-                    ? 'Resolver Sistema' 
-                    : 'Calcular Matriz Inversa'}
-                </>
+              <MatrixInput
+                rows={rows}
+                cols={cols}
+                matrix={matrixText}
+                onMatrixChange={handleMatrixChange}
+                modularField={activeModularField}
+              />
+
+              {/* Vector de constantes (solo para sistemas de ecuaciones) */}
+              {mode === 'system' && (
+                <div className="constants-vector">
+                  <h3 className="constants-title">Vector de Términos Independientes (b)</h3>
+                  <div className="constants-input">
+                    {constantsText.map((value, i) => {
+                      const error = constantErrors[i];
+                      return (
+                        <div key={i} className="constant-cell">
+                          <label htmlFor={`constant-${i}`}>b<sub>{i + 1}</sub></label>
+                          <input
+                            id={`constant-${i}`}
+                            type="text"
+                            inputMode="decimal"
+                            className={error ? 'invalid' : ''}
+                            value={value}
+                            onChange={(e) => {
+                              const newValue = e.target.value;
+                              setConstantsText(prev => {
+                                const newConstants = [...prev];
+                                newConstants[i] = newValue;
+                                return newConstants;
+                              });
+                            }}
+                            placeholder="0"
+                            title={error}
+                            aria-invalid={error ? true : undefined}
+                          />
+                          {error && <span className="cell-error">{error}</span>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {modeError && (
+                <p className="complex-mode-note invalid">{modeError}</p>
+              )}
+
+              {isComplex && !modeError && (
+                <p className="complex-mode-note">
+                  Se detectaron entradas complejas (a + bi): los cálculos usarán aritmética compleja exacta.
+                </p>
+              )}
+
+              {isSymbolic && (
+                <p className={`complex-mode-note ${symbolicModeError ? 'invalid' : ''}`}>
+                  {symbolicModeError ?? (mode === 'system'
+                    ? 'Se detectaron parámetros: el sistema se discutirá según su valor (solución única, infinitas o ninguna).'
+                    : `Se detectaron parámetros: el determinante se calculará como polinomio${symbolicFallbackReason ? ` por expansión de LaPlace (${symbolicFallbackReason})` : ''}.`)}
+                </p>
               )}
-            </button>
+
+              <div className="action-buttons">
+                <button
+                  className="primary-button"
+                  onClick={calculate}
+                  disabled={isCalculating || hasInputErrors || Boolean(modeError)}
+                  title={symbolicModeError ?? modeError ?? (hasInputErrors ? 'Corrige las celdas marcadas en rojo antes de calcular' : undefined)}
+                >
+                  {isCalculating ? (
+                    <>
+                      <motion.div
+                        animate={{ rotate: 360 }}
+                        transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                      >
+                        <RotateCcw size={20} />
+                      </motion.div>
+                      Calculando...
+                    </>
+                  ) : (
+                    <>
+                      <Play size={20} />
+                      {mode === 'determinant' 
+                        ? 'Calcular Determinante' 
+                        : mode === 'system' 
+                        ? 'Resolver Sistema' 
+                        : mode === 'subspaces'
+                        ? 'Calcular Subespacios'
+                        : mode === 'qr'
+                        ? 'Calcular QR'
+                        : mode === 'cholesky'
+                        ? 'Calcular LDLᵀ / Cholesky'
+                        : 'Calcular Matriz Inversa'}
+                    </>
+                  )}
+                </button>
             
-            <div className="example-info">
-              <p>💡 Ejemplo: matriz [5,-2,4; 6,7,-3; 3,0,2] → det = 28</p>
-            </div>
+                <div className="example-info">
+                  <p>💡 Ejemplo: matriz [5,-2,4; 6,7,-3; 3,0,2] → det = 28</p>
+                </div>
             
-            <button
-              className="secondary-button"
-              onClick={generateRandomMatrix}
-              disabled={isCalculating}
-            >
-              <Shuffle size={20} />
-              Ejemplo Aleatorio
-            </button>
+                <button
+                  className="secondary-button"
+                  onClick={generateRandomMatrix}
+                  disabled={isCalculating}
+                >
+                  <Shuffle size={20} />
+                  Ejemplo Aleatorio
+                </button>
             
-            <button
-              className="secondary-button"
-              onClick={clearMatrix}
-              disabled={isCalculating}
-            >
-              <RotateCcw size={20} />
-              Limpiar
-            </button>
-          </div>
+                <button
+                  className="secondary-button"
+                  onClick={clearMatrix}
+                  disabled={isCalculating}
+                >
+                  <RotateCcw size={20} />
+                  Limpiar
+                </button>
+              </div>
+            </>
+          )}
         </motion.div>
 
         {steps.length > 0 && (
@@ -397,12 +1081,20 @@ function App() {
             determinant={determinant}
             solution={solution}
             inverseResult={inverseResult}
-            method={method}
+            subspaceAnalysis={subspaceAnalysis}
+            qrResult={qrResult}
+            choleskyResult={choleskyResult}
+            method={effectiveMethod}
             mode={mode}
             showFractions={true}
-            originalMatrix={matrix}
-            originalConstants={constants}
-            expansionFormula={expansionFormula}
+            originalMatrix={displayMatrix}
+            originalComplexMatrix={isComplex ? complexMatrix : undefined}
+            originalSymbolicMatrix={isSymbolic ? symbolicMatrix : undefined}
+            originalConstants={displayConstants}
+            modulus={activeModularField ? Number(activeModularField.modulus) : undefined}
+            expansionTerms={expansionTerms}
+            laplaceTree={laplaceTree ?? undefined}
+            onExpansionLineSelect={mode === 'determinant' ? handleExpansionLineSelect : undefined}
           />
         )}
 
@@ -1,8 +1,11 @@
 import React from 'react';
 import { Fraction } from '../utils/fraction';
+import { ComplexFraction } from '../utils/complexFraction';
+import { Polynomial } from '../utils/polynomial';
+import { Radical } from '../utils/radical';
 
 interface FractionDisplayProps {
-  fraction: Fraction;
+  fraction: Fraction | ComplexFraction | Polynomial | Radical;
   className?: string;
   style?: React.CSSProperties;
 }
@@ -12,11 +15,70 @@ export const FractionDisplay: React.FC<FractionDisplayProps> = ({
   className = '',
   style = {}
 }) => {
+  // Polinomios: los constantes como fracción, el resto como texto simplificado
+  if (fraction instanceof Polynomial) {
+    const value = fraction.constantValue();
+    if (value) {
+      return <FractionDisplay fraction={value} className={className} style={style} />;
+    }
+    return (
+      <span className={`fraction-display polynomial ${className}`} style={style}>
+        {fraction.toString()}
+      </span>
+    );
+  }
+
+  // Raíces c·√s: el coeficiente como fracción seguido de la raíz (decimal si el radicando es enorme)
+  if (fraction instanceof Radical) {
+    if (fraction.isRational()) {
+      return <FractionDisplay fraction={fraction.coefficient} className={className} style={style} />;
+    }
+    if (!fraction.isDisplayable()) {
+      return (
+        <span className={`fraction-display radical ${className}`} style={style}>
+          {fraction.toString()}
+        </span>
+      );
+    }
+
+    const coefficient = fraction.coefficient.abs();
+    const isNegative = fraction.coefficient.bigNumerator < 0n;
+    return (
+      <span className={`fraction-display radical ${className}`} style={style}>
+        {isNegative && <span className="fraction-sign">−</span>}
+        {!coefficient.equals(new Fraction(1, 1)) && <FractionDisplay fraction={coefficient} />}
+        <span className="radical-root">√<span className="radical-radicand">{fraction.radicand.toString()}</span></span>
+      </span>
+    );
+  }
+
+  // Complejos: se muestran como a + bi con cada parte como fracción
+  if (fraction instanceof ComplexFraction) {
+    if (fraction.isReal()) {
+      return <FractionDisplay fraction={fraction.re} className={className} style={style} />;
+    }
+
+    const imaginary = fraction.im.abs();
+    const isNegative = fraction.im.bigNumerator < 0n;
+    const hasReal = !fraction.re.isZero();
+
+    return (
+      <span className={`fraction-display complex ${className}`} style={style}>
+        {hasReal && <FractionDisplay fraction={fraction.re} />}
+        {(hasReal || isNegative) && (
+          <span className="complex-sign">{isNegative ? '−' : '+'}</span>
+        )}
+        {!imaginary.equals(new Fraction(1, 1)) && <FractionDisplay fraction={imaginary} />}
+        <span className="imaginary-unit">i</span>
+      </span>
+    );
+  }
+
   // Si es un entero, mostrar solo el número
   if (fraction.isInteger()) {
     return (
       <span className={`fraction-display integer ${className}`} style={style}>
-        {fraction.numerator}
+        {fraction.bigNumerator.toString()}
       </span>
     );
   }
@@ -30,8 +92,8 @@ export const FractionDisplay: React.FC<FractionDisplayProps> = ({
     );
   }
 
-  const isNegative = fraction.numerator < 0;
-  const absNumerator = Math.abs(fraction.numerator);
+  const isNegative = fraction.bigNumerator < 0n;
+  const absNumerator = (isNegative ? -fraction.bigNumerator : fraction.bigNumerator).toString();
 
   return (
     <span className={`fraction-display ${className}`} style={style}>
@@ -39,19 +101,23 @@ export const FractionDisplay: React.FC<FractionDisplayProps> = ({
       <span className="fraction-proper">
         <span className="fraction-numerator">{absNumerator}</span>
         <span className="fraction-line"></span>
-        <span className="fraction-denominator">{fraction.denominator}</span>
+        <span className="fraction-denominator">{fraction.bigDenominator.toString()}</span>
       </span>
     </span>
   );
 };
 
 interface MatrixFractionDisplayProps {
-  matrix: Fraction[][];
-  pivotElement?: Fraction;
+  matrix: Fraction[][] | ComplexFraction[][] | Polynomial[][] | Radical[][];
+  pivotElement?: Fraction | ComplexFraction;
   pivotRow?: number;
   pivotCol?: number;
   excludedRow?: number;
   excludedCol?: number;
+  /** Primera columna de la parte aumentada; por defecto se supone A cuadrada */
+  augmentedCol?: number;
+  /** Elementos [fila, columna] que se resaltan (diagonales de Sarrus, permutaciones de Leibniz) */
+  highlightedCells?: [number, number][];
   className?: string;
 }
 
@@ -62,11 +128,14 @@ export const MatrixFractionDisplay: React.FC<MatrixFractionDisplayProps> = ({
   pivotCol,
   excludedRow,
   excludedCol,
+  augmentedCol,
+  highlightedCells,
   className = ''
 }) => {
   const maxCols = Math.max(...matrix.map(row => row.length));
-  const isAugmented = matrix.length > 0 && matrix[0].length > matrix.length;
-  const augmentedColIndex = isAugmented ? matrix.length : -1;
+  const firstAugmentedCol = augmentedCol ?? matrix.length;
+  const isAugmented = matrix.length > 0 && matrix[0].length > firstAugmentedCol;
+  const augmentedColIndex = isAugmented ? firstAugmentedCol : -1;
   const hasExclusions = excludedRow !== undefined || excludedCol !== undefined;
   
   return (
@@ -81,12 +150,13 @@ export const MatrixFractionDisplay: React.FC<MatrixFractionDisplayProps> = ({
         {matrix.map((row, i) =>
           row.map((fraction, j) => {
             const isPivot = pivotRow === i && pivotCol === j && 
-                           pivotElement && fraction.equals(pivotElement);
+                           pivotElement && fraction.toString() === pivotElement.toString();
             const isInAugmentedColumn = j === augmentedColIndex;
             const isLastColumn = j === maxCols - 1;
             const isExcludedRow = excludedRow !== undefined && i === excludedRow;
             const isExcludedCol = excludedCol !== undefined && j === excludedCol;
             const isExcluded = isExcludedRow || isExcludedCol;
+            const isHighlighted = highlightedCells?.some(([row, col]) => row === i && col === j) ?? false;
             
             return (
               <div
@@ -97,6 +167,7 @@ export const MatrixFractionDisplay: React.FC<MatrixFractionDisplayProps> = ({
                   ${isInAugmentedColumn ? 'augmented-column' : ''}
                   ${isLastColumn && isAugmented ? 'last-augmented' : ''}
                   ${isExcluded ? 'excluded-element' : ''}
+                  ${isHighlighted ? 'highlighted-element' : ''}
                 `}
                 style={isExcluded ? { 
                   textDecoration: 'line-through',
@@ -132,7 +203,7 @@ export const MatrixFractionDisplay: React.FC<MatrixFractionDisplayProps> = ({
 };
 
 interface VariableFractionDisplayProps {
-  variables: Fraction[];
+  variables: Fraction[] | ComplexFraction[];
   className?: string;
 }
 
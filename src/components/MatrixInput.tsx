@@ -1,25 +1,52 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import type { Matrix } from '../types/matrix';
+import { FractionParser } from '../utils/fractionParser';
+import { FractionDisplay } from './FractionDisplay';
+import type { ModularField } from '../types/field';
 
 interface MatrixInputProps {
-  size: number;
-  matrix: Matrix;
-  onMatrixChange: (row: number, col: number, value: number) => void;
+  /** Número de filas (ecuaciones) */
+  rows: number;
+  /** Número de columnas (incógnitas) */
+  cols: number;
+  /** Texto escrito en cada celda (enteros, decimales, fracciones, complejos o expresiones) */
+  matrix: string[][];
+  onMatrixChange: (row: number, col: number, value: string) => void;
+  /** En aritmética modular, las celdas se reducen módulo n */
+  modularField?: ModularField | null;
+  /** Nombre de la matriz (A, B, C en el espacio de trabajo) */
+  name?: string;
+  /** Muestra la vista previa con fracciones debajo de las celdas */
+  showPreview?: boolean;
   className?: string;
 }
 
 export const MatrixInput: React.FC<MatrixInputProps> = ({
-  size,
+  rows,
+  cols,
   matrix,
   onMatrixChange,
+  modularField,
+  name = 'A',
+  showPreview = true,
   className = ''
 }) => {
   const handleMatrixChange = (row: number, col: number, event: React.ChangeEvent<HTMLInputElement>) => {
-    const value = event.target.value === '' ? 0 : parseFloat(event.target.value);
-    onMatrixChange(row, col, isNaN(value) ? 0 : value);
+    onMatrixChange(row, col, event.target.value);
   };
 
+  const parsedMatrix = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => {
+      const text = matrix[i]?.[j] ?? '';
+      if (modularField) {
+        return FractionParser.parseModular(text, modularField);
+      }
+      // Si no es un número, puede ser una expresión con parámetros (k, a, λ)
+      const numeric = FractionParser.parseComplex(text);
+      return numeric.error !== undefined ? FractionParser.parseSymbolic(text) : numeric;
+    })
+  );
+
   return (
     <motion.div
       className={`matrix-input ${className}`}
@@ -29,44 +56,51 @@ export const MatrixInput: React.FC<MatrixInputProps> = ({
     >
       <div className="matrix-container">
         <div className="matrix-section">
-          <h3 className="matrix-label">Matriz A ({size}×{size})</h3>
+          <h3 className="matrix-label">Matriz {name} ({rows}×{cols})</h3>
           <div 
             className="matrix-grid matrix-brackets"
             style={{ 
-              gridTemplateColumns: `repeat(${size}, 1fr)`,
-              maxWidth: `${size * 90}px`
+              gridTemplateColumns: `repeat(${cols}, 1fr)`,
+              maxWidth: `${cols * 90}px`
             }}
           >
-            {Array.from({ length: size }, (_, i) =>
-              Array.from({ length: size }, (_, j) => (
-                <motion.input
-                  key={`matrix-${i}-${j}`}
-                  type="number"
-                  step="0.01"
-                  className="matrix-cell"
-                  value={matrix[i]?.[j] === 0 ? '' : matrix[i]?.[j]}
-                  onChange={(e) => handleMatrixChange(i, j, e)}
-                  placeholder="0"
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  transition={{ 
-                    duration: 0.3, 
-                    delay: (i * size + j) * 0.02 
-                  }}
-                  whileFocus={{ 
-                    scale: 1.05, 
-                    boxShadow: 'var(--shadow-glow)' 
-                  }}
-                />
-              ))
+            {Array.from({ length: rows }, (_, i) =>
+              Array.from({ length: cols }, (_, j) => {
+                const error = parsedMatrix[i][j].error;
+                return (
+                  <div key={`matrix-${i}-${j}`} className="matrix-cell-wrapper">
+                    <motion.input
+                      type="text"
+                      inputMode="decimal"
+                      className={`matrix-cell ${error ? 'invalid' : ''}`}
+                      value={matrix[i]?.[j] ?? ''}
+                      onChange={(e) => handleMatrixChange(i, j, e)}
+                      placeholder="0"
+                      title={error ?? 'Ej: 3/4, -1 2/3, 0.125, 2^-1, sqrt(4)/3, 2-3i, 2k-1'}
+                      aria-invalid={error ? true : undefined}
+                      initial={{ opacity: 0, scale: 0.8 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ 
+                        duration: 0.3, 
+                        delay: (i * cols + j) * 0.02 
+                      }}
+                      whileFocus={{ 
+                        scale: 1.05, 
+                        boxShadow: 'var(--shadow-glow)' 
+                      }}
+                    />
+                    {error && <span className="cell-error">{error}</span>}
+                  </div>
+                );
+              })
             ).flat()}
           </div>
           
           {/* Etiquetas de posición */}
-          <div className="position-labels" style={{ gridTemplateColumns: `repeat(${size}, 1fr)` }}>
-            {Array.from({ length: size }, (_, j) => (
+          <div className="position-labels" style={{ gridTemplateColumns: `repeat(${cols}, 1fr)` }}>
+            {Array.from({ length: cols }, (_, j) => (
               <span key={`col-${j}`} className="position-label">
-                a<sub>•,{j + 1}</sub>
+                {name.toLowerCase()}<sub>•,{j + 1}</sub>
               </span>
             ))}
           </div>
@@ -74,33 +108,39 @@ export const MatrixInput: React.FC<MatrixInputProps> = ({
       </div>
 
       {/* Vista previa de la matriz */}
-      <motion.div 
-        className="matrix-preview"
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.4, delay: 0.2 }}
-      >
-        <h4 className="preview-title">Matriz para calcular determinante:</h4>
-        <div className="matrix-display">
-          <div className="matrix-bracket left-bracket">[</div>
-          <div 
-            className="matrix-values" 
-            style={{ gridTemplateColumns: `repeat(${size}, 1fr)` }}
-          >
-            {Array.from({ length: size }, (_, i) =>
-              Array.from({ length: size }, (_, j) => (
-                <span key={`preview-${i}-${j}`} className="matrix-value">
-                  {matrix[i]?.[j] || 0}
-                </span>
-              ))
-            ).flat()}
+      {showPreview && (
+        <motion.div 
+          className="matrix-preview"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.2 }}
+        >
+          <h4 className="preview-title">{rows === cols ? 'Matriz para calcular determinante:' : 'Vista previa de la matriz:'}</h4>
+          <div className="matrix-display">
+            <div className="matrix-bracket left-bracket">[</div>
+            <div 
+              className="matrix-values" 
+              style={{ gridTemplateColumns: `repeat(${cols}, 1fr)` }}
+            >
+              {parsedMatrix.map((row, i) =>
+                row.map((cell, j) => (
+                  <span key={`preview-${i}-${j}`} className={`matrix-value ${cell.error ? 'invalid' : ''}`}>
+                    {cell.value === undefined
+                      ? '?'
+                      : typeof cell.value === 'bigint'
+                      ? cell.value.toString()
+                      : <FractionDisplay fraction={cell.value} />}
+                  </span>
+                ))
+              ).flat()}
+            </div>
+            <div className="matrix-bracket right-bracket">]</div>
           </div>
-          <div className="matrix-bracket right-bracket">]</div>
-        </div>
-        <div className="determinant-notation">
-          det(A) = |A| = ?
-        </div>
-      </motion.div>
+          <div className="determinant-notation">
+            {rows === cols ? `det(${name}) = |${name}| = ?` : `rango(${name}) = ?`}{modularField && ` (mod ${modularField.modulus})`}
+          </div>
+        </motion.div>
+      )}
     </motion.div>
   );
 };
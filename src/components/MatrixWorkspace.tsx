@@ -0,0 +1,380 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronRight, ListTree, Play, Save, Send } from 'lucide-react';
+import { MatrixInput } from './MatrixInput';
+import { FractionDisplay, MatrixFractionDisplay } from './FractionDisplay';
+import { FractionParser } from '../utils/fractionParser';
+import { MatrixArithmetic } from '../utils/matrixArithmetic';
+import { MatrixExpression } from '../utils/matrixExpression';
+import { Fraction } from '../utils/fraction';
+import type { FractionMatrix } from '../utils/fraction';
+import type { CalculationMethod, CalculationStep, ExpressionNode, WorkspaceMatrixName, WorkspaceOperation, WorkspaceResult } from '../types/matrix';
+
+/** Modos a los que se puede enviar el resultado */
+export type WorkspaceTarget = 'determinant' | 'system' | 'inverse';
+
+interface MatrixWorkspaceProps {
+  /** Texto de las celdas de cada matriz guardada; cada una tiene su propio tamaño */
+  matrices: Record<WorkspaceMatrixName, string[][]>;
+  onMatricesChange: (matrices: Record<WorkspaceMatrixName, string[][]>) => void;
+  /** Resultado de la última operación calculada */
+  result: WorkspaceResult | null;
+  onCalculate: (steps: CalculationStep[], result: WorkspaceResult) => void;
+  /** Copia el resultado a la matriz principal y cambia al modo indicado */
+  onSendResult: (matrix: FractionMatrix, target: WorkspaceTarget) => void;
+  /** Método con el que se calculan det e inv dentro de una expresión */
+  method: CalculationMethod;
+  isCalculating?: boolean;
+}
+
+const NAMES: WorkspaceMatrixName[] = ['A', 'B', 'C'];
+
+const OPERATION_LABELS: Record<WorkspaceOperation, string> = {
+  sum: 'X + Y',
+  product: 'X · Y',
+  scalar: 'k · X',
+  transpose: 'Xᵀ',
+  power: 'Xⁿ',
+  expression: 'Expresión'
+};
+
+const TARGET_LABELS: Record<WorkspaceTarget, string> = {
+  determinant: 'Determinante',
+  system: 'Sistema (como A)',
+  inverse: 'Matriz Inversa'
+};
+
+export const MatrixWorkspace: React.FC<MatrixWorkspaceProps> = ({
+  matrices,
+  onMatricesChange,
+  result,
+  onCalculate,
+  onSendResult,
+  method,
+  isCalculating = false
+}) => {
+  const [operation, setOperation] = useState<WorkspaceOperation>('product');
+  const [left, setLeft] = useState<WorkspaceMatrixName>('A');
+  const [right, setRight] = useState<WorkspaceMatrixName>('B');
+  const [scalarText, setScalarText] = useState('2');
+  const [exponent, setExponent] = useState(2);
+  const [expressionText, setExpressionText] = useState("det(A*B) - 2*det(C')");
+
+  // Las operaciones del espacio de trabajo usan fracciones reales exactas
+  const parsed = useMemo(() => {
+    const entries = NAMES.map(name => {
+      const cells = matrices[name].map(row => row.map(cell => FractionParser.parse(cell)));
+      const hasErrors = cells.some(row => row.some(cell => cell.error !== undefined));
+      const values: FractionMatrix = cells.map(row => row.map(cell => cell.value ?? new Fraction(0, 1)));
+      return [name, { values, hasErrors }] as const;
+    });
+    return Object.fromEntries(entries) as Record<WorkspaceMatrixName, { values: FractionMatrix; hasErrors: boolean }>;
+  }, [matrices]);
+  const scalar = FractionParser.parse(scalarText);
+
+  const usesRight = operation === 'sum' || operation === 'product';
+  const operands = operation === 'expression'
+    ? NAMES.filter(name => new RegExp(`\\b${name}\\b`).test(expressionText))
+    : usesRight ? [left, right] : [left];
+  const inputError = operands.some(name => parsed[name].hasErrors)
+    ? `Corrige las celdas de ${operands.filter(name => parsed[name].hasErrors).join(' y ')}: el espacio de trabajo solo admite números reales`
+    : operation === 'scalar' && scalar.error !== undefined
+    ? `k: ${scalar.error}`
+    : undefined;
+
+  const resize = (name: WorkspaceMatrixName, rows: number, cols: number) => {
+    if (!(rows >= 2 && rows <= 6 && cols >= 2 && cols <= 6)) return;
+    const current = matrices[name];
+    onMatricesChange({
+      ...matrices,
+      [name]: Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => current[i]?.[j] ?? ''))
+    });
+  };
+
+  const changeCell = (name: WorkspaceMatrixName, row: number, col: number, value: string) => {
+    onMatricesChange({
+      ...matrices,
+      [name]: matrices[name].map((cells, i) => (i === row ? cells.map((cell, j) => (j === col ? value : cell)) : cells))
+    });
+  };
+
+  const calculate = () => {
+    if (inputError) return;
+    if (operation === 'expression') {
+      const values = Object.fromEntries(NAMES.map(name => [name, parsed[name].values])) as Record<WorkspaceMatrixName, FractionMatrix>;
+      const evaluation = MatrixExpression.evaluate(expressionText, values, method);
+      onCalculate(evaluation.steps, evaluation.result);
+      return;
+    }
+    const x = parsed[left].values;
+    const y = parsed[right].values;
+    const calculation = operation === 'sum'
+      ? MatrixArithmetic.add(x, y, left, right)
+      : operation === 'product'
+      ? MatrixArithmetic.multiply(x, y, left, right)
+      : operation === 'scalar'
+      ? MatrixArithmetic.scale(scalar.value ?? new Fraction(1, 1), x, left)
+      : operation === 'transpose'
+      ? MatrixArithmetic.transpose(x, left)
+      : MatrixArithmetic.power(x, exponent, left);
+    onCalculate(calculation.steps, calculation.result);
+  };
+
+  const storeResult = (name: WorkspaceMatrixName) => {
+    if (!result?.matrix) return;
+    onMatricesChange({ ...matrices, [name]: result.matrix.map(row => row.map(value => value.toString())) });
+  };
+
+  const resultMatrix = result?.matrix ?? null;
+  const isSquareResult = resultMatrix !== null && resultMatrix.length === resultMatrix[0].length;
+  const fitsInCalculator = resultMatrix !== null &&
+    resultMatrix.length >= 2 && resultMatrix.length <= 6 && resultMatrix[0].length >= 2 && resultMatrix[0].length <= 6;
+
+  return (
+    <div className="workspace">
+      <div className="workspace-matrices">
+        {NAMES.map(name => {
+          const rows = matrices[name].length;
+          const cols = matrices[name][0].length;
+          return (
+            <div key={name} className="workspace-matrix">
+              <div className="size-selector workspace-size">
+                <label htmlFor={`workspace-${name}-rows`}>{name}:</label>
+                <input
+                  id={`workspace-${name}-rows`}
+                  type="number"
+                  min="2"
+                  max="6"
+                  value={rows}
+                  onChange={(e) => resize(name, parseInt(e.target.value), cols)}
+                  className="size-input"
+                  title={`Filas de ${name}`}
+                />
+                <span>×</span>
+                <input
+                  type="number"
+                  min="2"
+                  max="6"
+                  value={cols}
+                  onChange={(e) => resize(name, rows, parseInt(e.target.value))}
+                  className="size-input"
+                  title={`Columnas de ${name}`}
+                  aria-label={`Columnas de ${name}`}
+                />
+              </div>
+              <MatrixInput
+                rows={rows}
+                cols={cols}
+                matrix={matrices[name]}
+                onMatrixChange={(row, col, value) => changeCell(name, row, col, value)}
+                name={name}
+                showPreview={false}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="workspace-operation">
+        <select value={operation} onChange={(e) => setOperation(e.target.value as WorkspaceOperation)} aria-label="Operación">
+          {(Object.keys(OPERATION_LABELS) as WorkspaceOperation[]).map(op => (
+            <option key={op} value={op}>{OPERATION_LABELS[op]}</option>
+          ))}
+        </select>
+
+        {operation === 'scalar' && (
+          <>
+            <label htmlFor="workspace-scalar">k =</label>
+            <input
+              id="workspace-scalar"
+              type="text"
+              value={scalarText}
+              onChange={(e) => setScalarText(e.target.value)}
+              className={`workspace-scalar ${scalar.error ? 'invalid' : ''}`}
+              title={scalar.error ?? 'Ej: 2, -1/3, 0.5'}
+            />
+          </>
+        )}
+
+        {operation === 'expression' ? (
+          <input
+            type="text"
+            value={expressionText}
+            onChange={(e) => setExpressionText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && calculate()}
+            className="workspace-expression"
+            aria-label="Expresión"
+            placeholder="det(A*B) - 2*det(C')"
+            title="Operadores + - * / ^ y ' (traspuesta); funciones det, inv, transpose y trace"
+          />
+        ) : (
+          <>
+            <label htmlFor="workspace-left">X =</label>
+            <select id="workspace-left" value={left} onChange={(e) => setLeft(e.target.value as WorkspaceMatrixName)}>
+              {NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </>
+        )}
+
+        {usesRight && (
+          <>
+            <label htmlFor="workspace-right">Y =</label>
+            <select id="workspace-right" value={right} onChange={(e) => setRight(e.target.value as WorkspaceMatrixName)}>
+              {NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </>
+        )}
+
+        {operation === 'power' && (
+          <>
+            <label htmlFor="workspace-exponent">n =</label>
+            <input
+              id="workspace-exponent"
+              type="number"
+              min={-MatrixArithmetic.MAX_EXPONENT}
+              max={MatrixArithmetic.MAX_EXPONENT}
+              value={exponent}
+              onChange={(e) => setExponent(parseInt(e.target.value) || 0)}
+              className="size-input"
+            />
+          </>
+        )}
+
+        <button
+          className="primary-button"
+          onClick={calculate}
+          disabled={isCalculating || Boolean(inputError)}
+          title={inputError}
+        >
+          <Play size={20} />
+          Calcular
+        </button>
+      </div>
+
+      {operation === 'expression' && !inputError && (
+        <p className="complex-mode-note">
+          Operadores + - * / ^ y ' (traspuesta); funciones det, inv, transpose y trace. det e inv se calculan por {method === 'laplace' ? 'LaPlace y la adjunta' : 'Gauss-Jordan'} (selector de método)
+        </p>
+      )}
+      {inputError && <p className="complex-mode-note invalid">{inputError}</p>}
+
+      {result && (
+        <motion.div
+          className={`workspace-result ${result.failureReason ? 'error' : ''}`}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <h4 className="matrix-section-title">{result.expression} =</h4>
+          {result.scalar ? (
+            <div className="matrix-display-container">
+              <FractionDisplay fraction={result.scalar} />
+            </div>
+          ) : resultMatrix ? (
+            <>
+              <MatrixFractionDisplay matrix={resultMatrix} augmentedCol={Number.POSITIVE_INFINITY} />
+              <div className="workspace-actions">
+                <span>Guardar en:</span>
+                {NAMES.map(name => (
+                  <button key={name} className="secondary-button" onClick={() => storeResult(name)}>
+                    <Save size={16} />
+                    {name}
+                  </button>
+                ))}
+              </div>
+              <div className="workspace-actions">
+                <span>Enviar a:</span>
+                {(Object.keys(TARGET_LABELS) as WorkspaceTarget[]).map(target => {
+                  const needsSquare = target !== 'system';
+                  const disabledReason = !fitsInCalculator
+                    ? 'La calculadora admite matrices de 2×2 a 6×6'
+                    : needsSquare && !isSquareResult
+                    ? 'El determinante y la inversa solo están definidos para matrices cuadradas'
+                    : undefined;
+                  return (
+                    <button
+                      key={target}
+                      className="secondary-button"
+                      onClick={() => onSendResult(resultMatrix, target)}
+                      disabled={Boolean(disabledReason)}
+                      title={disabledReason}
+                    >
+                      <Send size={16} />
+                      {TARGET_LABELS[target]}
+                    </button>
+                  );
+                })}
+              </div>
+            </>
+          ) : (
+            <p className="solution-message">{result.failureReason}</p>
+          )}
+
+          {result.tree && result.tree.children.length > 0 && (
+            <div className="expression-tree">
+              <h4 className="matrix-section-title">
+                <ListTree size={18} /> Árbol de subexpresiones
+              </h4>
+              <ul className="expression-tree-list">
+                <ExpressionTreeItem node={result.tree} onShowSteps={(node) => onCalculate(MatrixExpression.flatten(node), result)} />
+              </ul>
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+interface ExpressionTreeItemProps {
+  node: ExpressionNode;
+  /** Muestra en el visualizador solo los pasos de esta subexpresión */
+  onShowSteps: (node: ExpressionNode) => void;
+}
+
+/**
+ * Subexpresión con su valor; se despliega para ver de qué subexpresiones depende
+ */
+const ExpressionTreeItem: React.FC<ExpressionTreeItemProps> = ({ node, onShowSteps }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const hasChildren = node.children.length > 0;
+  const stepCount = MatrixExpression.flatten(node).length;
+
+  return (
+    <li className={`expression-tree-item ${node.failureReason ? 'error' : ''}`}>
+      <div className="expression-tree-row">
+        <button
+          className="expression-tree-toggle"
+          onClick={() => setIsExpanded(!isExpanded)}
+          disabled={!hasChildren}
+          aria-label={isExpanded ? 'Contraer' : 'Desplegar'}
+        >
+          {hasChildren ? (isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />) : null}
+        </button>
+        <span className="expression-tree-expression">{node.expression}</span>
+        <span className="expression-tree-value">
+          {node.failureReason
+            ? 'no definida'
+            : node.scalar
+            ? <>= <FractionDisplay fraction={node.scalar} /></>
+            : node.matrix
+            ? `matriz ${node.matrix.length}×${node.matrix[0].length}`
+            : null}
+        </span>
+        {stepCount > 0 && (
+          <button className="secondary-button expression-tree-steps" onClick={() => onShowSteps(node)}>
+            Ver pasos ({stepCount})
+          </button>
+        )}
+      </div>
+      {node.description && <p className="expression-tree-description">{node.description}</p>}
+      {hasChildren && isExpanded && (
+        <ul className="expression-tree-children">
+          {node.children.map((child, index) => (
+            <ExpressionTreeItem key={index} node={child} onShowSteps={onShowSteps} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
@@ -1,25 +1,46 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, ChevronRight, Calculator, ArrowRight } from 'lucide-react';
-import type { CalculationStep, Solution, Matrix, Vector, InverseResult } from '../types/matrix';
+import { ChevronDown, ChevronRight, Calculator, ArrowRight, ListTree, ZoomIn, ZoomOut } from 'lucide-react';
+import type { CalculationStep, CalculationMethod, ExpansionLine, StepExpansion, LaplaceTerm, LaplaceTreeNode, Solution, Matrix, Vector, InverseResult, ParametricCaseKind, ParametricClassification, GeneralSolution, SubspaceAnalysis, VectorBasis, QRResult, CholeskyResult } from '../types/matrix';
 import { MatrixMath } from '../utils/matrixMath';
-import { MatrixFractionDisplay } from './FractionDisplay';
+import { FractionDisplay, MatrixFractionDisplay } from './FractionDisplay';
 import { AnimationControls } from './AnimationControls';
 import { SolutionVerification } from './SolutionVerification';
 import { Fraction } from '../utils/fraction';
+import type { ComplexFraction, ComplexMatrix } from '../utils/complexFraction';
+import { Polynomial } from '../utils/polynomial';
+import { toSubscript } from '../utils/subscript';
+import type { PolynomialMatrix } from '../utils/polynomial';
 
 interface StepsVisualizerProps {
   steps: CalculationStep[];
   determinant: any;
   solution?: Solution | null;
   inverseResult?: InverseResult | null;
-  method: 'gauss-jordan' | 'laplace';
-  mode?: 'determinant' | 'system' | 'inverse';
+  /** Rango y subespacios fundamentales (modo Espacio Fila / Nulo) */
+  subspaceAnalysis?: SubspaceAnalysis | null;
+  /** Factorización A = QR por Gram–Schmidt */
+  qrResult?: QRResult | null;
+  /** Factorizaciones A = LDLᵀ y de Cholesky */
+  choleskyResult?: CholeskyResult | null;
+  method: CalculationMethod;
+  mode?: 'determinant' | 'system' | 'inverse' | 'subspaces' | 'qr' | 'cholesky' | 'workspace';
   showFractions?: boolean;
   className?: string;
   originalMatrix?: number[][];
+  /** Matriz original exacta cuando tiene entradas complejas */
+  originalComplexMatrix?: ComplexMatrix;
+  /** Matriz original con parámetros (k, a, λ, ...) */
+  originalSymbolicMatrix?: PolynomialMatrix;
   originalConstants?: Vector;
-  expansionFormula?: string;
+  /** Términos de la expansión de LaPlace de A, con valores exactos */
+  expansionTerms?: LaplaceTerm<Fraction | ComplexFraction | Polynomial>[];
+  /** Módulo n cuando los cálculos se hicieron en Z/nZ */
+  modulus?: number;
+  /** Árbol de recursión de la expansión de LaPlace */
+  laplaceTree?: LaplaceTreeNode;
+  /** Recalcula LaPlace desarrollando la matriz de la ruta dada por otra fila o columna */
+  onExpansionLineSelect?: (path: string, line: ExpansionLine) => void;
 }
 
 export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
@@ -27,13 +48,21 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
   determinant,
   solution,
   inverseResult,
+  subspaceAnalysis,
+  qrResult,
+  choleskyResult,
   method,
   mode = 'determinant',
   showFractions = true,
   className = '',
   originalMatrix = [],
+  originalComplexMatrix,
+  originalSymbolicMatrix,
   originalConstants = [],
-  expansionFormula
+  expansionTerms,
+  modulus,
+  laplaceTree,
+  onExpansionLineSelect
 }) => {
   const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set([1]));
   const [showAllSteps, setShowAllSteps] = useState(false);
@@ -44,6 +73,12 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
   const [animationSpeed, setAnimationSpeed] = useState(1);
   const intervalRef = useRef<number | null>(null);
 
+  // En un sistema m×n la columna de términos independientes es la n+1, no la m+1;
+  // en los modos de subespacios, factorizaciones y operaciones ninguna matriz es aumentada
+  const augmentedCol = mode === 'subspaces' || mode === 'qr' || mode === 'cholesky' || mode === 'workspace'
+    ? Number.POSITIVE_INFINITY
+    : mode === 'system' && originalMatrix.length > 0 ? originalMatrix[0].length : undefined;
+
   // Lógica de animación
   useEffect(() => {
     if (isPlaying && currentStep < steps.length) {
@@ -103,13 +138,31 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
   };
 
   const getMethodTitle = () => {
+    // Los modos con un único método no dependen del selector
+    if (mode === 'workspace') return 'Operaciones con Matrices';
+    if (mode === 'qr') return 'Gram–Schmidt y Factorización A = QR';
+    if (mode === 'cholesky') return 'Factorizaciones LDLᵀ y de Cholesky';
+
     switch (method) {
       case 'gauss-jordan':
         return 'Método de Gauss-Jordan';
+      case 'gaussian':
+        return mode === 'system' ? 'Eliminación Gaussiana y Sustitución hacia Atrás' : 'Eliminación Gaussiana';
+      case 'bareiss':
+        return 'Método de Montante (Bareiss)';
+      case 'sarrus':
+        return 'Regla de Sarrus';
+      case 'leibniz':
+        return 'Fórmula de Leibniz por Permutaciones';
+      case 'chio':
+        return 'Condensación de Chiò';
       case 'laplace':
         if (mode === 'inverse') {
           return 'Cálculo de Matriz Inversa por LaPlace';
         }
+        if (mode === 'system') {
+          return 'Regla de Cramer';
+        }
         return 'Expansión de LaPlace / Regla de Cramer';
       default:
         return 'Resolución Paso a Paso';
@@ -207,15 +260,17 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
                       <p className="step-description">{step.description}</p>
                       
                       <div className="step-matrix-container">
-                        {showFractions && step.fractionMatrix ? (
+                        {showFractions && (step.symbolicMatrix || step.complexMatrix || step.fractionMatrix) ? (
                           <div className="matrix-display">
                             <MatrixFractionDisplay 
-                              matrix={step.fractionMatrix}
-                              pivotElement={step.pivotFraction}
+                              matrix={step.symbolicMatrix ?? step.complexMatrix ?? step.fractionMatrix ?? []}
+                              pivotElement={step.pivotComplex ?? step.pivotFraction}
                               pivotRow={step.rowIndex}
                               pivotCol={step.rowIndex}
                               excludedRow={step.excludedRow}
                               excludedCol={step.excludedCol}
+                              augmentedCol={augmentedCol}
+                              highlightedCells={step.highlightedCells}
                             />
                           </div>
                         ) : (
@@ -226,11 +281,43 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
                               pivotRow={step.rowIndex}
                               excludedRow={step.excludedRow}
                               excludedCol={step.excludedCol}
+                              augmentedCol={augmentedCol}
+                              highlightedCells={step.highlightedCells}
                             />
                           </div>
                         )}
                       </div>
 
+                      {/* Fila o columna de desarrollo de LaPlace, elegible en cada nivel */}
+                      {step.expansion && onExpansionLineSelect && (
+                        <ExpansionLinePicker
+                          expansion={step.expansion}
+                          size={step.matrix.length}
+                          onSelect={onExpansionLineSelect}
+                        />
+                      )}
+
+                      {/* Matrices que se construyen junto a la principal (P y L en LU) */}
+                      {step.factors && step.factors.length > 0 && (
+                        <div className="step-factors">
+                          {step.factors.map(factor => (
+                            <div key={factor.name} className="step-factor">
+                              <span className="step-factor-name">{factor.name} =</span>
+                              {showFractions && (factor.radicalMatrix || factor.complexMatrix || factor.fractionMatrix) ? (
+                                <MatrixFractionDisplay matrix={factor.radicalMatrix ?? factor.complexMatrix ?? factor.fractionMatrix ?? []} />
+                              ) : (
+                                <MatrixDisplay matrix={factor.matrix} />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Pasos internos plegados (el LaPlace de cada determinante en Cramer) */}
+                      {step.substeps && step.substeps.length > 0 && (
+                        <SubstepsList substeps={step.substeps} showFractions={showFractions} />
+                      )}
+
                       {index < steps.length - 1 && (
                         <div className="step-arrow">
                           <ArrowRight className="arrow-icon" />
@@ -245,21 +332,28 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
         </AnimatePresence>
       </div>
 
+      {laplaceTree && mode === 'determinant' && (
+        <LaplaceTreeView tree={laplaceTree} showFractions={showFractions} />
+      )}
+
       {determinant !== null && mode === 'determinant' && (
         <DeterminantDisplay 
           determinant={determinant} 
           method={method} 
           originalMatrix={originalMatrix}
-          expansionFormula={expansionFormula}
+          originalComplexMatrix={originalComplexMatrix}
+          originalSymbolicMatrix={originalSymbolicMatrix}
+          expansionTerms={expansionTerms}
+          modulus={modulus}
         />
       )}
 
       {solution && mode === 'system' && (
         <>
-          <SolutionDisplay solution={solution} />
+          <SolutionDisplay solution={solution} modulus={modulus} />
           
-          {/* Sección de Comprobación para Gauss-Jordan */}
-          {method === 'gauss-jordan' && solution.isUnique && originalMatrix.length > 0 && originalConstants.length > 0 && (
+          {/* Sección de Comprobación (en decimales, no aplica a complejos ni a Z/nZ) */}
+          {solution.isUnique && !solution.complexVariables && !solution.parametricClassification && modulus === undefined && originalMatrix.length > 0 && originalConstants.length > 0 && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -277,24 +371,292 @@ export const StepsVisualizer: React.FC<StepsVisualizerProps> = ({
         </>
       )}
 
+      {subspaceAnalysis && mode === 'subspaces' && (
+        <SubspaceAnalysisDisplay analysis={subspaceAnalysis} />
+      )}
+
+      {qrResult && mode === 'qr' && (
+        <QRResultDisplay result={qrResult} />
+      )}
+
+      {choleskyResult && mode === 'cholesky' && (
+        <CholeskyResultDisplay result={choleskyResult} />
+      )}
+
       {inverseResult && mode === 'inverse' && (
         <InverseResultDisplay 
           inverseResult={inverseResult} 
           originalMatrix={originalMatrix}
+          originalComplexMatrix={originalComplexMatrix}
         />
       )}
     </motion.div>
   );
 };
 
+interface LaplaceTreeViewProps {
+  tree: LaplaceTreeNode;
+  showFractions?: boolean;
+}
+
+const ZOOM_LEVELS = [0.5, 0.65, 0.8, 1, 1.25];
+
+/**
+ * Un nodo conoce su determinante si es una hoja (2×2 o con todos los términos nulos) o si está
+ * desplegado y todos sus hijos lo conocen: los valores suben por el árbol al ir desplegándolo
+ */
+const isKnown = (node: LaplaceTreeNode, expanded: Set<string>): boolean =>
+  node.children.length === 0 || (expanded.has(node.path) && node.children.every(child => isKnown(child, expanded)));
+
+const collectPaths = (node: LaplaceTreeNode): string[] =>
+  node.children.length === 0 ? [] : [node.path, ...node.children.flatMap(collectPaths)];
+
+/**
+ * Árbol de recursión de LaPlace: cada nodo es un menor con su signo y su cofactor, y sus hijos
+ * son los menores en que se desarrolla
+ */
+const LaplaceTreeView: React.FC<LaplaceTreeViewProps> = ({ tree, showFractions = true }) => {
+  // Rutas de los nodos desplegados; al principio solo la raíz
+  const [expanded, setExpanded] = useState<Set<string>>(new Set(['']));
+  // Los árboles de 5×5 y 6×6 son anchos y profundos: empiezan con menos zoom
+  const [zoomIndex, setZoomIndex] = useState(tree.matrix.length >= 5 ? 1 : 3);
+
+  const toggle = (path: string) => {
+    const next = new Set(expanded);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <motion.div
+      className="laplace-tree"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="laplace-tree-header">
+        <h3 className="matrix-section-title">
+          <ListTree size={18} /> Árbol de Recursión de LaPlace
+        </h3>
+        <div className="laplace-tree-controls">
+          <button className="secondary-button" onClick={() => setExpanded(new Set(collectPaths(tree)))}>
+            Desplegar todo
+          </button>
+          <button className="secondary-button" onClick={() => setExpanded(new Set())}>
+            Contraer todo
+          </button>
+          <button
+            className="secondary-button"
+            onClick={() => setZoomIndex(zoomIndex - 1)}
+            disabled={zoomIndex === 0}
+            aria-label="Alejar"
+          >
+            <ZoomOut size={16} />
+          </button>
+          <span className="laplace-tree-zoom">{Math.round(ZOOM_LEVELS[zoomIndex] * 100)}%</span>
+          <button
+            className="secondary-button"
+            onClick={() => setZoomIndex(zoomIndex + 1)}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            aria-label="Acercar"
+          >
+            <ZoomIn size={16} />
+          </button>
+        </div>
+      </div>
+      <p className="expression-tree-description">
+        Despliega cada menor para ver en qué menores se desarrolla: su determinante aparece cuando se conocen los de todos sus hijos
+      </p>
+      <div className="laplace-tree-viewport">
+        <ul className="expression-tree-list" style={{ zoom: ZOOM_LEVELS[zoomIndex] }}>
+          <LaplaceTreeItem node={tree} expanded={expanded} onToggle={toggle} showFractions={showFractions} />
+        </ul>
+      </div>
+    </motion.div>
+  );
+};
+
+interface LaplaceTreeItemProps {
+  node: LaplaceTreeNode;
+  expanded: Set<string>;
+  onToggle: (path: string) => void;
+  showFractions: boolean;
+}
+
+/**
+ * Menor con su término aᵢⱼ·Cᵢⱼ; desplegado muestra su matriz (con la línea de desarrollo resaltada) y sus hijos
+ */
+const LaplaceTreeItem: React.FC<LaplaceTreeItemProps> = ({ node, expanded, onToggle, showFractions }) => {
+  const hasChildren = node.children.length > 0;
+  const isExpanded = hasChildren && expanded.has(node.path);
+  const known = isKnown(node, expanded);
+  const indices = node.position ? `${toSubscript(node.position[0] + 1)}${toSubscript(node.position[1] + 1)}` : '';
+  const sign = node.position ? ((node.position[0] + node.position[1]) % 2 === 0 ? '+' : '−') : '';
+  const line = node.line;
+  const highlightedCells = line
+    ? node.matrix.map((_, k) => (line.type === 'row' ? [line.index, k] : [k, line.index]) as [number, number])
+    : undefined;
+
+  return (
+    <li className="expression-tree-item">
+      <div className="expression-tree-row">
+        <button
+          className="expression-tree-toggle"
+          onClick={() => onToggle(node.path)}
+          disabled={!hasChildren}
+          aria-label={isExpanded ? 'Contraer' : 'Desplegar'}
+        >
+          {hasChildren ? (isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />) : null}
+        </button>
+        {node.position && <span className="laplace-tree-sign">{sign}</span>}
+        <span className="expression-tree-expression">{node.name}</span>
+        {node.position && (
+          <span className="expression-tree-value">a{indices} = {node.element}</span>
+        )}
+        <span className={`expression-tree-value ${known ? 'laplace-tree-known' : ''}`}>
+          det = {known ? node.determinant : '?'}
+        </span>
+        {node.position && (
+          <span className={`expression-tree-value ${known ? 'laplace-tree-known' : ''}`}>
+            C{indices} = {known ? node.cofactor : '?'} · a{indices}C{indices} = {known ? node.contribution : '?'}
+          </span>
+        )}
+        {line && (
+          <span className="expression-tree-value">
+            por {line.type === 'row' ? 'fila' : 'columna'} {line.index + 1}
+            {node.omittedTerms ? ` (${node.omittedTerms} término${node.omittedTerms === 1 ? '' : 's'} con 0)` : ''}
+          </span>
+        )}
+      </div>
+      {isExpanded && (
+        <>
+          <div className="matrix-display laplace-tree-matrix">
+            {showFractions && (node.symbolicMatrix || node.complexMatrix || node.fractionMatrix) ? (
+              <MatrixFractionDisplay
+                matrix={node.symbolicMatrix ?? node.complexMatrix ?? node.fractionMatrix ?? []}
+                highlightedCells={highlightedCells}
+              />
+            ) : (
+              <MatrixDisplay matrix={node.matrix} highlightedCells={highlightedCells} />
+            )}
+          </div>
+          <ul className="expression-tree-children">
+            {node.children.map(child => (
+              <LaplaceTreeItem
+                key={child.path}
+                node={child}
+                expanded={expanded}
+                onToggle={onToggle}
+                showFractions={showFractions}
+              />
+            ))}
+          </ul>
+        </>
+      )}
+    </li>
+  );
+};
+
+// Encabezados F1..Fn y C1..Cn para desarrollar la matriz de un paso por otra línea (★: la de más ceros)
+const ExpansionLinePicker: React.FC<{
+  expansion: StepExpansion;
+  size: number;
+  onSelect: (path: string, line: ExpansionLine) => void;
+}> = ({ expansion, size, onSelect }) => {
+  const isSameLine = (a: ExpansionLine, b: ExpansionLine) => a.type === b.type && a.index === b.index;
+  const lines: ExpansionLine[] = [
+    ...Array.from({ length: size }, (_, index) => ({ type: 'row' as const, index })),
+    ...Array.from({ length: size }, (_, index) => ({ type: 'column' as const, index }))
+  ];
+  const matrixName = expansion.path
+    ? expansion.path.split('/').map(minor => `M${minor.replace(',', '')}`).join(' → ')
+    : 'A';
+
+  return (
+    <div className="expansion-picker">
+      <span>Desarrollar {matrixName} por:</span>
+      {lines.map(line => {
+        const isActive = isSameLine(line, expansion.line);
+        const isOptimal = isSameLine(line, expansion.optimal);
+        return (
+          <button
+            key={`${line.type}-${line.index}`}
+            className={`expansion-picker-button ${isActive ? 'active' : ''} ${isOptimal ? 'optimal' : ''}`}
+            onClick={() => !isActive && onSelect(expansion.path, line)}
+            title={`${line.type === 'row' ? 'Fila' : 'Columna'} ${line.index + 1}${isOptimal ? ' (la de más ceros)' : ''}`}
+          >
+            {line.type === 'row' ? 'F' : 'C'}{line.index + 1}{isOptimal ? ' ★' : ''}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// Subpasos de un paso, plegados por defecto para no alargar la lista principal
+const SubstepsList: React.FC<{ substeps: CalculationStep[]; showFractions: boolean }> = ({ substeps, showFractions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="substeps">
+      <button className="substeps-toggle" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        {isOpen ? 'Ocultar' : 'Ver'} {substeps.length} subpasos
+      </button>
+      {isOpen && (
+        <ol className="substeps-list">
+          {substeps.map(substep => (
+            <li key={substep.id} className="substep-item">
+              <div className="substep-header">
+                <span className="substep-title">{substep.title}</span>
+                {substep.operation && <span className="step-operation">{substep.operation}</span>}
+              </div>
+              <p className="step-description">{substep.description}</p>
+              <div className="matrix-display">
+                {showFractions && (substep.complexMatrix || substep.fractionMatrix) ? (
+                  <MatrixFractionDisplay
+                    matrix={substep.complexMatrix ?? substep.fractionMatrix ?? []}
+                    pivotElement={substep.pivotComplex ?? substep.pivotFraction}
+                    pivotRow={substep.rowIndex}
+                    pivotCol={substep.rowIndex}
+                    excludedRow={substep.excludedRow}
+                    excludedCol={substep.excludedCol}
+                    highlightedCells={substep.highlightedCells}
+                  />
+                ) : (
+                  <MatrixDisplay
+                    matrix={substep.matrix}
+                    pivotElement={substep.pivotElement}
+                    pivotRow={substep.rowIndex}
+                    excludedRow={substep.excludedRow}
+                    excludedCol={substep.excludedCol}
+                    highlightedCells={substep.highlightedCells}
+                  />
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
 const MatrixDisplay: React.FC<{
   matrix: number[][];
   pivotElement?: number;
   pivotRow?: number;
   excludedRow?: number;
   excludedCol?: number;
-}> = ({ matrix, pivotElement, pivotRow, excludedRow, excludedCol }) => {
+  augmentedCol?: number;
+  highlightedCells?: [number, number][];
+}> = ({ matrix, pivotElement, pivotRow, excludedRow, excludedCol, augmentedCol, highlightedCells }) => {
   const maxCols = Math.max(...matrix.map(row => row.length));
+  const firstAugmentedCol = augmentedCol ?? matrix.length;
   const hasExclusions = excludedRow !== undefined || excludedCol !== undefined;
   
   return (
@@ -311,15 +673,16 @@ const MatrixDisplay: React.FC<{
           Array.from({ length: maxCols }, (_, j) => {
             const value = row[j];
             const isPivot = pivotRow === i && value === pivotElement;
-            const isAugmentedColumn = j === maxCols - 1 && maxCols > matrix.length;
+            const isAugmentedColumn = j === maxCols - 1 && maxCols > firstAugmentedCol;
             const isExcludedRow = excludedRow !== undefined && i === excludedRow;
             const isExcludedCol = excludedCol !== undefined && j === excludedCol;
             const isExcluded = isExcludedRow || isExcludedCol;
+            const isHighlighted = highlightedCells?.some(([row, col]) => row === i && col === j) ?? false;
             
             return (
               <span
                 key={`${i}-${j}`}
-                className={`matrix-value ${isPivot ? 'pivot-element' : ''} ${isAugmentedColumn ? 'augmented-column' : ''} ${isExcluded ? 'excluded-element' : ''}`}
+                className={`matrix-value ${isPivot ? 'pivot-element' : ''} ${isAugmentedColumn ? 'augmented-column' : ''} ${isExcluded ? 'excluded-element' : ''} ${isHighlighted ? 'highlighted-element' : ''}`}
                 style={isExcluded ? { 
                   textDecoration: 'line-through',
                   opacity: 0.4,
@@ -346,101 +709,17 @@ const MatrixDisplay: React.FC<{
   );
 };
 
-/**
- * Calcula los pasos de la expansión para mostrar el desarrollo
- */
-const calculateExpansionSteps = (formula: string, finalResult: any): string => {
-  // Extraer los términos de la fórmula: "det = (3) × (-22) - (0) × (14) + (2) × (47)"
-  const formulaPart = formula.replace('det = ', '');
-  
-  // Separar por términos considerando los signos
-  const terms: string[] = [];
-  let currentTerm = '';
-  let depth = 0;
-  
-  for (let i = 0; i < formulaPart.length; i++) {
-    const char = formulaPart[i];
-    
-    if (char === '(') depth++;
-    if (char === ')') depth--;
-    
-    if (depth === 0 && i > 0 && (char === '+' || char === '-') && formulaPart[i - 1] === ' ') {
-      if (currentTerm.trim() !== '') {
-        terms.push(currentTerm.trim());
-      }
-      currentTerm = '';
-      continue;
-    }
-    
-    currentTerm += char;
-  }
-  
-  if (currentTerm.trim() !== '') {
-    terms.push(currentTerm.trim());
-  }
-  
-  // Calcular cada término
-  const calculations: string[] = [];
-  const results: number[] = [];
-  const signs: string[] = [];
-  
-  // Extraer signos
-  let tempFormula = formulaPart;
-  for (let i = 0; i < tempFormula.length; i++) {
-    if (tempFormula[i] === '+' || (tempFormula[i] === '-' && i > 0 && tempFormula[i-1] === ' ')) {
-      signs.push(tempFormula[i]);
-    }
-  }
-  
-  for (let i = 0; i < terms.length; i++) {
-    const term = terms[i];
-    // Extraer los números: (3) × (-22)
-    const matches = term.match(/\((-?\d+\.?\d*)\)\s*×\s*\((-?\d+\.?\d*)\)/);
-    if (matches && matches.length >= 3) {
-      const num1 = parseFloat(matches[1]);
-      const num2 = parseFloat(matches[2]);
-      const result = num1 * num2;
-      const sign = i === 0 ? '' : (signs[i - 1] === '-' ? '-' : '+');
-      const adjustedResult = sign === '-' ? -Math.abs(result) : result;
-      
-      results.push(adjustedResult);
-      calculations.push(`${num1} × (${num2})`);
-    }
-  }
-  
-  // Construir las líneas del desarrollo
-  const lines: string[] = [];
-  
-  // Línea 1: Reemplazar multiplicaciones con resultados
-  let line1 = 'det = ';
-  for (let i = 0; i < calculations.length; i++) {
-    const sign = i === 0 ? '' : (results[i] >= 0 ? ' + ' : ' - ');
-    const absResult = Math.abs(results[i]);
-    line1 += `${sign}${absResult}`;
-  }
-  lines.push(line1);
-  
-  // Línea 2: Suma de los resultados
-  const sum = results.reduce((a, b) => a + b, 0);
-  const line2 = `det = ${results.map((r, i) => {
-    if (i === 0) return r;
-    return r >= 0 ? ` + ${r}` : ` - ${Math.abs(r)}`;
-  }).join('')}`;
-  lines.push(line2);
-  
-  // Línea 3: Resultado final
-  const finalValue = finalResult ? (finalResult.toString ? finalResult.toString() : finalResult) : sum;
-  lines.push(`det = ${finalValue}`);
-  
-  return lines.join('\n');
-};
-
 const DeterminantDisplay: React.FC<{
   determinant: any;
-  method: 'gauss-jordan' | 'laplace';
+  method: CalculationMethod;
   originalMatrix?: number[][];
-  expansionFormula?: string;
-}> = ({ determinant, method, originalMatrix = [], expansionFormula }) => {
+  originalComplexMatrix?: ComplexMatrix;
+  originalSymbolicMatrix?: PolynomialMatrix;
+  expansionTerms?: LaplaceTerm<Fraction | ComplexFraction | Polynomial>[];
+  modulus?: number;
+}> = ({ determinant, method, originalMatrix = [], originalComplexMatrix, originalSymbolicMatrix, expansionTerms, modulus }) => {
+  const isPolynomial = determinant instanceof Polynomial;
+
   return (
     <motion.div
       className="determinant-display"
@@ -455,21 +734,45 @@ const DeterminantDisplay: React.FC<{
         
         <div className="determinant-result">
           <span className="determinant-label">det(A) = </span>
-          <span className={`determinant-value ${determinant && determinant.equals && determinant.equals(0) ? 'zero-det' : 'nonzero-det'}`}>
+          <span className={`determinant-value ${isPolynomial ? (determinant.isZero() ? 'zero-det' : 'nonzero-det') : determinant && determinant.equals && determinant.equals(0) ? 'zero-det' : 'nonzero-det'}`}>
             {determinant ? (determinant.toString ? determinant.toString() : determinant) : '0'}
           </span>
+          {modulus !== undefined && <span className="modulus-label"> (mod {modulus})</span>}
         </div>
 
-        {expansionFormula && (
+        {isPolynomial && !determinant.isConstant() && (
+          <div className="invertibility-condition">
+            <span className="formula-label">Invertibilidad: </span>
+            <span className="formula-content">{describeInvertibility(determinant)}</span>
+          </div>
+        )}
+
+        {expansionTerms && expansionTerms.length > 0 && (
           <>
             <div className="expansion-formula">
               <span className="formula-label">Expansión: </span>
-              <span className="formula-content">{expansionFormula}</span>
+              <span className="formula-content">
+                det = {expansionTerms.map((term, k) => (
+                  <React.Fragment key={`${term.row}-${term.col}`}>
+                    {term.sign === -1 ? (k === 0 ? '−' : ' − ') : k === 0 ? '' : ' + '}
+                    (<FractionDisplay fraction={term.entry} />) × (<FractionDisplay fraction={term.minorDeterminant} />)
+                  </React.Fragment>
+                ))}
+              </span>
             </div>
-            
+
+            {/* Cada término ya lleva su signo: (-1)^(i+j)·aᵢⱼ·det(Mᵢⱼ) */}
             <div className="expansion-calculation">
               <span className="formula-label">Cálculo: </span>
-              <span className="formula-content">{calculateExpansionSteps(expansionFormula, determinant)}</span>
+              <span className="formula-content">
+                det = {expansionTerms.map((term, k) => (
+                  <React.Fragment key={`${term.row}-${term.col}`}>
+                    {k === 0 ? '' : ' + '}(<FractionDisplay fraction={term.product} />)
+                  </React.Fragment>
+                ))}
+                {' = '}<FractionDisplay fraction={determinant} />
+                {modulus !== undefined && ` (mod ${modulus})`}
+              </span>
             </div>
           </>
         )}
@@ -477,7 +780,19 @@ const DeterminantDisplay: React.FC<{
         <div className="method-info">
           <span className="method-label">Método: </span>
           <span className="method-name">
-            {method === 'laplace' ? 'Expansión de Laplace' : 'Eliminación de Gauss-Jordan'}
+            {method === 'sarrus'
+              ? 'Regla de Sarrus'
+              : method === 'leibniz'
+              ? 'Fórmula de Leibniz'
+              : method === 'chio'
+              ? 'Condensación de Chiò'
+              : method === 'laplace'
+              ? 'Expansión de Laplace'
+              : method === 'gaussian'
+              ? 'Eliminación Gaussiana'
+              : method === 'bareiss'
+              ? 'Montante (Bareiss)'
+              : 'Eliminación de Gauss-Jordan'}
           </span>
         </div>
       </div>
@@ -486,7 +801,13 @@ const DeterminantDisplay: React.FC<{
         <div className="matrix-summary">
           <h4 className="matrix-summary-title">Matriz Original ({originalMatrix.length}×{originalMatrix[0]?.length || 0}):</h4>
           <div className="matrix-summary-content">
-            <MatrixDisplay matrix={originalMatrix} />
+            {originalSymbolicMatrix ? (
+              <MatrixFractionDisplay matrix={originalSymbolicMatrix} />
+            ) : originalComplexMatrix ? (
+              <MatrixFractionDisplay matrix={originalComplexMatrix} />
+            ) : (
+              <MatrixDisplay matrix={originalMatrix} />
+            )}
           </div>
         </div>
       )}
@@ -494,8 +815,47 @@ const DeterminantDisplay: React.FC<{
   );
 };
 
+// Describe para qué valores del parámetro la matriz es invertible (det(A) ≠ 0)
+const describeInvertibility = (determinant: Polynomial): string => {
+  const variables = determinant.variables;
+  if (variables.length !== 1) {
+    return `A es invertible para los valores de ${variables.join(', ')} con ${determinant.toString()} ≠ 0`;
+  }
+
+  const [name] = variables;
+  const { roots, remainder } = determinant.factorRationalRoots();
+  const exclusions = roots.map(root => `${name} = ${root.toString()}`);
+  if (!remainder.isConstant()) {
+    exclusions.push(`las raíces de ${remainder.toString()} (no racionales)`);
+  }
+  return exclusions.length > 0
+    ? `A es invertible para todo ${name} excepto ${exclusions.join(', ')}`
+    : `A es invertible para todo ${name}`;
+};
+
 // Componente para mostrar la solución del sistema de ecuaciones
-const SolutionDisplay: React.FC<{ solution: Solution }> = ({ solution }) => {
+const SolutionDisplay: React.FC<{ solution: Solution; modulus?: number }> = ({ solution, modulus }) => {
+  if (solution.parametricClassification) {
+    return <ParametricCasesDisplay classification={solution.parametricClassification} />;
+  }
+
+  if (solution.failureReason) {
+    return (
+      <motion.div
+        className="solution-display warning"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+      >
+        <div className="solution-header">
+          <Calculator size={28} />
+          <h3>No se pudo resolver</h3>
+        </div>
+        <p className="solution-message">{solution.failureReason}</p>
+      </motion.div>
+    );
+  }
+
   if (solution.hasNoSolution) {
     return (
       <motion.div
@@ -530,6 +890,7 @@ const SolutionDisplay: React.FC<{ solution: Solution }> = ({ solution }) => {
         <p className="solution-message">
           El sistema tiene infinitas soluciones. Las ecuaciones son dependientes.
         </p>
+        {solution.generalSolution && <GeneralSolutionDisplay general={solution.generalSolution} />}
       </motion.div>
     );
   }
@@ -543,11 +904,21 @@ const SolutionDisplay: React.FC<{ solution: Solution }> = ({ solution }) => {
     >
       <div className="solution-header">
         <Calculator size={28} />
-        <h3>Solución del Sistema</h3>
+        <h3>Solución del Sistema{modulus !== undefined && ` (mod ${modulus})`}</h3>
       </div>
       
       <div className="solution-variables">
-        {solution.fractionVariables && solution.fractionVariables.length > 0 ? (
+        {solution.complexVariables && solution.complexVariables.length > 0 ? (
+          solution.complexVariables.map((value, i) => (
+            <div key={i} className="variable-item">
+              <span className="variable-name">x<sub>{i + 1}</sub></span>
+              <span className="equals">=</span>
+              <span className="variable-value">
+                {value.toString()}
+              </span>
+            </div>
+          ))
+        ) : solution.fractionVariables && solution.fractionVariables.length > 0 ? (
           solution.fractionVariables.map((fraction, i) => (
             <div key={i} className="variable-item">
               <span className="variable-name">x<sub>{i + 1}</sub></span>
@@ -574,6 +945,313 @@ const SolutionDisplay: React.FC<{ solution: Solution }> = ({ solution }) => {
   );
 };
 
+// Forma vectorial paramétrica x = p + t₁v₁ + ... + tₖvₖ de un sistema compatible indeterminado
+const GeneralSolutionDisplay: React.FC<{ general: GeneralSolution }> = ({ general }) => {
+  const renderVector = (index: number | 'particular') => {
+    const complex = index === 'particular' ? general.complexParticular : general.complexDirections?.[index];
+    const fraction = index === 'particular' ? general.fractionParticular : general.fractionDirections?.[index];
+    const decimal = index === 'particular' ? general.particular : general.directions[index];
+
+    if (complex) {
+      return <MatrixFractionDisplay matrix={complex.map(value => [value])} />;
+    }
+    return fraction ? (
+      <MatrixFractionDisplay matrix={fraction.map(value => [value])} />
+    ) : (
+      <MatrixDisplay matrix={decimal.map(value => [value])} />
+    );
+  };
+
+  return (
+    <div className="general-solution">
+      <div className="general-solution-vars">
+        <span>
+          Variables pivote: {general.pivotColumns.map(col => `x${col + 1}`).join(', ') || 'ninguna'}
+        </span>
+        <span>
+          Variables libres: {general.freeColumns.map((col, k) => `x${col + 1} = t${toSubscript(k + 1)}`).join(', ')}
+        </span>
+      </div>
+
+      <div className="general-solution-form">
+        <span className="general-solution-term">x =</span>
+        {renderVector('particular')}
+        {general.directions.map((_, k) => (
+          <React.Fragment key={k}>
+            <span className="general-solution-term">+ t{toSubscript(k + 1)}</span>
+            {renderVector(k)}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <p className="general-solution-note">
+        t{toSubscript(1)}{general.freeColumns.length > 1 ? `, …, t${toSubscript(general.freeColumns.length)}` : ''} pueden tomar cualquier valor
+      </p>
+    </div>
+  );
+};
+
+// Rango y bases de los cuatro subespacios fundamentales, cada vector como columna
+const SubspaceAnalysisDisplay: React.FC<{ analysis: SubspaceAnalysis }> = ({ analysis }) => {
+  const modulusLabel = analysis.modulus !== undefined ? ` (mod ${analysis.modulus})` : '';
+
+  if (analysis.failureReason) {
+    return (
+      <motion.div
+        className="solution-display error"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+      >
+        <div className="solution-header">
+          <Calculator size={28} />
+          <h3>No se pudo reducir la matriz{modulusLabel}</h3>
+        </div>
+        <p className="solution-message">{analysis.failureReason}</p>
+      </motion.div>
+    );
+  }
+
+  const renderBasis = (basis: VectorBasis) => {
+    if (basis.vectors.length === 0) {
+      return <span className="subspace-trivial">Solo el vector cero (base vacía)</span>;
+    }
+    return (
+      <div className="subspace-vectors">
+        {basis.complexVectors
+          ? basis.complexVectors.map((vector, k) => <MatrixFractionDisplay key={k} matrix={vector.map(value => [value])} />)
+          : basis.fractionVectors
+          ? basis.fractionVectors.map((vector, k) => <MatrixFractionDisplay key={k} matrix={vector.map(value => [value])} />)
+          : basis.vectors.map((vector, k) => <MatrixDisplay key={k} matrix={vector.map(value => [value])} />)}
+      </div>
+    );
+  };
+
+  const spaces: { name: string; description: string; basis: VectorBasis }[] = [
+    { name: 'N(A)', description: `Espacio nulo: soluciones de Ax = 0 (vectores de ${analysis.cols} componentes)`, basis: analysis.nullSpace },
+    { name: 'C(A)', description: `Espacio columna: columnas pivote de A (vectores de ${analysis.rows} componentes)`, basis: analysis.columnSpace },
+    { name: 'F(A)', description: 'Espacio fila: filas no nulas de la forma escalonada reducida', basis: analysis.rowSpace },
+    { name: 'N(Aᵀ)', description: `Espacio nulo izquierdo: soluciones de Aᵀy = 0 (vectores de ${analysis.rows} componentes)`, basis: analysis.leftNullSpace }
+  ];
+
+  return (
+    <motion.div
+      className="solution-display"
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="solution-header">
+        <Calculator size={28} />
+        <h3>Subespacios Fundamentales{modulusLabel}</h3>
+      </div>
+
+      <p className="solution-message">
+        rango(A) = {analysis.rank} · columnas pivote: {analysis.pivotColumns.map(col => col + 1).join(', ') || 'ninguna'} ·
+        {' '}dim N(A) = {analysis.cols} - {analysis.rank} = {analysis.cols - analysis.rank}
+      </p>
+
+      <div className="subspace-grid">
+        {spaces.map(space => (
+          <div key={space.name} className="subspace-card">
+            <h4 className="subspace-title">
+              {space.name} <span className="subspace-dimension">dim = {space.basis.vectors.length}</span>
+            </h4>
+            <p className="subspace-description">{space.description}</p>
+            {renderBasis(space.basis)}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+// Resultado de Gram–Schmidt: normas exactas y las matrices Q y R
+const QRResultDisplay: React.FC<{ result: QRResult }> = ({ result }) => {
+  if (result.failureReason) {
+    return (
+      <motion.div
+        className="solution-display error"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+      >
+        <div className="solution-header">
+          <Calculator size={28} />
+          <h3>No existe la factorización QR</h3>
+        </div>
+        <p className="solution-message">{result.failureReason}</p>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="solution-display"
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="solution-header">
+        <Calculator size={28} />
+        <h3>Factorización A = QR</h3>
+      </div>
+
+      <div className="solution-variables">
+        {result.norms.map((norm, k) => (
+          <div key={k} className="variable-item">
+            <span className="variable-name">‖u<sub>{k + 1}</sub>‖</span>
+            <span className="equals">=</span>
+            <span className="variable-value">
+              <FractionDisplay fraction={norm} />
+              {!norm.isRational() && norm.isDisplayable() && ` ≈ ${norm.toDecimal().toFixed(4)}`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="step-factors">
+        <div className="step-factor">
+          <span className="step-factor-name">Q =</span>
+          <MatrixFractionDisplay matrix={result.q} />
+        </div>
+        <div className="step-factor">
+          <span className="step-factor-name">R =</span>
+          <MatrixFractionDisplay matrix={result.r} />
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+// Resultado de LDLᵀ: pivotes, L y D y, si A es definida positiva, el factor de Cholesky G
+const CholeskyResultDisplay: React.FC<{ result: CholeskyResult }> = ({ result }) => {
+  if (result.failureReason) {
+    return (
+      <motion.div
+        className="solution-display error"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+      >
+        <div className="solution-header">
+          <Calculator size={28} />
+          <h3>No existe la factorización LDLᵀ</h3>
+        </div>
+        <p className="solution-message">{result.failureReason}</p>
+      </motion.div>
+    );
+  }
+
+  const n = result.diagonal.length;
+  const diagonalMatrix = result.diagonal.map((value, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? value : new Fraction(0, 1)))
+  );
+
+  return (
+    <motion.div
+      className="solution-display"
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="solution-header">
+        <Calculator size={28} />
+        <h3>{result.cholesky ? 'A = LDLᵀ = GGᵀ (definida positiva)' : 'Factorización A = LDLᵀ'}</h3>
+      </div>
+
+      <div className="solution-variables">
+        {result.diagonal.map((pivot, k) => (
+          <div key={k} className="variable-item">
+            <span className="variable-name">d<sub>{k + 1}</sub></span>
+            <span className="equals">=</span>
+            <span className="variable-value">
+              <FractionDisplay fraction={pivot} />
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="step-factors">
+        <div className="step-factor">
+          <span className="step-factor-name">L =</span>
+          <MatrixFractionDisplay matrix={result.lower} />
+        </div>
+        <div className="step-factor">
+          <span className="step-factor-name">D =</span>
+          <MatrixFractionDisplay matrix={diagonalMatrix} />
+        </div>
+        {result.cholesky && (
+          <div className="step-factor">
+            <span className="step-factor-name">G =</span>
+            <MatrixFractionDisplay matrix={result.cholesky} />
+          </div>
+        )}
+      </div>
+
+      {result.notPositiveDefiniteReason && (
+        <p className="solution-message">{result.notPositiveDefiniteReason}</p>
+      )}
+    </motion.div>
+  );
+};
+
+const PARAMETRIC_KIND_LABELS: Record<ParametricCaseKind, string> = {
+  unique: 'Solución única',
+  infinite: 'Infinitas soluciones',
+  none: 'Sin solución',
+  undetermined: 'Sin determinar',
+  never: 'No se da (raíces no reales)'
+};
+
+// Tabla de casos de un sistema que depende de un parámetro
+const ParametricCasesDisplay: React.FC<{ classification: ParametricClassification }> = ({ classification }) => {
+  return (
+    <motion.div
+      className="solution-display"
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="solution-header">
+        <Calculator size={28} />
+        <h3>Discusión según {classification.parameter}</h3>
+      </div>
+
+      <div className="parametric-table-container">
+        <table className="parametric-table">
+          <thead>
+            <tr>
+              <th>Valores de {classification.parameter}</th>
+              <th>rango(A)</th>
+              <th>rango([A|b])</th>
+              <th>Tipo de sistema</th>
+              <th>Solución</th>
+            </tr>
+          </thead>
+          <tbody>
+            {classification.cases.map((parametricCase, i) => (
+              <tr key={i} className={`parametric-case ${parametricCase.kind}`} title={parametricCase.description}>
+                <td className="parametric-condition">{parametricCase.condition}</td>
+                <td>{parametricCase.rank ?? '—'}</td>
+                <td>{parametricCase.augmentedRank ?? '—'}</td>
+                <td className="parametric-kind">{PARAMETRIC_KIND_LABELS[parametricCase.kind]}</td>
+                <td className="parametric-solution">
+                  {parametricCase.solution
+                    ? parametricCase.solution.map((value, j) => (
+                        <div key={j}>x<sub>{j + 1}</sub> = {value}</div>
+                      ))
+                    : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+};
+
 // Componente para mostrar la verificación de multiplicación paso a paso (versión simplificada)
 const MatrixMultiplicationVerification: React.FC<{
   originalMatrix: Matrix;
@@ -865,7 +1543,8 @@ const MatrixMultiplicationVerification: React.FC<{
 const InverseResultDisplay: React.FC<{
   inverseResult: InverseResult;
   originalMatrix?: number[][];
-}> = ({ inverseResult, originalMatrix = [] }) => {
+  originalComplexMatrix?: ComplexMatrix;
+}> = ({ inverseResult, originalMatrix = [], originalComplexMatrix }) => {
   if (!inverseResult.isInvertible) {
     return (
       <motion.div
@@ -879,11 +1558,15 @@ const InverseResultDisplay: React.FC<{
           <h3>Matriz No Invertible</h3>
         </div>
         <p className="inverse-message">
-          La matriz no tiene inversa porque su determinante es cero (matriz singular).
+          {inverseResult.modulus !== undefined
+            ? `La matriz no tiene inversa módulo ${inverseResult.modulus} porque su determinante no es invertible (mcd(det(A), ${inverseResult.modulus}) ≠ 1).`
+            : 'La matriz no tiene inversa porque su determinante es cero (matriz singular).'}
         </p>
         <div className="determinant-info">
           <span className="determinant-label">det(A) = </span>
-          <span className="determinant-value zero-det">0</span>
+          <span className="determinant-value zero-det">
+            {inverseResult.modulus !== undefined ? `${inverseResult.determinant} (mod ${inverseResult.modulus})` : '0'}
+          </span>
         </div>
       </motion.div>
     );
@@ -904,16 +1587,25 @@ const InverseResultDisplay: React.FC<{
       <div className="inverse-info">
         <div className="determinant-info">
           <span className="determinant-label">det(A) = </span>
-          <span className={`determinant-value ${Math.abs(inverseResult.determinant) < 1e-10 ? 'zero-det' : 'nonzero-det'}`}>
-            {inverseResult.fractionDeterminant ? 
+          <span className={`determinant-value ${Math.abs(inverseResult.determinant) < 1e-10 && !inverseResult.complexDeterminant ? 'zero-det' : 'nonzero-det'}`}>
+            {inverseResult.complexDeterminant ?
+              inverseResult.complexDeterminant.toString() :
+              inverseResult.fractionDeterminant ? 
               inverseResult.fractionDeterminant.toString() : 
               inverseResult.determinant.toString()}
           </span>
+          {inverseResult.modulus !== undefined && <span className="modulus-label"> (mod {inverseResult.modulus})</span>}
         </div>
         
         <div className="inverse-formula">
           <span className="formula-label">Fórmula: </span>
-          <span className="formula-content">A⁻¹ = (1/det(A)) × adj(A)</span>
+          <span className="formula-content">
+            {inverseResult.method === 'gauss-jordan'
+              ? '[A | I] → [I | A⁻¹]'
+              : inverseResult.method === 'bareiss'
+              ? '[A | I] → [p·I | p·A⁻¹], p = ±det(A) (Montante)'
+              : 'A⁻¹ = (1/det(A)) × adj(A)'}
+          </span>
         </div>
       </div>
 
@@ -921,7 +1613,9 @@ const InverseResultDisplay: React.FC<{
         <div className="matrix-result-section">
           <h4 className="matrix-section-title">Matriz Inversa A⁻¹:</h4>
           <div className="matrix-display-container">
-            {inverseResult.fractionInverseMatrix ? (
+            {inverseResult.complexInverseMatrix ? (
+              <MatrixFractionDisplay matrix={inverseResult.complexInverseMatrix} />
+            ) : inverseResult.fractionInverseMatrix ? (
               <MatrixFractionDisplay matrix={inverseResult.fractionInverseMatrix} />
             ) : (
               <MatrixDisplay matrix={inverseResult.inverseMatrix} />
@@ -932,7 +1626,9 @@ const InverseResultDisplay: React.FC<{
         <div className="matrix-result-section">
           <h4 className="matrix-section-title">Matriz Adjunta adj(A):</h4>
           <div className="matrix-display-container">
-            {inverseResult.fractionAdjugateMatrix ? (
+            {inverseResult.complexAdjugateMatrix ? (
+              <MatrixFractionDisplay matrix={inverseResult.complexAdjugateMatrix} />
+            ) : inverseResult.fractionAdjugateMatrix ? (
               <MatrixFractionDisplay matrix={inverseResult.fractionAdjugateMatrix} />
             ) : (
               <MatrixDisplay matrix={inverseResult.adjugateMatrix} />
@@ -946,15 +1642,22 @@ const InverseResultDisplay: React.FC<{
           <div className="matrix-summary">
             <h4 className="matrix-summary-title">Matriz Original A ({originalMatrix.length}×{originalMatrix[0]?.length || 0}):</h4>
             <div className="matrix-summary-content">
-              <MatrixDisplay matrix={originalMatrix} />
+              {originalComplexMatrix ? (
+                <MatrixFractionDisplay matrix={originalComplexMatrix} />
+              ) : (
+                <MatrixDisplay matrix={originalMatrix} />
+              )}
             </div>
           </div>
           
-          <MatrixMultiplicationVerification 
-            originalMatrix={originalMatrix}
-            inverseMatrix={inverseResult.inverseMatrix}
-            fractionInverseMatrix={inverseResult.fractionInverseMatrix}
-          />
+          {/* La verificación animada trabaja con decimales; para complejos y Z/nZ se muestra en los pasos */}
+          {!originalComplexMatrix && inverseResult.modulus === undefined && (
+            <MatrixMultiplicationVerification 
+              originalMatrix={originalMatrix}
+              inverseMatrix={inverseResult.inverseMatrix}
+              fractionInverseMatrix={inverseResult.fractionInverseMatrix}
+            />
+          )}
         </>
       )}
     </motion.div>
@@ -0,0 +1,134 @@
+import type { Fraction } from '../utils/fraction';
+import type { ComplexFraction } from '../utils/complexFraction';
+import type { Polynomial } from '../utils/polynomial';
+
+/**
+ * Anillo conmutativo con unidad sobre el que trabajan los algoritmos genéricos.
+ * Basta con estas operaciones para la expansión de LaPlace (no requiere dividir).
+ */
+export interface Ring<T> {
+  /** Nombre del sistema numérico, usado en las descripciones de los pasos */
+  readonly name: string;
+  zero(): T;
+  one(): T;
+  fromInteger(value: number): T;
+  add(a: T, b: T): T;
+  sub(a: T, b: T): T;
+  neg(a: T): T;
+  mul(a: T, b: T): T;
+  isZero(a: T): boolean;
+  equals(a: T, b: T): boolean;
+  format(a: T): string;
+  /** Valor decimal aproximado para la matriz numérica de cada paso */
+  toNumber(a: T): number;
+  /** Valor exacto como fracción, si el sistema lo permite (se muestra en lugar del decimal) */
+  toFraction?(a: T): Fraction;
+  /** Valor exacto como complejo racional, para sistemas con parte imaginaria */
+  toComplex?(a: T): ComplexFraction;
+  /** Valor exacto como polinomio, para entradas con parámetros */
+  toPolynomial?(a: T): Polynomial;
+}
+
+/**
+ * Anillo en el que se puede dividir cuando la división es exacta, como la del pivote anterior en Montante.
+ * Los polinomios en un parámetro lo cumplen aunque no sean un campo
+ */
+export interface ExactDivisionRing<T> extends Ring<T> {
+  /** Cociente a / b; se usa solo cuando b divide a a */
+  div(a: T, b: T): T;
+  /** Indica si a tiene inverso multiplicativo (ver Field) */
+  isInvertible?(a: T): boolean;
+}
+
+/**
+ * Campo: anillo en el que todo elemento distinto de cero tiene inverso.
+ * Es lo que necesitan la eliminación gaussiana, el rango y la inversa.
+ */
+export interface Field<T> extends Ring<T> {
+  div(a: T, b: T): T;
+  /**
+   * Compara la magnitud de a y b para elegir pivotes: > 0 si a es mejor pivote que b,
+   * < 0 si es peor y 0 si son equivalentes
+   */
+  compare(a: T, b: T): number;
+  /**
+   * Indica si a tiene inverso multiplicativo. Solo hace falta en anillos como Z/nZ
+   * (n compuesto), donde hay elementos distintos de cero que no se pueden usar como pivote
+   */
+  isInvertible?(a: T): boolean;
+}
+
+/**
+ * Enteros módulo n (Z/nZ), que es un campo GF(p) cuando n es primo
+ */
+export interface ModularField extends Field<bigint> {
+  readonly modulus: bigint;
+  readonly isPrime: boolean;
+  /** Inverso modular de a, o null si mcd(a, n) ≠ 1 */
+  inverse(a: bigint): bigint | null;
+  /** Reduce una fracción p/q a p · q⁻¹ mod n (lanza un error si q no es invertible) */
+  fromFraction(value: Fraction): bigint;
+}
+
+export type FieldMatrix<T> = T[][];
+export type FieldVector<T> = T[];
+
+/**
+ * Solución general x = p + t₁v₁ + ... + tₖvₖ de un sistema compatible indeterminado
+ */
+export interface FieldGeneralSolution<T> {
+  /** Solución particular p (variables libres igual a 0) */
+  particular: T[];
+  /** Un vector dirección vᵢ por cada variable libre, en el orden de freeColumns */
+  directions: T[][];
+  pivotColumns: number[];
+  freeColumns: number[];
+}
+
+/**
+ * Resultado de resolver Ax = b sobre un campo cualquiera
+ */
+export interface FieldSolution<T> {
+  variables: T[];
+  determinant?: T;
+  isUnique: boolean;
+  hasInfiniteSolutions: boolean;
+  hasNoSolution: boolean;
+  /** Motivo por el que el método no pudo determinar la solución (p. ej. pivote no invertible) */
+  failureReason?: string;
+  /** Forma paramétrica cuando hay infinitas soluciones (la calculan los métodos por eliminación) */
+  generalSolution?: FieldGeneralSolution<T>;
+}
+
+/**
+ * Rango y bases de los cuatro subespacios fundamentales de una matriz A (m×n)
+ */
+export interface FieldSubspaceAnalysis<T> {
+  rank: number;
+  /** Columnas pivote de la forma escalonada reducida, empezando en 0 */
+  pivotColumns: number[];
+  /** Forma escalonada reducida de A */
+  rref: FieldMatrix<T>;
+  /** Base de N(A) ⊆ Tⁿ: soluciones de Ax = 0 */
+  nullSpace: T[][];
+  /** Base de C(A) ⊆ Tᵐ: columnas pivote de A */
+  columnSpace: T[][];
+  /** Base de F(A) ⊆ Tⁿ: filas no nulas de la forma escalonada reducida */
+  rowSpace: T[][];
+  /** Base de N(Aᵀ) ⊆ Tᵐ: soluciones de Aᵀy = 0 */
+  leftNullSpace: T[][];
+  /** Motivo por el que no se pudo reducir la matriz (p. ej. pivote no invertible) */
+  failureReason?: string;
+}
+
+/**
+ * Factorización PA = LU con pivoteo parcial
+ */
+export interface FieldLUFactorization<T> {
+  /** La fila i de PA es la fila permutation[i] de A */
+  permutation: number[];
+  /** Triangular inferior con unos en la diagonal; bajo ella, los multiplicadores de la eliminación */
+  lower: FieldMatrix<T>;
+  /** Triangular superior: la forma escalonada de PA */
+  upper: FieldMatrix<T>;
+}
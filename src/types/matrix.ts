@@ -1,4 +1,7 @@
 import type { Fraction, FractionMatrix } from '../utils/fraction';
+import type { ComplexFraction, ComplexMatrix } from '../utils/complexFraction';
+import type { PolynomialMatrix } from '../utils/polynomial';
+import type { Radical, RadicalMatrix } from '../utils/radical';
 
 export type Matrix = number[][];
 export type Vector = number[];
@@ -9,12 +12,94 @@ export interface CalculationStep {
   description: string;
   matrix: Matrix;
   fractionMatrix?: FractionMatrix;
+  complexMatrix?: ComplexMatrix;
+  symbolicMatrix?: PolynomialMatrix;
   operation?: string;
   rowIndex?: number;
   pivotElement?: number;
   pivotFraction?: Fraction;
+  pivotComplex?: ComplexFraction;
   excludedRow?: number;
   excludedCol?: number;
+  /** Matrices auxiliares que se construyen junto a la principal (P y L en la factorización LU) */
+  factors?: StepFactor[];
+  /** Pasos internos que se muestran plegados dentro de este (el LaPlace de cada det(Aᵢ) en Cramer) */
+  substeps?: CalculationStep[];
+  /** Elementos [fila, columna] resaltados sobre la matriz (una diagonal de Sarrus, los aᵢσ(ᵢ) de una permutación) */
+  highlightedCells?: [number, number][];
+  /** Matriz de LaPlace cuya fila o columna de desarrollo puede elegir el usuario */
+  expansion?: StepExpansion;
+}
+
+/**
+ * Fila o columna por la que se desarrolla un determinante por cofactores
+ */
+export interface ExpansionLine {
+  type: 'row' | 'column';
+  index: number;
+}
+
+/**
+ * Línea elegida para cada matriz de una expansión de LaPlace, indexada por la ruta de menores
+ * que lleva a ella: '' es A, '1,3' es M₁₃ y '1,3/2,1' es el menor M₂₁ de M₁₃
+ */
+export type ExpansionChoices = Record<string, ExpansionLine>;
+
+/**
+ * Nodo del árbol de recursión de LaPlace: A o un menor, con su determinante y, si se desarrolló,
+ * un hijo por cada término aᵢⱼ ≠ 0 de su línea. Los valores van ya formateados
+ */
+export interface LaplaceTreeNode extends Pick<CalculationStep, 'matrix' | 'fractionMatrix' | 'complexMatrix' | 'symbolicMatrix'> {
+  /** "A" en la raíz y "M13" en cada menor (índices respecto a su padre) */
+  name: string;
+  /** Ruta de menores, como en ExpansionChoices */
+  path: string;
+  determinant: string;
+  /** Posición [i, j] en el padre del elemento que multiplica a este menor */
+  position?: [number, number];
+  element?: string;
+  /** Cᵢⱼ = (-1)^(i+j)·det(Mᵢⱼ) y el término aᵢⱼ·Cᵢⱼ que aporta al padre */
+  cofactor?: string;
+  contribution?: string;
+  /** Línea por la que se desarrolló (desde 3×3) y cuántos de sus términos se omitieron por aᵢⱼ = 0 */
+  line?: ExpansionLine;
+  omittedTerms?: number;
+  children: LaplaceTreeNode[];
+}
+
+/**
+ * Término (-1)^(i+j)·aᵢⱼ·det(Mᵢⱼ) de la expansión de LaPlace de A, con valores exactos
+ */
+export interface LaplaceTerm<T = Fraction> {
+  row: number;
+  col: number;
+  sign: 1 | -1;
+  entry: T;
+  minor: T[][];
+  minorDeterminant: T;
+  /** Lo que el término aporta a det(A): sign·aᵢⱼ·det(Mᵢⱼ) */
+  product: T;
+}
+
+/**
+ * Línea usada en un paso de LaPlace junto a la óptima (la de más ceros)
+ */
+export interface StepExpansion {
+  path: string;
+  line: ExpansionLine;
+  optimal: ExpansionLine;
+}
+
+/**
+ * Matriz con nombre que acompaña a un paso, en decimal y en forma exacta
+ */
+export interface StepFactor {
+  name: string;
+  matrix: Matrix;
+  fractionMatrix?: FractionMatrix;
+  complexMatrix?: ComplexMatrix;
+  /** Entradas de la forma c·√s (Q y R en Gram–Schmidt) */
+  radicalMatrix?: RadicalMatrix;
 }
 
 export interface Solution {
@@ -22,9 +107,156 @@ export interface Solution {
   fractionVariables?: Fraction[];
   determinant?: number;
   fractionDeterminant?: Fraction;
+  complexVariables?: ComplexFraction[];
+  complexDeterminant?: ComplexFraction;
   isUnique: boolean;
   hasInfiniteSolutions: boolean;
   hasNoSolution: boolean;
+  /** Motivo por el que el método no pudo determinar la solución (p. ej. pivote no invertible) */
+  failureReason?: string;
+  /** Tabla de casos cuando el sistema depende de un parámetro */
+  parametricClassification?: ParametricClassification;
+  /** Forma paramétrica x = p + t₁v₁ + ... cuando hay infinitas soluciones */
+  generalSolution?: GeneralSolution;
+}
+
+/**
+ * Solución general x = p + t₁v₁ + ... + tₖvₖ, con p y cada vᵢ en decimal y en forma exacta
+ */
+export interface GeneralSolution {
+  particular: number[];
+  directions: number[][];
+  fractionParticular?: Fraction[];
+  fractionDirections?: Fraction[][];
+  complexParticular?: ComplexFraction[];
+  complexDirections?: ComplexFraction[][];
+  /** Columnas (variables) con pivote en la forma escalonada reducida, empezando en 0 */
+  pivotColumns: number[];
+  /** Variables libres, en el mismo orden que directions */
+  freeColumns: number[];
+}
+
+export type ParametricCaseKind = 'unique' | 'infinite' | 'none' | 'undetermined' | 'never';
+
+/**
+ * Tipo de solución del sistema para un valor (o para el resto de valores) del parámetro
+ */
+export interface ParametricCase {
+  /** Condición sobre el parámetro: "k = 1", "k ≠ 1, -2" */
+  condition: string;
+  kind: ParametricCaseKind;
+  rank?: number;
+  augmentedRank?: number;
+  /** Solución única, como texto de cada variable (puede depender del parámetro) */
+  solution?: string[];
+  description: string;
+}
+
+export interface ParametricClassification {
+  parameter: string;
+  cases: ParametricCase[];
+}
+
+/**
+ * Vectores de una base, en decimal y en forma exacta
+ */
+export interface VectorBasis {
+  vectors: number[][];
+  fractionVectors?: Fraction[][];
+  complexVectors?: ComplexFraction[][];
+}
+
+/**
+ * Rango y bases de los cuatro subespacios fundamentales de A (m×n)
+ */
+export interface SubspaceAnalysis {
+  rows: number;
+  cols: number;
+  rank: number;
+  /** Columnas pivote de la forma escalonada reducida, empezando en 0 */
+  pivotColumns: number[];
+  nullSpace: VectorBasis;
+  columnSpace: VectorBasis;
+  rowSpace: VectorBasis;
+  leftNullSpace: VectorBasis;
+  /** Motivo por el que no se pudo reducir la matriz (p. ej. pivote no invertible) */
+  failureReason?: string;
+  /** Módulo n cuando el cálculo se hizo en Z/nZ */
+  modulus?: number;
+}
+
+/**
+ * Factorización A = QR por Gram–Schmidt: u₁, ..., uₙ ortogonales y exactos, y Q y R con raíces exactas
+ */
+export interface QRResult {
+  /** Columnas u₁, ..., uₙ ortogonales (antes de normalizar) */
+  orthogonalMatrix: FractionMatrix;
+  /** ‖uₖ‖ de cada columna */
+  norms: Radical[];
+  /** Columnas ortonormales qₖ = uₖ / ‖uₖ‖ (m×n) */
+  q: RadicalMatrix;
+  /** Triangular superior con rᵢᵢ = ‖uᵢ‖ y rᵢⱼ = ⟨qᵢ, aⱼ⟩ (n×n) */
+  r: RadicalMatrix;
+  /** Motivo por el que no se pudo factorizar (columnas dependientes) */
+  failureReason?: string;
+}
+
+/**
+ * Factorizaciones de una matriz simétrica: A = LDLᵀ con fracciones exactas y,
+ * si A es definida positiva, Cholesky A = GGᵀ con G = L·√D
+ */
+export interface CholeskyResult {
+  /** Triangular inferior con unos en la diagonal */
+  lower: FractionMatrix;
+  /** Pivotes d₁, ..., dₙ (diagonal de D) */
+  diagonal: Fraction[];
+  /** Menores principales Δₖ = d₁···dₖ de los pivotes calculados */
+  leadingMinors: Fraction[];
+  /** Factor de Cholesky G (triangular inferior, gₖₖ = √dₖ); null si A no es definida positiva */
+  cholesky: RadicalMatrix | null;
+  /** Motivo por el que no existe A = LDLᵀ sin intercambiar filas */
+  failureReason?: string;
+  /** Motivo por el que A no es definida positiva (pivote que falla) */
+  notPositiveDefiniteReason?: string;
+}
+
+/** Nombres de las matrices guardadas en el espacio de trabajo */
+export type WorkspaceMatrixName = 'A' | 'B' | 'C';
+
+export type WorkspaceOperation = 'sum' | 'product' | 'scalar' | 'transpose' | 'power' | 'expression';
+
+/**
+ * Resultado de una operación del espacio de trabajo (A + B, AB, kA, Aᵀ, Aⁿ o una expresión)
+ */
+export interface WorkspaceResult {
+  /** Expresión calculada, p. ej. "A·B" o "C³" */
+  expression: string;
+  /** Matriz resultante; null si la operación no está definida o el resultado es un escalar */
+  matrix: FractionMatrix | null;
+  /** Resultado escalar de una expresión como det(A·B) - 2·det(Cᵀ) */
+  scalar?: Fraction;
+  /** Árbol de subexpresiones con los pasos de cada una */
+  tree?: ExpressionNode;
+  /** Motivo por el que no se pudo operar (dimensiones incompatibles, matriz singular, ...) */
+  failureReason?: string;
+}
+
+/**
+ * Subexpresión evaluada: su valor exacto, los pasos propios de la operación y las subexpresiones
+ * de las que depende
+ */
+export interface ExpressionNode {
+  /** Subexpresión con la notación de la app, p. ej. "det(A·B)" o "A⁻¹" */
+  expression: string;
+  scalar?: Fraction;
+  matrix?: FractionMatrix;
+  /** Cómo se obtiene el valor cuando no hay pasos con matrices (aritmética de escalares) */
+  description?: string;
+  /** Pasos de esta operación, sin los de las subexpresiones */
+  steps: CalculationStep[];
+  children: ExpressionNode[];
+  /** Motivo por el que esta subexpresión (o una de las suyas) no está definida */
+  failureReason?: string;
 }
 
 export interface InverseResult {
@@ -35,9 +267,16 @@ export interface InverseResult {
   isInvertible: boolean;
   adjugateMatrix: Matrix;
   fractionAdjugateMatrix?: FractionMatrix;
+  complexInverseMatrix?: ComplexMatrix;
+  complexDeterminant?: ComplexFraction;
+  complexAdjugateMatrix?: ComplexMatrix;
+  /** Módulo n cuando el cálculo se hizo en Z/nZ */
+  modulus?: number;
+  /** Método con el que se obtuvo: adjunta (por defecto), Gauss-Jordan o Montante sobre [A | I] */
+  method?: 'laplace' | 'gauss-jordan' | 'bareiss';
 }
 
-export type CalculationMethod = 'laplace' | 'gauss-jordan';
+export type CalculationMethod = 'laplace' | 'gauss-jordan' | 'gaussian' | 'bareiss' | 'sarrus' | 'leibniz' | 'chio' | 'lu';
 
 export interface CalculatorState {
   size: number;
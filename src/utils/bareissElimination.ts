@@ -0,0 +1,84 @@
+import type { Matrix, Vector, CalculationStep, Solution } from '../types/matrix';
+import { Fraction, FractionMatrixUtils } from './fraction';
+import type { FractionMatrix, FractionVector } from './fraction';
+import { FieldBareiss } from './fieldBareiss';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { ComplexField, PolynomialRing, RationalField } from './fields';
+import type { ComplexFraction, ComplexMatrix, ComplexVector } from './complexFraction';
+import type { Polynomial, PolynomialMatrix } from './polynomial';
+import type { FieldMatrix, FieldVector, ModularField } from '../types/field';
+
+export class BareissElimination {
+
+  /**
+   * Resuelve un sistema por el método de Montante (Bareiss): con coeficientes enteros
+   * todos los elementos intermedios son enteros
+   */
+  static solve(matrix: Matrix | FractionMatrix, constants: Vector | FractionVector): { steps: CalculationStep[]; solution: Solution } {
+    const { steps, solution } = FieldBareiss.solve(
+      RationalField,
+      FractionMatrixUtils.toFractionMatrix(matrix),
+      FractionMatrixUtils.toFractionVector(constants)
+    );
+    return { steps, solution: FieldMatrixUtils.toSolution(RationalField, solution) };
+  }
+
+  /**
+   * Resuelve un sistema con coeficientes complejos (a + bi) por Montante
+   */
+  static solveComplex(matrix: ComplexMatrix, constants: ComplexVector): { steps: CalculationStep[]; solution: Solution } {
+    const { steps, solution } = FieldBareiss.solve(ComplexField, matrix, constants);
+    return { steps, solution: FieldMatrixUtils.toSolution(ComplexField, solution) };
+  }
+
+  /**
+   * Resuelve un sistema en Z/nZ por Montante. Cada pivote debe ser invertible módulo n,
+   * porque divide en la iteración siguiente
+   */
+  static solveModular(matrix: FieldMatrix<bigint>, constants: FieldVector<bigint>, field: ModularField): { steps: CalculationStep[]; solution: Solution } {
+    const { steps, solution } = FieldBareiss.solve(field, matrix, constants);
+    return { steps, solution: FieldMatrixUtils.toSolution(field, solution) };
+  }
+
+  /**
+   * Calcula el determinante como último pivote del método de Montante
+   */
+  static calculateDeterminant(matrix: Matrix | FractionMatrix): {
+    steps: CalculationStep[];
+    determinant: Fraction;
+  } {
+    return FieldBareiss.determinant(RationalField, FractionMatrixUtils.toFractionMatrix(matrix));
+  }
+
+  /**
+   * Calcula el determinante de una matriz compleja (a + bi) por Montante
+   */
+  static calculateComplexDeterminant(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    determinant: ComplexFraction;
+  } {
+    return FieldBareiss.determinant(ComplexField, matrix);
+  }
+
+  /**
+   * Calcula el determinante de una matriz con un parámetro (k, a, λ, ...) por Montante: la división
+   * entre el pivote anterior es exacta, así que todos los elementos siguen siendo polinomios
+   */
+  static calculateSymbolicDeterminant(matrix: PolynomialMatrix): {
+    steps: CalculationStep[];
+    determinant: Polynomial;
+  } {
+    return FieldBareiss.determinant(PolynomialRing, matrix);
+  }
+
+  /**
+   * Calcula el determinante en Z/nZ por Montante (con la identidad de Sylvester y cofactores
+   * si un pivote no es invertible)
+   */
+  static calculateModularDeterminant(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    determinant: bigint;
+  } {
+    return FieldBareiss.determinant(field, matrix);
+  }
+}
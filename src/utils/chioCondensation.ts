@@ -0,0 +1,40 @@
+import type { Matrix, CalculationStep } from '../types/matrix';
+import { Fraction, FractionMatrixUtils } from './fraction';
+import type { FractionMatrix } from './fraction';
+import { FieldChio } from './fieldChio';
+import { ComplexField, RationalField } from './fields';
+import type { ComplexFraction, ComplexMatrix } from './complexFraction';
+import type { FieldMatrix, ModularField } from '../types/field';
+
+export class ChioCondensation {
+
+  /**
+   * Calcula el determinante por condensación de Chiò con fracciones exactas
+   */
+  static calculateDeterminant(matrix: Matrix | FractionMatrix): {
+    steps: CalculationStep[];
+    determinant: Fraction;
+  } {
+    return FieldChio.determinant(RationalField, FractionMatrixUtils.toFractionMatrix(matrix));
+  }
+
+  /**
+   * Condensación de Chiò con entradas complejas (a + bi)
+   */
+  static calculateComplexDeterminant(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    determinant: ComplexFraction;
+  } {
+    return FieldChio.determinant(ComplexField, matrix);
+  }
+
+  /**
+   * Condensación de Chiò en Z/nZ (con cofactores si ningún pivote es invertible)
+   */
+  static calculateModularDeterminant(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    determinant: bigint;
+  } {
+    return FieldChio.determinant(field, matrix);
+  }
+}
@@ -0,0 +1,223 @@
+import type { CalculationStep, CholeskyResult, StepFactor } from '../types/matrix';
+import { Fraction } from './fraction';
+import type { FractionMatrix } from './fraction';
+import { Radical } from './radical';
+import type { RadicalMatrix } from './radical';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { RationalField } from './fields';
+import { toSubscript } from './subscript';
+
+/**
+ * Factorizaciones de matrices simétricas: A = LDLᵀ con fracciones exactas y Cholesky
+ * A = GGᵀ, que solo existe si A es definida positiva (todos los pivotes dₖ > 0)
+ */
+export class CholeskyDecomposition {
+
+  /**
+   * Devuelve por qué A no es simétrica (o no es cuadrada), o undefined si lo es
+   */
+  static symmetryError(matrix: FractionMatrix): string | undefined {
+    const n = matrix.length;
+    if (matrix.some(row => row.length !== n)) {
+      return 'LDLᵀ y Cholesky solo están definidas para matrices cuadradas';
+    }
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (!matrix[i][j].equals(matrix[j][i])) {
+          return `A no es simétrica: a${toSubscript(i + 1)}${toSubscript(j + 1)} = ${matrix[i][j]} pero a${toSubscript(j + 1)}${toSubscript(i + 1)} = ${matrix[j][i]}. LDLᵀ y Cholesky requieren A = Aᵀ`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Elimina como Gauss sin intercambiar filas: los multiplicadores forman L y los pivotes D.
+   * Por la simetría, la triangular superior resultante es U = DLᵀ, así que A = LDLᵀ.
+   * Si además todos los pivotes son positivos, G = L·√D da la factorización de Cholesky
+   */
+  static decompose(matrix: FractionMatrix): { steps: CalculationStep[]; result: CholeskyResult } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const n = matrix.length;
+    const work = FieldMatrixUtils.cloneMatrix(matrix);
+    const lower = FieldMatrixUtils.createIdentityMatrix(RationalField, n);
+    const diagonal: Fraction[] = [];
+    const leadingMinors: Fraction[] = [];
+    const factors = () => [
+      FieldMatrixUtils.toStepFactor(RationalField, 'L', lower),
+      FieldMatrixUtils.toStepFactor(RationalField, 'D', this.diagonalMatrix(diagonal, n))
+    ];
+
+    const symmetryError = this.symmetryError(matrix);
+    if (symmetryError) {
+      steps.push({
+        id: stepId++,
+        title: 'Matriz No Simétrica',
+        description: symmetryError,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, matrix),
+        operation: 'A ≠ Aᵀ'
+      });
+      return {
+        steps,
+        result: { lower: [], diagonal: [], leadingMinors: [], cholesky: null, failureReason: symmetryError }
+      };
+    }
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Simétrica',
+      description: 'A = Aᵀ. Eliminamos por columnas como en Gauss, pero sin intercambiar filas (rompería la simetría): cada multiplicador lᵢₖ se guarda en L y cada pivote dₖ en D. Al ser A simétrica, la triangular superior que queda es U = DLᵀ',
+      ...FieldMatrixUtils.toStepMatrix(RationalField, work),
+      operation: 'A = LDLᵀ ?',
+      factors: factors()
+    });
+
+    for (let k = 0; k < n; k++) {
+      const pivot = work[k][k];
+      diagonal.push(pivot);
+      leadingMinors.push(k === 0 ? pivot : leadingMinors[k - 1].multiply(pivot));
+      const d = `d${toSubscript(k + 1)}`;
+
+      if (pivot.isZero()) {
+        const blockedRow = work.findIndex((row, i) => i > k && !row[k].isZero());
+        if (blockedRow !== -1) {
+          const failureReason = `${d} = 0 pero a${toSubscript(blockedRow + 1)}${toSubscript(k + 1)} = ${work[blockedRow][k]} ≠ 0: para seguir habría que intercambiar filas, lo que rompe la simetría, así que A no admite la factorización LDLᵀ. Además Δ${toSubscript(k + 1)} = 0, luego A no es definida positiva y tampoco existe Cholesky`;
+          steps.push({
+            id: stepId++,
+            title: 'Pivote Nulo',
+            description: failureReason,
+            ...FieldMatrixUtils.toStepMatrix(RationalField, work),
+            operation: `${d} = 0`,
+            rowIndex: k,
+            ...FieldMatrixUtils.toStepPivot(RationalField, pivot),
+            factors: factors()
+          });
+          return {
+            steps,
+            result: { lower, diagonal, leadingMinors, cholesky: null, failureReason, notPositiveDefiniteReason: failureReason }
+          };
+        }
+
+        if (k < n - 1) {
+          steps.push({
+            id: stepId++,
+            title: `Pivote Nulo en la Columna ${k + 1}`,
+            description: `${d} = 0, pero la columna ${k + 1} ya es cero por debajo de la diagonal: no hay nada que eliminar y los multiplicadores de esta columna son 0`,
+            ...FieldMatrixUtils.toStepMatrix(RationalField, work),
+            operation: `${d} = 0`,
+            rowIndex: k,
+            ...FieldMatrixUtils.toStepPivot(RationalField, pivot),
+            factors: factors()
+          });
+        }
+        continue;
+      }
+
+      const multipliers: string[] = [];
+      for (let i = k + 1; i < n; i++) {
+        if (work[i][k].isZero()) {
+          continue;
+        }
+        const multiplier = work[i][k].divide(pivot);
+        lower[i][k] = multiplier;
+        work[i] = work[i].map((value, j) => value.subtract(multiplier.multiply(work[k][j])));
+        multipliers.push(`l${toSubscript(i + 1)}${toSubscript(k + 1)} = ${multiplier}`);
+      }
+
+      if (k < n - 1) {
+        steps.push({
+          id: stepId++,
+          title: `Eliminación Columna ${k + 1}`,
+          description: multipliers.length > 0
+            ? `Pivote ${d} = ${pivot}. Eliminamos los elementos debajo de él con Rᵢ = Rᵢ - lᵢ${toSubscript(k + 1)}·R${k + 1}, donde lᵢ${toSubscript(k + 1)} = aᵢ${toSubscript(k + 1)} / ${d}: ${multipliers.join(', ')}`
+            : `Pivote ${d} = ${pivot}. La columna ${k + 1} ya es cero por debajo de la diagonal: los multiplicadores son 0`,
+          ...FieldMatrixUtils.toStepMatrix(RationalField, work),
+          operation: `${d} = ${pivot}`,
+          rowIndex: k,
+          ...FieldMatrixUtils.toStepPivot(RationalField, pivot),
+          factors: factors()
+        });
+      }
+    }
+
+    const transposeLower = FieldMatrixUtils.transpose(lower);
+    const product = FieldMatrixUtils.multiply(
+      RationalField,
+      FieldMatrixUtils.multiply(RationalField, lower, this.diagonalMatrix(diagonal, n)),
+      transposeLower
+    );
+    const verified = product.every((row, i) => row.every((value, j) => value.equals(matrix[i][j])));
+
+    steps.push({
+      id: stepId++,
+      title: 'Factorización A = LDLᵀ',
+      description: `L es triangular inferior con unos en la diagonal y D = diag(${diagonal.join(', ')}) recoge los pivotes. La matriz reducida es DLᵀ.${verified ? ' Multiplicando se comprueba que LDLᵀ = A.' : ''}`,
+      ...FieldMatrixUtils.toStepMatrix(RationalField, matrix),
+      operation: 'A = LDLᵀ',
+      factors: [...factors(), FieldMatrixUtils.toStepFactor(RationalField, 'Lᵀ', transposeLower)]
+    });
+
+    // Criterio de Sylvester: A es definida positiva si y solo si todos los menores principales
+    // Δₖ = d₁···dₖ son positivos, es decir, si todos los pivotes son positivos
+    const failing = diagonal.findIndex(value => value.bigNumerator <= 0n);
+    if (failing !== -1) {
+      const d = `d${toSubscript(failing + 1)}`;
+      const delta = `Δ${toSubscript(failing + 1)}`;
+      const pivot = diagonal[failing];
+      const notPositiveDefiniteReason = `${d} = ${pivot}${pivot.isZero() ? '' : ' < 0'}: el menor principal ${delta} = ${failing === 0 ? d : `d₁···${d}`} = ${leadingMinors[failing]} ${pivot.isZero() ? '= 0' : '< 0'} (determinante de las primeras ${failing + 1} filas y columnas), así que A no es definida positiva y no existe la factorización de Cholesky: √${d} ${pivot.isZero() ? 'sería 0 y G no sería invertible' : 'no es un número real'}`;
+      steps.push({
+        id: stepId++,
+        title: 'A No Es Definida Positiva',
+        description: `${notPositiveDefiniteReason}. A = LDLᵀ sigue siendo válida`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, work),
+        operation: `${d} ${pivot.isZero() ? '= 0' : '< 0'}`,
+        rowIndex: failing,
+        ...FieldMatrixUtils.toStepPivot(RationalField, pivot),
+        factors: factors()
+      });
+      return { steps, result: { lower, diagonal, leadingMinors, cholesky: null, notPositiveDefiniteReason } };
+    }
+
+    const roots = diagonal.map(value => Radical.sqrt(value));
+    // gᵢₖ = lᵢₖ·√dₖ: cada columna de G comparte el radicando de su pivote
+    const cholesky: RadicalMatrix = lower.map(row => row.map((value, k) => roots[k].scale(value)));
+
+    steps.push({
+      id: stepId++,
+      title: 'A Es Definida Positiva',
+      description: `Todos los pivotes son positivos, así que los menores principales Δₖ = d₁···dₖ (${leadingMinors.join(', ')}) también lo son y, por el criterio de Sylvester, A es definida positiva. Sus raíces son exactas: ${roots.map((root, k) => `√d${toSubscript(k + 1)} = ${root}`).join(', ')}`,
+      ...FieldMatrixUtils.toStepMatrix(RationalField, work),
+      operation: 'dₖ > 0 para todo k',
+      factors: factors()
+    });
+
+    steps.push({
+      id: stepId++,
+      title: 'Factorización de Cholesky A = GGᵀ',
+      description: 'Como D = √D·√D, A = LDLᵀ = (L√D)(L√D)ᵀ. G = L√D es triangular inferior con gₖₖ = √dₖ > 0 y gᵢₖ = lᵢₖ·√dₖ',
+      ...FieldMatrixUtils.toStepMatrix(RationalField, matrix),
+      operation: 'A = GGᵀ',
+      factors: [this.toStepFactor('G', cholesky), this.toStepFactor('Gᵀ', FieldMatrixUtils.transpose(cholesky))]
+    });
+
+    return { steps, result: { lower, diagonal, leadingMinors, cholesky } };
+  }
+
+  /**
+   * diag(d₁, ..., dₖ) completada con ceros hasta n×n
+   */
+  private static diagonalMatrix(diagonal: Fraction[], n: number): FractionMatrix {
+    return Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) => (i === j && i < diagonal.length ? diagonal[i] : new Fraction(0, 1)))
+    );
+  }
+
+  private static toStepFactor(name: string, matrix: RadicalMatrix): StepFactor {
+    return {
+      name,
+      matrix: matrix.map(row => row.map(value => value.toDecimal())),
+      radicalMatrix: matrix
+    };
+  }
+}
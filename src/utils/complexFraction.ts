@@ -0,0 +1,143 @@
+import { Fraction } from './fraction';
+
+/**
+ * Número complejo racional (racional gaussiano) a + bi, con a y b fracciones exactas
+ */
+export class ComplexFraction {
+  readonly re: Fraction;
+  readonly im: Fraction;
+
+  constructor(re: Fraction | number = 0, im: Fraction | number = 0) {
+    this.re = re instanceof Fraction ? re : new Fraction(re, 1);
+    this.im = im instanceof Fraction ? im : new Fraction(im, 1);
+  }
+
+  /**
+   * Unidad imaginaria i
+   */
+  static readonly I = new ComplexFraction(0, 1);
+
+  /**
+   * Convierte una fracción real en complejo (parte imaginaria cero)
+   */
+  static fromFraction(value: Fraction): ComplexFraction {
+    return new ComplexFraction(value, 0);
+  }
+
+  /**
+   * Suma de complejos
+   */
+  add(other: ComplexFraction): ComplexFraction {
+    return new ComplexFraction(this.re.add(other.re), this.im.add(other.im));
+  }
+
+  /**
+   * Resta de complejos
+   */
+  subtract(other: ComplexFraction): ComplexFraction {
+    return new ComplexFraction(this.re.subtract(other.re), this.im.subtract(other.im));
+  }
+
+  /**
+   * Multiplicación: (a + bi)(c + di) = (ac - bd) + (ad + bc)i
+   */
+  multiply(other: ComplexFraction): ComplexFraction {
+    return new ComplexFraction(
+      this.re.multiply(other.re).subtract(this.im.multiply(other.im)),
+      this.re.multiply(other.im).add(this.im.multiply(other.re))
+    );
+  }
+
+  /**
+   * División: multiplica por el conjugado del divisor y divide por su norma
+   */
+  divide(other: ComplexFraction): ComplexFraction {
+    if (other.isZero()) {
+      throw new Error("No se puede dividir por cero");
+    }
+    const norm = other.normSquared();
+    const numerator = this.multiply(other.conjugate());
+    return new ComplexFraction(numerator.re.divide(norm), numerator.im.divide(norm));
+  }
+
+  /**
+   * Negación
+   */
+  negate(): ComplexFraction {
+    return new ComplexFraction(this.re.negate(), this.im.negate());
+  }
+
+  /**
+   * Conjugado: a - bi
+   */
+  conjugate(): ComplexFraction {
+    return new ComplexFraction(this.re, this.im.negate());
+  }
+
+  /**
+   * Norma al cuadrado |z|² = a² + b² (siempre racional)
+   */
+  normSquared(): Fraction {
+    return this.re.multiply(this.re).add(this.im.multiply(this.im));
+  }
+
+  /**
+   * Verifica si es cero
+   */
+  isZero(): boolean {
+    return this.re.isZero() && this.im.isZero();
+  }
+
+  /**
+   * Verifica si la parte imaginaria es cero
+   */
+  isReal(): boolean {
+    return this.im.isZero();
+  }
+
+  /**
+   * Verifica igualdad exacta
+   */
+  equals(other: ComplexFraction): boolean {
+    return this.re.equals(other.re) && this.im.equals(other.im);
+  }
+
+  /**
+   * Representación como string: "a + bi", "bi" o "a"
+   */
+  toString(): string {
+    if (this.isReal()) {
+      return this.re.toString();
+    }
+
+    const imaginary = this.imaginaryText(this.im.abs());
+    if (this.re.isZero()) {
+      return this.im.bigNumerator < 0n ? `-${imaginary}` : imaginary;
+    }
+    return `${this.re.toString()} ${this.im.bigNumerator < 0n ? '-' : '+'} ${imaginary}`;
+  }
+
+  /**
+   * Texto de la parte imaginaria sin signo: "i", "3i", "2/3i"
+   */
+  private imaginaryText(magnitude: Fraction): string {
+    return magnitude.equals(new Fraction(1, 1)) ? 'i' : `${magnitude.toString()}i`;
+  }
+
+  /**
+   * Aproximación decimal de la parte real (para vistas que solo admiten números)
+   */
+  toDecimal(): number {
+    return this.re.toDecimal();
+  }
+
+  /**
+   * Clona el complejo
+   */
+  clone(): ComplexFraction {
+    return new ComplexFraction(this.re.clone(), this.im.clone());
+  }
+}
+
+export type ComplexMatrix = ComplexFraction[][];
+export type ComplexVector = ComplexFraction[];
@@ -0,0 +1,91 @@
+import type { Matrix, CalculationStep } from '../types/matrix';
+import { Fraction, FractionMatrixUtils } from './fraction';
+import type { FractionMatrix } from './fraction';
+import { FieldDeterminantFormulas } from './fieldDeterminantFormulas';
+import { ComplexField, PolynomialRing, RationalField } from './fields';
+import type { ComplexFraction, ComplexMatrix } from './complexFraction';
+import type { Polynomial, PolynomialMatrix } from './polynomial';
+import type { FieldMatrix, ModularField } from '../types/field';
+
+export class DeterminantFormulas {
+
+  /**
+   * Calcula un determinante 3×3 por la regla de Sarrus con fracciones exactas
+   */
+  static calculateSarrus(matrix: Matrix | FractionMatrix): {
+    steps: CalculationStep[];
+    determinant: Fraction;
+  } {
+    return FieldDeterminantFormulas.sarrus(RationalField, FractionMatrixUtils.toFractionMatrix(matrix));
+  }
+
+  /**
+   * Regla de Sarrus con entradas complejas (a + bi)
+   */
+  static calculateComplexSarrus(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    determinant: ComplexFraction;
+  } {
+    return FieldDeterminantFormulas.sarrus(ComplexField, matrix);
+  }
+
+  /**
+   * Regla de Sarrus en Z/nZ (solo suma y multiplica, así que no necesita inversos)
+   */
+  static calculateModularSarrus(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    determinant: bigint;
+  } {
+    return FieldDeterminantFormulas.sarrus(field, matrix);
+  }
+
+  /**
+   * Regla de Sarrus con parámetros: el determinante es un polinomio en ellos
+   */
+  static calculateSymbolicSarrus(matrix: PolynomialMatrix): {
+    steps: CalculationStep[];
+    determinant: Polynomial;
+  } {
+    return FieldDeterminantFormulas.sarrus(PolynomialRing, matrix);
+  }
+
+  /**
+   * Calcula el determinante (hasta 4×4) por la fórmula de Leibniz con fracciones exactas
+   */
+  static calculateLeibniz(matrix: Matrix | FractionMatrix): {
+    steps: CalculationStep[];
+    determinant: Fraction;
+  } {
+    return FieldDeterminantFormulas.leibniz(RationalField, FractionMatrixUtils.toFractionMatrix(matrix));
+  }
+
+  /**
+   * Fórmula de Leibniz con entradas complejas (a + bi)
+   */
+  static calculateComplexLeibniz(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    determinant: ComplexFraction;
+  } {
+    return FieldDeterminantFormulas.leibniz(ComplexField, matrix);
+  }
+
+  /**
+   * Fórmula de Leibniz en Z/nZ
+   */
+  static calculateModularLeibniz(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    determinant: bigint;
+  } {
+    return FieldDeterminantFormulas.leibniz(field, matrix);
+  }
+
+  /**
+   * Fórmula de Leibniz con parámetros: el determinante es un polinomio en ellos
+   */
+  static calculateSymbolicLeibniz(matrix: PolynomialMatrix): {
+    steps: CalculationStep[];
+    determinant: Polynomial;
+  } {
+    return FieldDeterminantFormulas.leibniz(PolynomialRing, matrix);
+  }
+}
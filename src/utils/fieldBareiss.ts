@@ -0,0 +1,343 @@
+import type { CalculationStep } from '../types/matrix';
+import type { ExactDivisionRing, Field, FieldMatrix, FieldSolution, FieldVector } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { FieldLaplace } from './fieldLaplace';
+import { FieldElimination } from './fieldElimination';
+
+/**
+ * Resultado de reducir una matriz por Montante (Bareiss)
+ */
+export interface BareissReduction<T> {
+  steps: CalculationStep[];
+  /** Matriz reducida: cada fila pivote tiene el último pivote en su columna y ceros en las demás columnas pivote */
+  matrix: FieldMatrix<T>;
+  /** Columnas con pivote, en el orden de las filas, empezando en 0 */
+  pivotColumns: number[];
+  /** Último pivote usado (1 si no hubo ninguno) */
+  pivot: T;
+  swapCount: number;
+  /** Columna sin pivote en la que se detuvo la reducción (solo con stopAtMissingPivot) */
+  missingPivotColumn?: number;
+  /** Pivote distinto de cero pero sin inverso (Z/nZ) en el que se detuvo la reducción */
+  nonInvertiblePivot?: { row: number; col: number };
+}
+
+/**
+ * Método de Montante (Bareiss), sin fracciones: cada elemento se sustituye por un determinante 2×2
+ * con el pivote dividido entre el pivote anterior. La división siempre es exacta, así que con datos
+ * enteros todos los elementos siguen siendo enteros y el último pivote es el determinante
+ */
+export class FieldBareiss {
+
+  /**
+   * Aplica Montante a las columnas 0..pivotLimit-1 (el resto, como b o I, solo se transforma).
+   * Cada pivote lleva un paso con la matriz resultante y, en sus subpasos, el cálculo de cada fila
+   * con el pivote anterior resaltado. Las columnas sin pivote se saltan, salvo con stopAtMissingPivot
+   */
+  static reduce<T>(
+    field: ExactDivisionRing<T>,
+    matrix: FieldMatrix<T>,
+    pivotLimit: number,
+    stopAtMissingPivot: boolean,
+    firstStepId = 1
+  ): BareissReduction<T> {
+    const steps: CalculationStep[] = [];
+    let stepId = firstStepId;
+    const work = FieldMatrixUtils.cloneMatrix(matrix);
+    const rows = work.length;
+    const cols = rows > 0 ? work[0].length : 0;
+    const format = (value: T) => field.format(value);
+    // Los factores negativos o con varios términos (a + bi) van entre paréntesis
+    const factor = (value: T) => (/^-|\s/.test(format(value)) ? `(${format(value)})` : format(value));
+    const pivotColumns: number[] = [];
+    let previousPivot = field.one();
+    let previousRow = -1;
+    let swapCount = 0;
+
+    for (let col = 0, r = 0; col < pivotLimit && r < rows; col++) {
+      // Montante toma el elemento de la diagonal y solo intercambia si no sirve como pivote
+      const candidates = Array.from({ length: rows - r }, (_, k) => r + k).filter(i => !field.isZero(work[i][col]));
+      const pivotRow = candidates.find(i => this.isInvertible(field, work[i][col])) ?? candidates[0];
+
+      if (pivotRow === undefined) {
+        if (stopAtMissingPivot) {
+          return { steps, matrix: work, pivotColumns, pivot: previousPivot, swapCount, missingPivotColumn: col };
+        }
+        steps.push({
+          id: stepId++,
+          title: `Columna ${col + 1} sin Pivote`,
+          description: `Todos los elementos de la columna ${col + 1} desde la fila ${r + 1} son cero, así que no hay pivote en esta columna y se pasa a la siguiente con el mismo pivote anterior (${format(previousPivot)})`,
+          ...FieldMatrixUtils.toStepMatrix(field, work),
+          operation: `Columna ${col + 1} sin pivote`
+        });
+        continue;
+      }
+
+      if (pivotRow !== r) {
+        [work[r], work[pivotRow]] = [work[pivotRow], work[r]];
+        swapCount++;
+
+        steps.push({
+          id: stepId++,
+          title: 'Intercambio de Filas',
+          description: `El elemento (${r + 1}, ${col + 1}) no sirve como pivote, así que intercambiamos R${r + 1} ↔ R${pivotRow + 1} (esto cambia el signo del determinante)`,
+          ...FieldMatrixUtils.toStepMatrix(field, work),
+          operation: `R${r + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: r,
+          ...FieldMatrixUtils.toStepPivot(field, work[r][col])
+        });
+      }
+
+      const pivot = work[r][col];
+
+      // En Z/nZ el pivote tendrá que dividir en la siguiente iteración
+      if (!this.isInvertible(field, pivot)) {
+        return {
+          steps,
+          matrix: work,
+          pivotColumns,
+          pivot: previousPivot,
+          swapCount,
+          nonInvertiblePivot: { row: r, col }
+        };
+      }
+
+      // aᵢⱼ ← (p·aᵢⱼ − aᵢc·aᵣⱼ) / pivote anterior, leyendo siempre de la matriz anterior
+      const source = FieldMatrixUtils.cloneMatrix(work);
+      const substeps: CalculationStep[] = [];
+
+      for (let i = 0; i < rows; i++) {
+        if (i === r) continue;
+
+        const entries: string[] = [];
+        for (let j = 0; j < cols; j++) {
+          if (j === col) continue;
+          const crossProduct = field.sub(field.mul(pivot, source[i][j]), field.mul(source[i][col], source[r][j]));
+          work[i][j] = field.div(crossProduct, previousPivot);
+          entries.push(
+            `(${i + 1}, ${j + 1}): (${factor(pivot)}·${factor(source[i][j])} − ${factor(source[i][col])}·${factor(source[r][j])}) / ${factor(previousPivot)} = ${format(work[i][j])}`
+          );
+        }
+        work[i][col] = field.zero();
+
+        substeps.push({
+          id: substeps.length + 1,
+          title: `Fila ${i + 1}`,
+          description: `Cada elemento es el determinante 2×2 con el pivote y la fila ${r + 1}, dividido entre el pivote anterior ${format(previousPivot)}; el elemento (${i + 1}, ${col + 1}) queda en 0:\n${entries.join('\n')}`,
+          ...FieldMatrixUtils.toStepMatrix(field, work),
+          operation: `R${i + 1} ← (${factor(pivot)}·R${i + 1} − ${factor(source[i][col])}·R${r + 1}) / ${factor(previousPivot)}`,
+          ...(previousRow !== -1
+            ? { rowIndex: previousRow, ...FieldMatrixUtils.toStepPivot(field, previousPivot) }
+            : {})
+        });
+      }
+
+      steps.push({
+        id: stepId++,
+        title: `Pivote ${format(pivot)} en (${r + 1}, ${col + 1})`,
+        description: `Con el pivote p = ${format(pivot)} y el pivote anterior ${format(previousPivot)}, cada elemento fuera de la fila ${r + 1} se sustituye por aᵢⱼ ← (p·aᵢⱼ − aᵢ,${col + 1}·a${r + 1},ⱼ) / ${factor(previousPivot)}. La fila del pivote no cambia, el resto de su columna queda en cero y la división siempre es exacta. Despliega los subpasos para ver cada producto cruzado; el pivote resaltado divide en la siguiente iteración`,
+        ...FieldMatrixUtils.toStepMatrix(field, work),
+        operation: `aᵢⱼ ← (${factor(pivot)}·aᵢⱼ − aᵢ,${col + 1}·a${r + 1},ⱼ) / ${factor(previousPivot)}`,
+        rowIndex: r,
+        ...FieldMatrixUtils.toStepPivot(field, pivot),
+        substeps
+      });
+
+      previousPivot = pivot;
+      previousRow = col === r ? r : -1;
+      pivotColumns.push(col);
+      r++;
+    }
+
+    return { steps, matrix: work, pivotColumns, pivot: previousPivot, swapCount };
+  }
+
+  /**
+   * Determinante por Montante: tras n pivotes, el último es det(A) (cambiado de signo por cada intercambio)
+   */
+  static determinant<T>(field: ExactDivisionRing<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    determinant: T;
+  } {
+    const n = matrix.length;
+    const format = (value: T) => field.format(value);
+    const steps: CalculationStep[] = [{
+      id: 1,
+      title: 'Matriz Original',
+      description: `Calculamos el determinante por el método de Montante (Bareiss) en ${field.name}: en cada iteración los elementos se sustituyen por determinantes 2×2 con el pivote divididos entre el pivote anterior, sin fracciones intermedias. El último pivote es det(A)`,
+      ...FieldMatrixUtils.toStepMatrix(field, matrix),
+      operation: 'det(A) = ?'
+    }];
+
+    const reduction = this.reduce(field, matrix, n, true, 2);
+    steps.push(...reduction.steps);
+    const stepId = steps.length + 1;
+    const sign = (value: T) => (reduction.swapCount % 2 === 1 ? field.neg(value) : value);
+
+    if (reduction.missingPivotColumn !== undefined) {
+      steps.push({
+        id: stepId,
+        title: 'Determinante = 0',
+        description: `La columna ${reduction.missingPivotColumn + 1} no tiene ningún elemento distinto de cero desde la fila ${reduction.pivotColumns.length + 1}, así que no hay pivote y det(A) = 0`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduction.matrix),
+        operation: 'det(A) = 0'
+      });
+      return { steps, determinant: field.zero() };
+    }
+
+    // Identidad de Sylvester: el bloque restante B cumple det(B) = det(A) · (pivote anterior)^(tamaño − 1)
+    if (reduction.nonInvertiblePivot) {
+      const k = reduction.nonInvertiblePivot.col;
+      const block = reduction.matrix.slice(k).map(row => row.slice(k));
+      const blockDeterminant = FieldLaplace.determinant(field, block);
+      let divisor = field.one();
+      for (let i = 0; i < n - k - 1; i++) {
+        divisor = field.mul(divisor, reduction.pivot);
+      }
+      const determinant = sign(field.div(blockDeterminant, divisor));
+
+      steps.push({
+        id: stepId,
+        title: 'Pivote No Invertible',
+        description: `Ningún elemento de la columna ${k + 1} es invertible en ${field.name}, así que no podrá dividir en la siguiente iteración. Por la identidad de Sylvester, el bloque restante B (filas y columnas ${k + 1} a ${n}) cumple det(B) = det(A) · ${format(reduction.pivot)}^${n - k - 1}; por cofactores det(B) = ${format(blockDeterminant)}, así que det(A) = ${reduction.swapCount % 2 === 1 ? '−' : ''}${format(blockDeterminant)} / ${format(divisor)} = ${format(determinant)}`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduction.matrix),
+        operation: `det(A) = ${format(determinant)}`
+      });
+      return { steps, determinant };
+    }
+
+    const determinant = sign(reduction.pivot);
+
+    steps.push({
+      id: stepId,
+      title: 'Determinante Final',
+      description: `La diagonal completa vale ${format(reduction.pivot)}, el último pivote, que es el determinante${reduction.swapCount > 0 ? ` de A con las filas intercambiadas; con ${reduction.swapCount} intercambio${reduction.swapCount > 1 ? 's' : ''} det(A) = ${reduction.swapCount % 2 === 1 ? '−' : ''}${format(reduction.pivot)}` : ''}`,
+      ...FieldMatrixUtils.toStepMatrix(field, reduction.matrix),
+      operation: `det(A) = ${format(determinant)}`
+    });
+
+    return { steps, determinant };
+  }
+
+  /**
+   * Resuelve Ax = b (también m×n) por Montante sobre [A | b]: cada fila pivote queda como p·xc = b'ᵢ
+   * más los términos de las variables libres, y los rangos se leen de la matriz reducida
+   */
+  static solve<T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>): {
+    steps: CalculationStep[];
+    solution: FieldSolution<T>;
+  } {
+    const augmented = FieldMatrixUtils.createAugmentedMatrix(matrix, constants);
+    const variableCount = augmented[0].length - 1;
+    const format = (value: T) => field.format(value);
+    const steps: CalculationStep[] = [{
+      id: 1,
+      title: 'Matriz Aumentada Inicial',
+      description: `Sistema de ecuaciones como matriz aumentada [A|b] (${field.name}). Con el método de Montante (Bareiss) cada iteración sustituye los elementos por determinantes 2×2 con el pivote divididos entre el pivote anterior, sin fracciones intermedias`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmented),
+      operation: 'Configuración inicial'
+    }];
+
+    const reduction = this.reduce(field, augmented, variableCount, false, 2);
+    steps.push(...reduction.steps);
+    const stepId = steps.length + 1;
+    const reduced = reduction.matrix;
+    const { pivot, pivotColumns } = reduction;
+    const rank = pivotColumns.length;
+
+    if (reduction.nonInvertiblePivot) {
+      const { row, col } = reduction.nonInvertiblePivot;
+      const failureReason = `Ningún elemento de la columna ${col + 1} (desde la fila ${row + 1}) es invertible en ${field.name}, así que no se puede dividir entre el pivote ${format(reduced[row][col])}`;
+      steps.push({
+        id: stepId,
+        title: 'Pivote No Invertible',
+        description: `${failureReason}. El método de Montante no puede continuar.`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduced),
+        operation: `${format(reduced[row][col])}⁻¹ no existe`,
+        rowIndex: row,
+        ...FieldMatrixUtils.toStepPivot(field, reduced[row][col])
+      });
+      return {
+        steps,
+        solution: { isUnique: false, hasNoSolution: false, hasInfiniteSolutions: false, variables: [], failureReason }
+      };
+    }
+
+    // Una fila [0 0 ... 0 | b] con b ≠ 0 hace al sistema incompatible
+    const inconsistentRow = reduced.findIndex((row, i) => i >= rank && !field.isZero(row[variableCount]));
+    if (inconsistentRow !== -1) {
+      steps.push({
+        id: stepId,
+        title: 'Sistema Inconsistente',
+        description: `La fila ${inconsistentRow + 1} queda como [0 0 ... 0 | ${format(reduced[inconsistentRow][variableCount])}]: la ecuación 0 = ${format(reduced[inconsistentRow][variableCount])} es imposible, por lo que el sistema no tiene solución (rango(A) = ${rank} < rango([A|b]) = ${rank + 1})`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduced),
+        operation: 'Sistema sin solución'
+      });
+      return {
+        steps,
+        solution: { isUnique: false, hasNoSolution: true, hasInfiniteSolutions: false, variables: [] }
+      };
+    }
+
+    // Dividir cada fila pivote entre el último pivote da la forma escalonada reducida
+    const rref = reduced.map((row, i) => (i < rank ? row.map(value => field.div(value, pivot)) : row));
+
+    if (rank === variableCount) {
+      const variables = pivotColumns.map((_, i) => rref[i][variableCount]);
+      const isSquare = augmented.length === variableCount;
+      const determinant = reduction.swapCount % 2 === 1 ? field.neg(pivot) : pivot;
+
+      steps.push({
+        id: stepId,
+        title: 'Solución',
+        description: `Cada fila dice ${format(pivot)}·xᵢ = b'ᵢ, así que basta una única división por el último pivote:\n${variables
+          .map((value, i) => `x${i + 1} = ${format(reduced[i][variableCount])} / ${format(pivot)} = ${format(value)}`)
+          .join('\n')}${isSquare ? `\nAdemás, el último pivote da det(A) = ${format(determinant)}` : ''}`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduced),
+        operation: `Solución: [${variables.map(format).join(', ')}]`
+      });
+
+      return {
+        steps,
+        solution: {
+          isUnique: true,
+          hasNoSolution: false,
+          hasInfiniteSolutions: false,
+          variables,
+          ...(isSquare ? { determinant } : {})
+        }
+      };
+    }
+
+    // Variables libres: x = p + t₁v₁ + ... + tₖvₖ
+    const generalSolution = FieldElimination.buildGeneralSolution(field, rref, pivotColumns);
+    const freeNames = generalSolution.freeColumns.map(col => `x${col + 1}`).join(', ');
+    const pivotNames = pivotColumns.map(col => `x${col + 1}`).join(', ');
+
+    steps.push({
+      id: stepId,
+      title: 'Sistema con Infinitas Soluciones',
+      description: `rango(A) = rango([A|b]) = ${rank} < ${variableCount}. Dividiendo cada fila pivote entre el último pivote (${format(pivot)}) se despejan las variables pivote (${pivotNames || 'ninguna'}) en función de las libres (${freeNames}), que toman valores arbitrarios`,
+      ...FieldMatrixUtils.toStepMatrix(field, rref),
+      operation: `${generalSolution.freeColumns.length} variable(s) libre(s): ${freeNames}`
+    });
+
+    return {
+      steps,
+      solution: {
+        isUnique: false,
+        hasNoSolution: false,
+        hasInfiniteSolutions: true,
+        variables: generalSolution.particular,
+        generalSolution
+      }
+    };
+  }
+
+  /**
+   * Indica si un pivote distinto de cero se puede invertir (siempre, salvo en anillos como Z/nZ)
+   */
+  private static isInvertible<T>(field: ExactDivisionRing<T>, value: T): boolean {
+    return field.isInvertible ? field.isInvertible(value) : true;
+  }
+}
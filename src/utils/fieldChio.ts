@@ -0,0 +1,151 @@
+import type { CalculationStep } from '../types/matrix';
+import type { Field, FieldMatrix } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { FieldLaplace } from './fieldLaplace';
+import { toSubscript } from './subscript';
+
+/**
+ * Condensación pivotal de Chiò para cualquier campo: det(A) = det(B) / a₁₁ⁿ⁻², donde B es la
+ * matriz (n−1)×(n−1) de los determinantes 2×2 que cada elemento forma con a₁₁
+ */
+export class FieldChio {
+
+  /**
+   * Condensa A hasta una matriz 1×1, con un paso por etapa (la matriz condensada y el factor
+   * de escala) y cada determinante 2×2 de la etapa en sus subpasos
+   */
+  static determinant<T>(field: Field<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    determinant: T;
+  } {
+    const format = (value: T) => field.format(value);
+    const factor = (value: T) => (/^-|\s/.test(format(value)) ? `(${format(value)})` : format(value));
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    let current = FieldMatrixUtils.cloneMatrix(matrix);
+    // det(A) = signo · det(actual) / escala, con escala el producto de los a₁₁ⁿ⁻² de cada etapa
+    let scale = field.one();
+    let isNegated = false;
+    const divisors: string[] = [];
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Original',
+      description: `Calculamos el determinante por condensación de Chiò (${field.name}): en cada etapa, con el pivote a = a₁₁, cada elemento bᵢⱼ de la nueva matriz es el determinante 2×2 |a a₁,ⱼ₊₁; aᵢ₊₁,₁ aᵢ₊₁,ⱼ₊₁|, y det(A) = det(B) / aⁿ⁻². Repetimos hasta llegar a una matriz 1×1`,
+      ...FieldMatrixUtils.toStepMatrix(field, current),
+      operation: 'det(A) = det(B) / a₁₁ⁿ⁻²'
+    });
+
+    const result = (value: T) => {
+      const scaled = field.div(value, scale);
+      return isNegated ? field.neg(scaled) : scaled;
+    };
+
+    while (current.length > 1) {
+      const n = current.length;
+      const power = n - 2;
+
+      // El pivote debe ser distinto de cero (y, si se divide entre él, invertible en Z/nZ)
+      const candidates = current.map((_, i) => i).filter(i => !field.isZero(current[i][0]));
+      const pivotRow = candidates.find(i => power === 0 || this.isInvertible(field, current[i][0])) ?? candidates[0];
+
+      if (pivotRow === undefined) {
+        steps.push({
+          id: stepId,
+          title: 'Determinante = 0',
+          description: `La primera columna de la matriz ${n}×${n} es toda cero, así que su determinante es 0 y det(A) = 0`,
+          ...FieldMatrixUtils.toStepMatrix(field, current),
+          operation: 'det(A) = 0'
+        });
+        return { steps, determinant: field.zero() };
+      }
+
+      if (pivotRow !== 0) {
+        [current[0], current[pivotRow]] = [current[pivotRow], current[0]];
+        isNegated = !isNegated;
+
+        steps.push({
+          id: stepId++,
+          title: 'Intercambio de Filas',
+          description: `a₁₁ no sirve como pivote, así que intercambiamos R1 ↔ R${pivotRow + 1} (esto cambia el signo del determinante)`,
+          ...FieldMatrixUtils.toStepMatrix(field, current),
+          operation: `R1 ↔ R${pivotRow + 1}`,
+          rowIndex: 0,
+          ...FieldMatrixUtils.toStepPivot(field, current[0][0])
+        });
+      }
+
+      const pivot = current[0][0];
+
+      // En Z/nZ no se puede dividir entre aⁿ⁻²: el bloque actual se calcula por cofactores
+      if (power > 0 && !this.isInvertible(field, pivot)) {
+        const blockDeterminant = FieldLaplace.determinant(field, current);
+        const determinant = result(blockDeterminant);
+        steps.push({
+          id: stepId,
+          title: 'Pivote No Invertible',
+          description: `Ningún elemento de la primera columna es invertible en ${field.name}, así que no podemos dividir entre ${factor(pivot)}^${power}. El determinante de la matriz ${n}×${n} actual se calcula por cofactores: ${format(blockDeterminant)}, y det(A) = ${format(determinant)}`,
+          ...FieldMatrixUtils.toStepMatrix(field, current),
+          operation: `det(A) = ${format(determinant)}`
+        });
+        return { steps, determinant };
+      }
+
+      const substeps: CalculationStep[] = [];
+      const condensed = current.slice(1).map((row, i) => row.slice(1).map((value, j) => {
+        const entry = field.sub(field.mul(pivot, value), field.mul(current[0][j + 1], row[0]));
+        substeps.push({
+          id: substeps.length + 1,
+          title: `b${toSubscript(i + 1)}${toSubscript(j + 1)}`,
+          description: `|${format(pivot)}  ${format(current[0][j + 1])}; ${format(row[0])}  ${format(value)}| = ${factor(pivot)}·${factor(value)} − ${factor(current[0][j + 1])}·${factor(row[0])} = ${format(entry)}`,
+          ...FieldMatrixUtils.toStepMatrix(field, current),
+          operation: `b${toSubscript(i + 1)}${toSubscript(j + 1)} = ${format(entry)}`,
+          rowIndex: 0,
+          ...FieldMatrixUtils.toStepPivot(field, pivot),
+          highlightedCells: [[0, 0], [0, j + 1], [i + 1, 0], [i + 1, j + 1]]
+        });
+        return entry;
+      }));
+
+      let divisor = field.one();
+      for (let k = 0; k < power; k++) {
+        divisor = field.mul(divisor, pivot);
+      }
+      if (power > 0) {
+        divisors.push(power === 1 ? factor(pivot) : `${factor(pivot)}^${power}`);
+      }
+      scale = field.mul(scale, divisor);
+
+      steps.push({
+        id: stepId++,
+        title: `Condensación ${n}×${n} → ${n - 1}×${n - 1}`,
+        description: `Con el pivote a = ${format(pivot)}, cada bᵢⱼ es el determinante 2×2 que forman a, el elemento de la primera fila de su columna, el de la primera columna de su fila y aᵢ₊₁,ⱼ₊₁ (despliega los subpasos para verlos). ${power > 0 ? `El factor de escala es ${factor(pivot)}^${power} = ${format(divisor)}: det = det(B) / ${factor(divisor)}` : 'Con n = 2 el factor de escala es a⁰ = 1'}`,
+        ...FieldMatrixUtils.toStepMatrix(field, condensed),
+        operation: power > 0 ? `det = det(B) / ${factor(divisor)}` : 'det = det(B)',
+        substeps
+      });
+
+      current = condensed;
+    }
+
+    const value = current[0][0];
+    const determinant = result(value);
+
+    steps.push({
+      id: stepId,
+      title: 'Determinante Final',
+      description: `La matriz quedó 1×1 con valor ${format(value)}. Deshaciendo los factores de escala${isNegated ? ' y el cambio de signo por los intercambios' : ''}: det(A) = ${isNegated ? '−' : ''}${factor(value)}${divisors.length > 0 ? ` / (${divisors.join('·')})` : ''} = ${format(determinant)}`,
+      ...FieldMatrixUtils.toStepMatrix(field, current),
+      operation: `det(A) = ${format(determinant)}`
+    });
+
+    return { steps, determinant };
+  }
+
+  /**
+   * Indica si un pivote distinto de cero se puede invertir (siempre, salvo en anillos como Z/nZ)
+   */
+  private static isInvertible<T>(field: Field<T>, value: T): boolean {
+    return field.isInvertible ? field.isInvertible(value) : true;
+  }
+}
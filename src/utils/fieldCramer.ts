@@ -0,0 +1,158 @@
+import type { CalculationStep } from '../types/matrix';
+import type { Field, FieldMatrix, FieldSolution, FieldVector } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { FieldLaplace } from './fieldLaplace';
+import { FieldElimination } from './fieldElimination';
+import { toSubscript } from './subscript';
+
+/**
+ * Regla de Cramer para sistemas cuadrados sobre cualquier campo: xᵢ = det(Aᵢ) / det(A),
+ * con cada determinante calculado por LaPlace
+ */
+export class FieldCramer {
+
+  /**
+   * Resuelve Ax = b con un paso por cada determinante (det(A) y det(Aᵢ), donde Aᵢ es A con la
+   * columna i sustituida por b); la expansión de LaPlace de cada uno queda en sus subpasos.
+   * Si det(A) no es invertible, Cramer no da la solución: un det(Aᵢ) ≠ 0 prueba que el sistema es
+   * incompatible y, si no, se clasifica por rangos con Gauss-Jordan
+   */
+  static solve<T>(field: Field<T>, coefficientMatrix: FieldMatrix<T>, constantVector: FieldVector<T>): {
+    steps: CalculationStep[];
+    solution: FieldSolution<T>;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const n = coefficientMatrix.length;
+    const format = (value: T) => field.format(value);
+    const augmented = FieldMatrixUtils.createAugmentedMatrix(coefficientMatrix, constantVector);
+
+    steps.push({
+      id: stepId++,
+      title: 'Sistema de Ecuaciones',
+      description: `Regla de Cramer (${field.name}): si det(A) es invertible, la solución es única y xᵢ = det(Aᵢ) / det(A), donde Aᵢ es A con la columna i sustituida por b. Cada determinante se calcula por LaPlace; despliega sus subpasos para ver la expansión`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmented),
+      operation: 'xᵢ = det(Aᵢ) / det(A)'
+    });
+
+    const main = FieldLaplace.calculateDeterminant(field, coefficientMatrix);
+    const determinant = main.determinant;
+    const isInvertible = !field.isZero(determinant) && (field.isInvertible ? field.isInvertible(determinant) : true);
+
+    steps.push({
+      id: stepId++,
+      title: 'Determinante de A',
+      description: isInvertible
+        ? `det(A) = ${format(determinant)} ≠ 0, así que el sistema tiene solución única`
+        : field.isZero(determinant)
+        ? 'det(A) = 0: A es singular y Cramer no puede dividir entre det(A). El sistema no tiene solución única: puede ser incompatible o tener infinitas soluciones'
+        : `det(A) = ${format(determinant)} no es invertible en ${field.name}: Cramer no puede dividir entre det(A)`,
+      ...FieldMatrixUtils.toStepMatrix(field, coefficientMatrix),
+      operation: `det(A) = ${format(determinant)}`,
+      substeps: main.steps
+    });
+
+    const replacedMatrix = (col: number) => coefficientMatrix.map((row, i) =>
+      row.map((value, j) => (j === col ? constantVector[i] : value))
+    );
+
+    if (isInvertible) {
+      const variables: T[] = [];
+
+      for (let i = 0; i < n; i++) {
+        const name = `A${toSubscript(i + 1)}`;
+        const modified = replacedMatrix(i);
+        const result = FieldLaplace.calculateDeterminant(field, modified);
+        variables.push(field.div(result.determinant, determinant));
+
+        steps.push({
+          id: stepId++,
+          title: `Matriz ${name} y x${toSubscript(i + 1)}`,
+          description: `${name} es A con la columna ${i + 1} sustituida por b. det(${name}) = ${format(result.determinant)}, así que x${toSubscript(i + 1)} = det(${name}) / det(A) = ${format(result.determinant)} / ${format(determinant)} = ${format(variables[i])}`,
+          ...FieldMatrixUtils.toStepMatrix(field, modified),
+          operation: `x${toSubscript(i + 1)} = ${format(variables[i])}`,
+          substeps: result.steps
+        });
+      }
+
+      steps.push({
+        id: stepId,
+        title: 'Solución Completa',
+        description: 'Todas las variables han sido calculadas usando la Regla de Cramer',
+        ...FieldMatrixUtils.toStepMatrix(field, augmented),
+        operation: `Solución: [${variables.map(format).join(', ')}]`
+      });
+
+      return {
+        steps,
+        solution: { variables, determinant, isUnique: true, hasInfiniteSolutions: false, hasNoSolution: false }
+      };
+    }
+
+    // Con det(A) = 0, adj(A)·b = (det(A₁), ..., det(Aₙ)); si Ax = b, adj(A)·b = adj(A)·A·x = det(A)·x = 0
+    if (field.isZero(determinant)) {
+      for (let i = 0; i < n; i++) {
+        const name = `A${toSubscript(i + 1)}`;
+        const modified = replacedMatrix(i);
+        const result = FieldLaplace.calculateDeterminant(field, modified);
+        const isZero = field.isZero(result.determinant);
+
+        steps.push({
+          id: stepId++,
+          title: `Matriz ${name}`,
+          description: isZero
+            ? `${name} es A con la columna ${i + 1} sustituida por b. det(${name}) = 0, compatible con que haya solución`
+            : `${name} es A con la columna ${i + 1} sustituida por b. det(${name}) = ${format(result.determinant)} ≠ 0. Como adj(A)·b = (det(A₁), ..., det(Aₙ)) y, si existiera x con Ax = b, adj(A)·b = adj(A)·A·x = det(A)·x = 0, el sistema es incompatible`,
+          ...FieldMatrixUtils.toStepMatrix(field, modified),
+          operation: `det(${name}) = ${format(result.determinant)}`,
+          substeps: result.steps
+        });
+
+        if (!isZero) {
+          steps.push({
+            id: stepId,
+            title: 'Sistema Incompatible',
+            description: `det(A) = 0 y det(${name}) ≠ 0: el sistema no tiene solución`,
+            ...FieldMatrixUtils.toStepMatrix(field, augmented),
+            operation: 'Sin solución'
+          });
+          return {
+            steps,
+            solution: { variables: [], determinant, isUnique: false, hasInfiniteSolutions: false, hasNoSolution: true }
+          };
+        }
+      }
+    }
+
+    // Cramer no decide (todos los det(Aᵢ) son 0, o det(A) no es invertible): se clasifica por rangos
+    const reduction = FieldElimination.solveGaussJordan(field, coefficientMatrix, constantVector);
+    const { rank, failureReason: rankFailure } = FieldElimination.rank(field, coefficientMatrix);
+    const { rank: augmentedRank, failureReason: augmentedRankFailure } = FieldElimination.rank(field, augmented);
+    const solution: FieldSolution<T> = {
+      ...reduction.solution,
+      determinant,
+      failureReason: reduction.solution.failureReason ?? rankFailure ?? augmentedRankFailure
+    };
+
+    steps.push({
+      id: stepId,
+      title: 'Clasificación por Rangos',
+      description: solution.failureReason
+        ? `Cramer no decide el caso, y la reducción por Gauss-Jordan tampoco: ${solution.failureReason}`
+        : solution.hasNoSolution
+        ? `Cramer no decide el caso, así que reducimos [A | b] por Gauss-Jordan: rango(A) = ${rank} < rango([A|b]) = ${augmentedRank}, el sistema es incompatible (Rouché–Frobenius)`
+        : solution.hasInfiniteSolutions
+        ? `Cramer no decide el caso, así que reducimos [A | b] por Gauss-Jordan: rango(A) = rango([A|b]) = ${rank} < ${n}, el sistema tiene infinitas soluciones con ${n - rank} parámetro(s) (Rouché–Frobenius)`
+        : `Reducimos [A | b] por Gauss-Jordan: rango(A) = rango([A|b]) = ${n}, el sistema tiene solución única`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmented),
+      operation: solution.failureReason
+        ? 'Sin clasificar'
+        : solution.hasNoSolution
+        ? `rango(A) = ${rank} < rango([A|b]) = ${augmentedRank}`
+        : `rango(A) = rango([A|b]) = ${rank}`,
+      substeps: reduction.steps
+    });
+
+    return { steps, solution };
+  }
+}
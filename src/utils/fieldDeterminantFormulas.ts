@@ -0,0 +1,169 @@
+import type { CalculationStep } from '../types/matrix';
+import type { FieldMatrix, Ring } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { toSubscript } from './subscript';
+
+/**
+ * Fórmulas explícitas del determinante para cualquier anillo: la regla de Sarrus (3×3)
+ * y la fórmula de Leibniz por permutaciones (hasta 4×4). Ninguna necesita dividir
+ */
+export class FieldDeterminantFormulas {
+
+  /**
+   * Regla de Sarrus: se copian las dos primeras columnas a la derecha de A y se suman los productos
+   * de las tres diagonales descendentes menos los de las tres ascendentes, un paso por diagonal
+   */
+  static sarrus<T>(ring: Ring<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    determinant: T;
+  } {
+    if (matrix.length !== 3 || matrix.some(row => row.length !== 3)) {
+      throw new Error('La regla de Sarrus solo es válida para matrices 3×3');
+    }
+
+    const format = (value: T) => ring.format(value);
+    const factor = (value: T) => (/^-|\s/.test(format(value)) ? `(${format(value)})` : format(value));
+    const extended = matrix.map(row => [...row, row[0], row[1]]);
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Ampliada',
+      description: `Regla de Sarrus (${ring.name}): copiamos las dos primeras columnas a la derecha de A. Las tres diagonales que bajan hacia la derecha suman y las tres que suben restan`,
+      ...FieldMatrixUtils.toStepMatrix(ring, extended),
+      operation: 'det(A) = (↘ + ↘ + ↘) − (↗ + ↗ + ↗)'
+    });
+
+    const diagonal = (start: number, descending: boolean) => {
+      const cells: [number, number][] = [0, 1, 2].map(k => [descending ? k : 2 - k, start + k]);
+      // Cada factor se nombra por su posición en A, leyendo de arriba abajo
+      const ordered = [...cells].sort((a, b) => a[0] - b[0]);
+      const names = ordered.map(([i, j]) => `a${toSubscript(i + 1)}${toSubscript((j % 3) + 1)}`);
+      const values = ordered.map(([i, j]) => extended[i][j]);
+      const product = values.reduce((acc, value) => ring.mul(acc, value), ring.one());
+      return { cells, names, values, product };
+    };
+
+    const addDiagonalSteps = (descending: boolean) => [0, 1, 2].map(start => {
+      const { cells, names, values, product } = diagonal(start, descending);
+      steps.push({
+        id: stepId++,
+        title: `Diagonal ${descending ? 'Descendente' : 'Ascendente'} ${start + 1} ${descending ? '↘' : '↗'}`,
+        description: `${names.join('·')} = ${values.map(factor).join('·')} = ${format(product)}, que ${descending ? 'se suma' : 'se resta'}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, extended),
+        operation: `${descending ? '+' : '−'} ${factor(product)}`,
+        highlightedCells: cells
+      });
+      return product;
+    });
+
+    const positive = addDiagonalSteps(true);
+    const negative = addDiagonalSteps(false);
+    const positiveSum = positive.reduce((acc, value) => ring.add(acc, value), ring.zero());
+    const negativeSum = negative.reduce((acc, value) => ring.add(acc, value), ring.zero());
+    const determinant = ring.sub(positiveSum, negativeSum);
+
+    steps.push({
+      id: stepId,
+      title: 'Determinante Final',
+      description: `det(A) = (${positive.map(factor).join(' + ')}) − (${negative.map(factor).join(' + ')}) = ${factor(positiveSum)} − ${factor(negativeSum)} = ${format(determinant)}`,
+      ...FieldMatrixUtils.toStepMatrix(ring, extended),
+      operation: `det(A) = ${format(determinant)}`
+    });
+
+    return { steps, determinant };
+  }
+
+  /**
+   * Fórmula de Leibniz: det(A) = Σ sgn(σ)·a₁σ(1)···aₙσ(n) sobre las n! permutaciones, con un paso
+   * por permutación (inversiones, paridad, signo y producto) y las entradas elegidas resaltadas
+   */
+  static leibniz<T>(ring: Ring<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    determinant: T;
+  } {
+    const n = matrix.length;
+    if (n > 4) {
+      throw new Error('La fórmula de Leibniz solo se desarrolla para matrices de hasta 4×4');
+    }
+
+    const format = (value: T) => ring.format(value);
+    const factor = (value: T) => (/^-|\s/.test(format(value)) ? `(${format(value)})` : format(value));
+    const permutations = this.permutations(n);
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Original',
+      description: `Fórmula de Leibniz (${ring.name}): det(A) = Σ sgn(σ)·a₁σ(₁)···aₙσ(ₙ), sumando sobre las ${permutations.length} permutaciones σ de {1, ..., ${n}}. Cada permutación elige un elemento de cada fila y de cada columna; su signo es +1 si tiene un número par de inversiones y −1 si es impar`,
+      ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+      operation: `${permutations.length} permutaciones`
+    });
+
+    const terms: { sign: number; product: T }[] = [];
+
+    for (const permutation of permutations) {
+      const inversions: string[] = [];
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (permutation[i] > permutation[j]) {
+            inversions.push(`(${permutation[i] + 1}, ${permutation[j] + 1})`);
+          }
+        }
+      }
+
+      const sign = inversions.length % 2 === 0 ? 1 : -1;
+      const values = permutation.map((col, row) => matrix[row][col]);
+      const product = values.reduce((acc, value) => ring.mul(acc, value), ring.one());
+      const names = permutation.map((col, row) => `a${toSubscript(row + 1)}${toSubscript(col + 1)}`);
+      terms.push({ sign, product });
+
+      steps.push({
+        id: stepId++,
+        title: `σ = (${permutation.map(col => col + 1).join(' ')})`,
+        description: `${inversions.length === 0 ? 'Sin inversiones' : `${inversions.length} inversi${inversions.length === 1 ? 'ón' : 'ones'}: ${inversions.join(', ')}`}, así que σ es ${sign === 1 ? 'par y sgn(σ) = +1' : 'impar y sgn(σ) = −1'}. Producto: ${names.join('·')} = ${values.map(factor).join('·')} = ${format(product)}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `${sign === 1 ? '+' : '−'} ${factor(product)}`,
+        highlightedCells: permutation.map((col, row) => [row, col] as [number, number])
+      });
+    }
+
+    const determinant = terms.reduce(
+      (acc, { sign, product }) => (sign === 1 ? ring.add(acc, product) : ring.sub(acc, product)),
+      ring.zero()
+    );
+    const nonZero = terms.filter(({ product }) => !ring.isZero(product));
+    const zeroCount = terms.length - nonZero.length;
+    const sum = nonZero
+      .map(({ sign, product }, k) => `${sign === 1 ? (k === 0 ? '' : '+ ') : k === 0 ? '−' : '− '}${factor(product)}`)
+      .join(' ');
+
+    steps.push({
+      id: stepId,
+      title: 'Determinante Final',
+      description: `Sumando los ${terms.length} términos con su signo${zeroCount > 0 ? ` (${zeroCount} ${zeroCount === 1 ? 'tiene' : 'tienen'} producto 0)` : ''}: det(A) = ${sum || '0'} = ${format(determinant)}`,
+      ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+      operation: `det(A) = ${format(determinant)}`
+    });
+
+    return { steps, determinant };
+  }
+
+  /**
+   * Permutaciones de {0, ..., n-1} en orden lexicográfico
+   */
+  private static permutations(n: number): number[][] {
+    const result: number[][] = [];
+    const build = (prefix: number[], remaining: number[]) => {
+      if (remaining.length === 0) {
+        result.push(prefix);
+        return;
+      }
+      remaining.forEach((value, k) => build([...prefix, value], remaining.filter((_, m) => m !== k)));
+    };
+    build([], Array.from({ length: n }, (_, k) => k));
+    return result;
+  }
+}
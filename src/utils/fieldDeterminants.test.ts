@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Field, FieldMatrix } from '../types/field';
+import { FieldBareiss } from './fieldBareiss';
+import { FieldChio } from './fieldChio';
+import { FieldDeterminantFormulas } from './fieldDeterminantFormulas';
+import { FieldElimination } from './fieldElimination';
+import { FieldLaplace } from './fieldLaplace';
+import { createModularField, PolynomialRing, RationalField } from './fields';
+import { Polynomial } from './polynomial';
+
+type DeterminantMethod = <T>(field: Field<T>, matrix: FieldMatrix<T>) => T;
+
+const methods: Record<string, DeterminantMethod> = {
+  'Gauss-Jordan': (field, matrix) => FieldElimination.determinantByColumns(field, matrix).determinant,
+  'eliminación gaussiana': (field, matrix) => FieldElimination.determinantByRowOperations(field, matrix).determinant,
+  'Montante (Bareiss)': (field, matrix) => FieldBareiss.determinant(field, matrix).determinant,
+  'Chiò': (field, matrix) => FieldChio.determinant(field, matrix).determinant,
+  'Laplace': (field, matrix) => FieldLaplace.calculateDeterminant(field, matrix).determinant,
+  'Leibniz': (field, matrix) => FieldDeterminantFormulas.leibniz(field, matrix).determinant,
+  'Sarrus': (field, matrix) => FieldDeterminantFormulas.sarrus(field, matrix).determinant
+};
+
+const toField = <T>(field: Field<T>, rows: number[][]): FieldMatrix<T> =>
+  rows.map(row => row.map(value => field.fromInteger(value)));
+
+// Generador de Park-Miller: matrices aleatorias pero reproducibles
+const seeded = (seed: number) => (max: number) => {
+  seed = (seed * 16807) % 2147483647;
+  return seed % max;
+};
+
+const randomMatrix = (next: (max: number) => number, size: number, min: number, max: number): number[][] =>
+  Array.from({ length: size }, () => Array.from({ length: size }, () => min + next(max - min + 1)));
+
+/**
+ * Comprueba que todos los métodos aplicables a la matriz dan el mismo determinante que el desarrollo por cofactores
+ */
+const expectMethodsAgree = <T>(field: Field<T>, matrix: FieldMatrix<T>, expected = FieldLaplace.determinant(field, matrix)) => {
+  for (const [name, method] of Object.entries(methods)) {
+    if (name === 'Sarrus' && matrix.length !== 3) continue;
+    const determinant = method(field, matrix);
+    expect(field.equals(determinant, expected), `${name}: ${field.format(determinant)} ≠ ${field.format(expected)}`).toBe(true);
+  }
+};
+
+describe('determinante en Z/nZ con n compuesto', () => {
+  it('calcula det = 5 mod 6 aunque el primer pivote sea un divisor de cero', () => {
+    const field = createModularField(6);
+    expectMethodsAgree(field, toField(field, [[0, 1, 1], [2, 0, 1], [3, 1, 0]]), 5n);
+  });
+
+  it('calcula det = 2 mod 4 sin pivotes invertibles en la primera columna', () => {
+    const field = createModularField(4);
+    expectMethodsAgree(field, toField(field, [[0, 1], [2, 0]]), 2n);
+  });
+
+  it.each([4, 6, 8, 9, 12])('coincide con Laplace en matrices aleatorias módulo %i', modulus => {
+    const field = createModularField(modulus);
+    const next = seeded(modulus);
+    for (let trial = 0; trial < 40; trial++) {
+      expectMethodsAgree(field, toField(field, randomMatrix(next, 2 + (trial % 3), 0, modulus - 1)));
+    }
+  });
+});
+
+describe('determinante en GF(p)', () => {
+  it.each([5, 7])('coincide con Laplace en matrices aleatorias módulo %i', modulus => {
+    const field = createModularField(modulus);
+    const next = seeded(modulus);
+    for (let trial = 0; trial < 40; trial++) {
+      expectMethodsAgree(field, toField(field, randomMatrix(next, 2 + (trial % 3), 0, modulus - 1)));
+    }
+  });
+});
+
+describe('determinante con fracciones exactas', () => {
+  it('coincide con Laplace en matrices enteras aleatorias', () => {
+    const next = seeded(2024);
+    for (let trial = 0; trial < 40; trial++) {
+      expectMethodsAgree(RationalField, toField(RationalField, randomMatrix(next, 2 + (trial % 3), -5, 5)));
+    }
+  });
+
+  it('Laplace devuelve los términos con aᵢⱼ ≠ 0 cuya suma es det(A)', () => {
+    const next = seeded(7);
+    for (let trial = 0; trial < 20; trial++) {
+      const matrix = toField(RationalField, randomMatrix(next, 2 + (trial % 3), -2, 2));
+      const { determinant, terms } = FieldLaplace.calculateDeterminant(RationalField, matrix);
+      for (const term of terms) {
+        expect(term.entry.isZero()).toBe(false);
+        expect(term.minorDeterminant.equals(FieldLaplace.determinant(RationalField, term.minor))).toBe(true);
+      }
+      const sum = terms.reduce((total, term) => total.add(term.product), RationalField.zero());
+      expect(sum.equals(determinant), `${sum} ≠ ${determinant}`).toBe(true);
+    }
+  });
+
+  it('da cero en una matriz singular', () => {
+    expectMethodsAgree(RationalField, toField(RationalField, [[1, 2, 3], [4, 5, 6], [7, 8, 9]]), RationalField.zero());
+  });
+});
+
+describe('determinante con un parámetro', () => {
+  it('Montante da el mismo polinomio que Laplace dividiendo solo de forma exacta', () => {
+    const next = seeded(17);
+    const k = Polynomial.variable('k');
+    for (let trial = 0; trial < 30; trial++) {
+      // Entradas a + b·k con a, b ∈ [-3, 3]
+      const matrix = randomMatrix(next, 2 + (trial % 3), -3, 3).map(row =>
+        row.map(value => Polynomial.constant(value).add(k.multiply(Polynomial.constant(next(7) - 3))))
+      );
+      const expected = FieldLaplace.determinant(PolynomialRing, matrix);
+      const { determinant } = FieldBareiss.determinant(PolynomialRing, matrix);
+      expect(determinant.equals(expected), `${determinant} ≠ ${expected}`).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,918 @@
+import type { CalculationStep } from '../types/matrix';
+import type { Field, FieldGeneralSolution, FieldMatrix, FieldSolution, FieldVector } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { FieldLaplace } from './fieldLaplace';
+import { toSubscript } from './subscript';
+
+/**
+ * Eliminación gaussiana, Gauss-Jordan, rango e inversa para cualquier campo
+ */
+export class FieldElimination {
+
+  /**
+   * Resuelve Ax = b con el método de Gauss-Jordan (eliminación hacia adelante y hacia atrás)
+   */
+  static solveGaussJordan<T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>): {
+    steps: CalculationStep[];
+    solution: FieldSolution<T>;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+
+    const augmentedMatrix = FieldMatrixUtils.createAugmentedMatrix(matrix, constants);
+    const n = matrix.length;
+    const m = augmentedMatrix[0].length;
+    const variableCount = m - 1;
+    const coefficients = () => FieldMatrixUtils.toStepMatrix(field, augmentedMatrix.map(row => row.slice(0, -1)));
+    const pivotColumns: number[] = [];
+
+    // Paso inicial
+    steps.push({
+      id: stepId++,
+      title: "Matriz Inicial",
+      description: `Matriz aumentada inicial del sistema de ecuaciones (Método Gauss-Jordan, ${field.name})`,
+      ...coefficients(),
+      operation: "inicial"
+    });
+
+    // FASE 1: Eliminación hacia adelante (formar escalón). Las columnas sin pivote se saltan
+    for (let col = 0, i = 0; col < variableCount && i < n; col++) {
+      // Buscar el pivote más grande (pivoteo parcial)
+      const maxRow = FieldMatrixUtils.findPivot(field, augmentedMatrix, i, col);
+
+      // Columna sin pivote: su variable queda libre
+      if (field.isZero(augmentedMatrix[maxRow][col])) {
+        steps.push({
+          id: stepId++,
+          title: `Columna ${col + 1} sin Pivote`,
+          description: `Todos los elementos de la columna ${col + 1} desde la fila ${i + 1} son cero, así que x${col + 1} no tiene pivote y será una variable libre`,
+          ...coefficients(),
+          operation: `x${col + 1} libre`
+        });
+        continue;
+      }
+
+      // Intercambiar filas si es necesario
+      if (maxRow !== i) {
+        [augmentedMatrix[i], augmentedMatrix[maxRow]] = [augmentedMatrix[maxRow], augmentedMatrix[i]];
+
+        steps.push({
+          id: stepId++,
+          title: `Intercambio de Filas`,
+          description: `Intercambiar fila ${i + 1} ↔ fila ${maxRow + 1} para obtener mejor pivote`,
+          ...coefficients(),
+          operation: `R${i + 1} ↔ R${maxRow + 1}`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+        });
+      }
+
+      // En Z/nZ un pivote distinto de cero puede no tener inverso
+      if (!this.isInvertible(field, augmentedMatrix[i][col])) {
+        const failureReason = `Ningún elemento de la columna ${col + 1} (desde la fila ${i + 1}) es invertible en ${field.name}, así que no se puede normalizar el pivote ${field.format(augmentedMatrix[i][col])}`;
+        steps.push({
+          id: stepId++,
+          title: `Pivote No Invertible`,
+          description: `${failureReason}. El método de Gauss-Jordan no puede continuar.`,
+          ...coefficients(),
+          operation: `${field.format(augmentedMatrix[i][col])}⁻¹ no existe`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+        });
+        return {
+          steps,
+          solution: {
+            isUnique: false,
+            hasNoSolution: false,
+            hasInfiniteSolutions: false,
+            variables: [],
+            failureReason
+          }
+        };
+      }
+
+      // Hacer que el elemento pivote sea 1
+      const pivot = augmentedMatrix[i][col];
+      if (!field.equals(pivot, field.one())) {
+        augmentedMatrix[i] = augmentedMatrix[i].map(value => field.div(value, pivot));
+
+        steps.push({
+          id: stepId++,
+          title: `Normalizar Pivote`,
+          description: `Dividir fila ${i + 1} por ${field.format(pivot)} para hacer el pivote = 1`,
+          ...coefficients(),
+          operation: `R${i + 1} = R${i + 1} ÷ (${field.format(pivot)})`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, field.one())
+        });
+      }
+
+      // Eliminar elementos debajo del pivote
+      for (let k = i + 1; k < n; k++) {
+        if (!field.isZero(augmentedMatrix[k][col])) {
+          const factor = augmentedMatrix[k][col];
+          this.subtractRowMultiple(field, augmentedMatrix, k, i, factor, m);
+
+          steps.push({
+            id: stepId++,
+            title: `Eliminación hacia Adelante`,
+            description: `Eliminar elemento en posición (${k + 1}, ${col + 1}) usando fila ${i + 1}`,
+            ...coefficients(),
+            operation: `R${k + 1} = R${k + 1} - (${field.format(factor)}) × R${i + 1}`,
+            rowIndex: k,
+            ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+          });
+        }
+      }
+
+      pivotColumns.push(col);
+      i++;
+    }
+
+    const rank = pivotColumns.length;
+
+    // Una fila [0 0 ... 0 | b] con b ≠ 0 hace al sistema incompatible
+    const inconsistentRow = augmentedMatrix.findIndex((row, i) => i >= rank && !field.isZero(row[m - 1]));
+    if (inconsistentRow !== -1) {
+      steps.push({
+        id: stepId++,
+        title: 'Sistema Inconsistente',
+        description: `La fila ${inconsistentRow + 1} queda como [0 0 ... 0 | ${field.format(augmentedMatrix[inconsistentRow][m - 1])}]: la ecuación 0 = ${field.format(augmentedMatrix[inconsistentRow][m - 1])} es imposible, por lo que el sistema no tiene solución (rango(A) = ${rank} < rango([A|b]) = ${rank + 1})`,
+        ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+        operation: 'Sistema sin solución'
+      });
+      return {
+        steps,
+        solution: {
+          isUnique: false,
+          hasNoSolution: true,
+          hasInfiniteSolutions: false,
+          variables: []
+        }
+      };
+    }
+
+    // FASE 2: Eliminación hacia atrás (forma escalonada reducida)
+    for (let i = rank - 1; i >= 0; i--) {
+      const col = pivotColumns[i];
+      for (let k = i - 1; k >= 0; k--) {
+        if (!field.isZero(augmentedMatrix[k][col])) {
+          const factor = augmentedMatrix[k][col];
+          this.subtractRowMultiple(field, augmentedMatrix, k, i, factor, m);
+
+          steps.push({
+            id: stepId++,
+            title: `Eliminación hacia Atrás`,
+            description: `Eliminar elemento en posición (${k + 1}, ${col + 1}) usando fila ${i + 1}`,
+            ...coefficients(),
+            operation: `R${k + 1} = R${k + 1} - (${field.format(factor)}) × R${i + 1}`,
+            rowIndex: k,
+            ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+          });
+        }
+      }
+    }
+
+    // Rango completo: la matriz de coeficientes es la identidad y la solución es la última columna
+    if (rank === variableCount) {
+      return {
+        steps,
+        solution: {
+          isUnique: true,
+          hasNoSolution: false,
+          hasInfiniteSolutions: false,
+          variables: augmentedMatrix.slice(0, rank).map(row => row[m - 1])
+        }
+      };
+    }
+
+    // Variables libres: x = p + t₁v₁ + ... + tₖvₖ
+    const generalSolution = this.buildGeneralSolution(field, augmentedMatrix, pivotColumns);
+    const freeNames = generalSolution.freeColumns.map(col => `x${col + 1}`).join(', ');
+    const pivotNames = pivotColumns.map(col => `x${col + 1}`).join(', ');
+    const combination = generalSolution.freeColumns
+      .map((_, k) => `t${toSubscript(k + 1)}v${toSubscript(k + 1)}`)
+      .join(' + ');
+
+    steps.push({
+      id: stepId++,
+      title: 'Sistema con Infinitas Soluciones',
+      description: `rango(A) = rango([A|b]) = ${rank} < ${variableCount}. Las variables pivote (${pivotNames || 'ninguna'}) se despejan en función de las libres (${freeNames}), que toman valores arbitrarios: x = p + ${combination}`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+      operation: `${generalSolution.freeColumns.length} variable(s) libre(s): ${freeNames}`
+    });
+
+    return {
+      steps,
+      solution: {
+        isUnique: false,
+        hasNoSolution: false,
+        hasInfiniteSolutions: true,
+        variables: generalSolution.particular,
+        generalSolution
+      }
+    };
+  }
+
+  /**
+   * Lee la solución general de una matriz aumentada en forma escalonada reducida:
+   * p tiene las variables libres en 0 y cada vᵢ pone 1 en su variable libre y -aⱼᵢ en las variables pivote
+   */
+  static buildGeneralSolution<T>(
+    field: Field<T>,
+    rref: FieldMatrix<T>,
+    pivotColumns: number[]
+  ): FieldGeneralSolution<T> {
+    const variableCount = rref[0].length - 1;
+    const freeColumns = Array.from({ length: variableCount }, (_, col) => col).filter(col => !pivotColumns.includes(col));
+
+    const particular = Array.from({ length: variableCount }, () => field.zero());
+    pivotColumns.forEach((col, row) => {
+      particular[col] = rref[row][variableCount];
+    });
+
+    const directions = freeColumns.map(free => {
+      const direction = Array.from({ length: variableCount }, () => field.zero());
+      direction[free] = field.one();
+      pivotColumns.forEach((col, row) => {
+        direction[col] = field.neg(rref[row][free]);
+      });
+      return direction;
+    });
+
+    return { particular, directions, pivotColumns: [...pivotColumns], freeColumns };
+  }
+
+  /**
+   * Resuelve Ax = b con eliminación gaussiana (forma escalonada) y sustitución hacia atrás
+   */
+  static solveGaussian<T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>): {
+    steps: CalculationStep[];
+    solution: FieldSolution<T>;
+  } {
+    const steps: CalculationStep[] = [];
+    const n = matrix.length;
+    const augmentedMatrix = FieldMatrixUtils.createAugmentedMatrix(matrix, constants);
+    const variableCount = augmentedMatrix[0].length - 1;
+    const pivotColumns: number[] = [];
+
+    steps.push({
+      id: 1,
+      title: 'Matriz Aumentada Inicial',
+      description: `Sistema de ecuaciones representado como matriz aumentada [A|b] (${field.name})`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+      operation: 'Configuración inicial'
+    });
+
+    // Fase de eliminación hacia adelante. Las columnas sin pivote se saltan
+    let stepCounter = 2;
+
+    for (let col = 0, i = 0; col < variableCount && i < n; col++) {
+      // Buscar el mejor pivote
+      const pivotRow = FieldMatrixUtils.findPivot(field, augmentedMatrix, i, col);
+
+      // Columna sin pivote: su variable queda libre
+      if (field.isZero(augmentedMatrix[pivotRow][col])) {
+        steps.push({
+          id: stepCounter++,
+          title: `Columna ${col + 1} sin Pivote`,
+          description: `Todos los elementos de la columna ${col + 1} desde la fila ${i + 1} son cero, así que x${col + 1} no tiene pivote y será una variable libre`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+          operation: `x${col + 1} libre`
+        });
+        continue;
+      }
+
+      // Intercambiar filas si es necesario
+      if (pivotRow !== i) {
+        [augmentedMatrix[i], augmentedMatrix[pivotRow]] = [augmentedMatrix[pivotRow], augmentedMatrix[i]];
+
+        steps.push({
+          id: stepCounter++,
+          title: `Intercambio de Filas`,
+          description: `Intercambiamos la fila ${i + 1} con la fila ${pivotRow + 1} para obtener el mejor pivote`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+          operation: `R${i + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+        });
+      }
+
+      // En Z/nZ un pivote distinto de cero puede no tener inverso
+      if (!this.isInvertible(field, augmentedMatrix[i][col])) {
+        const failureReason = `Ningún elemento de la columna ${col + 1} (desde la fila ${i + 1}) es invertible en ${field.name}, así que no se puede dividir entre el pivote ${field.format(augmentedMatrix[i][col])}`;
+        steps.push({
+          id: stepCounter,
+          title: `Pivote No Invertible`,
+          description: `${failureReason}. La eliminación gaussiana no puede continuar.`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+          operation: `${field.format(augmentedMatrix[i][col])}⁻¹ no existe`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+        });
+        return {
+          steps,
+          solution: {
+            isUnique: false,
+            hasNoSolution: false,
+            hasInfiniteSolutions: false,
+            variables: [],
+            failureReason
+          }
+        };
+      }
+
+      // Eliminar elementos debajo del pivote
+      for (let j = i + 1; j < n; j++) {
+        if (!field.isZero(augmentedMatrix[j][col])) {
+          // Factor: -a[j][col] / a[i][col]
+          const factor = field.neg(field.div(augmentedMatrix[j][col], augmentedMatrix[i][col]));
+          this.subtractRowMultiple(field, augmentedMatrix, j, i, field.neg(factor), variableCount + 1);
+
+          steps.push({
+            id: stepCounter++,
+            title: `Eliminación Gaussiana - Paso ${i + 1}.${j - i}`,
+            description: `Eliminamos el elemento en la posición (${j + 1}, ${col + 1}) usando R${j + 1} = R${j + 1} + (${field.format(factor)}) × R${i + 1}`,
+            ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+            operation: `R${j + 1} = R${j + 1} + (${field.format(factor)}) × R${i + 1}`,
+            rowIndex: j,
+            ...FieldMatrixUtils.toStepPivot(field, augmentedMatrix[i][col])
+          });
+        }
+      }
+
+      pivotColumns.push(col);
+      i++;
+    }
+
+    steps.push({
+      id: stepCounter++,
+      title: 'Forma Escalonada',
+      description: `La matriz aumentada está en forma escalonada, con ${pivotColumns.length} pivote(s) en las columnas ${pivotColumns.map(col => col + 1).join(', ') || '(ninguna)'}: rango(A) = ${pivotColumns.length}`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+      operation: `rango(A) = ${pivotColumns.length}`
+    });
+
+    const solution = this.backSubstitution(field, augmentedMatrix, pivotColumns, steps, stepCounter);
+
+    return { steps, solution };
+  }
+
+  /**
+   * Realiza la sustitución hacia atrás sobre una matriz aumentada escalonada, después de comprobar
+   * con los rangos si el sistema es compatible y si tiene variables libres
+   */
+  private static backSubstitution<T>(
+    field: Field<T>,
+    augmentedMatrix: FieldMatrix<T>,
+    pivotColumns: number[],
+    steps: CalculationStep[],
+    stepCounter: number
+  ): FieldSolution<T> {
+    const variableCount = augmentedMatrix[0].length - 1;
+    const rank = pivotColumns.length;
+
+    // Por debajo del rango las filas son [0 0 ... 0 | b]; con b ≠ 0 el sistema es incompatible
+    const inconsistentRow = augmentedMatrix.findIndex((row, i) => i >= rank && !field.isZero(row[variableCount]));
+    if (inconsistentRow !== -1) {
+      steps.push({
+        id: stepCounter,
+        title: 'Sistema Inconsistente',
+        description: `La fila ${inconsistentRow + 1} queda como [0 0 ... 0 | ${field.format(augmentedMatrix[inconsistentRow][variableCount])}]: la ecuación 0 = ${field.format(augmentedMatrix[inconsistentRow][variableCount])} es imposible, por lo que el sistema no tiene solución (rango(A) = ${rank} < rango([A|b]) = ${rank + 1})`,
+        ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+        operation: 'Sistema sin solución'
+      });
+
+      return {
+        variables: [],
+        isUnique: false,
+        hasInfiniteSolutions: false,
+        hasNoSolution: true
+      };
+    }
+
+    // Variables libres: se despejan las pivote con las libres como parámetros, x = p + t₁v₁ + ... + tₖvₖ
+    if (rank < variableCount) {
+      const freeColumns = Array.from({ length: variableCount }, (_, col) => col).filter(col => !pivotColumns.includes(col));
+      const particular = this.substitute(field, augmentedMatrix, pivotColumns, () => field.zero(), true);
+      const directions = freeColumns.map(free =>
+        this.substitute(field, augmentedMatrix, pivotColumns, col => (col === free ? field.one() : field.zero()), false)
+      );
+      const freeNames = freeColumns.map(col => `x${col + 1}`).join(', ');
+      const pivotNames = pivotColumns.map(col => `x${col + 1}`).join(', ');
+      const combination = freeColumns
+        .map((_, k) => `t${toSubscript(k + 1)}v${toSubscript(k + 1)}`)
+        .join(' + ');
+
+      steps.push({
+        id: stepCounter,
+        title: 'Sistema con Infinitas Soluciones',
+        description: `rango(A) = rango([A|b]) = ${rank} < ${variableCount}. Las variables libres (${freeNames}) toman valores arbitrarios y la sustitución hacia atrás despeja las variables pivote (${pivotNames || 'ninguna'}) en función de ellas: x = p + ${combination}`,
+        ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+        operation: `${freeColumns.length} variable(s) libre(s): ${freeNames}`
+      });
+
+      return {
+        variables: particular,
+        isUnique: false,
+        hasInfiniteSolutions: true,
+        hasNoSolution: false,
+        generalSolution: { particular, directions, pivotColumns: [...pivotColumns], freeColumns }
+      };
+    }
+
+    // Sustitución hacia atrás
+    const n = variableCount;
+    const variables: T[] = new Array(n);
+
+    steps.push({
+      id: stepCounter++,
+      title: 'Sustitución Hacia Atrás',
+      description: `rango(A) = rango([A|b]) = ${n}, así que la solución es única. Comenzamos resolviendo desde la última ecuación hacia la primera`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+      operation: 'Inicio de sustitución hacia atrás'
+    });
+
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = augmentedMatrix[i][n]; // Término independiente
+      let terms = '';
+
+      // Restar los términos ya conocidos
+      for (let j = i + 1; j < n; j++) {
+        sum = field.sub(sum, field.mul(augmentedMatrix[i][j], variables[j]));
+        if (!field.isZero(augmentedMatrix[i][j])) {
+          terms += ` - (${field.format(augmentedMatrix[i][j])})(${field.format(variables[j])})`;
+        }
+      }
+
+      // Calcular la variable dividiendo por el coeficiente diagonal
+      variables[i] = field.div(sum, augmentedMatrix[i][i]);
+
+      steps.push({
+        id: stepCounter++,
+        title: `Cálculo de x${i + 1}`,
+        description: `x${i + 1} = (${field.format(augmentedMatrix[i][n])}${terms}) / ${field.format(augmentedMatrix[i][i])} = ${field.format(variables[i])}`,
+        ...FieldMatrixUtils.toStepMatrix(field, augmentedMatrix),
+        operation: `x${i + 1} = ${field.format(variables[i])}`
+      });
+    }
+
+    return {
+      variables,
+      isUnique: true,
+      hasInfiniteSolutions: false,
+      hasNoSolution: false
+    };
+  }
+
+  /**
+   * Sustitución hacia atrás en una matriz aumentada escalonada con las variables libres fijadas
+   * (freeValue): cada variable pivote se despeja de su fila. Sin constantes resuelve Ax = 0
+   */
+  private static substitute<T>(
+    field: Field<T>,
+    echelon: FieldMatrix<T>,
+    pivotColumns: number[],
+    freeValue: (col: number) => T,
+    withConstants: boolean
+  ): T[] {
+    const variableCount = echelon[0].length - 1;
+    const values = Array.from({ length: variableCount }, (_, col) => freeValue(col));
+
+    for (let row = pivotColumns.length - 1; row >= 0; row--) {
+      const col = pivotColumns[row];
+      let sum = withConstants ? echelon[row][variableCount] : field.zero();
+      for (let j = col + 1; j < variableCount; j++) {
+        sum = field.sub(sum, field.mul(echelon[row][j], values[j]));
+      }
+      values[col] = field.div(sum, echelon[row][col]);
+    }
+
+    return values;
+  }
+
+  /**
+   * Determinante por eliminación gaussiana: un paso por columna eliminada
+   */
+  static determinantByColumns<T>(field: Field<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    determinant: T;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+
+    const n = matrix.length;
+    const workMatrix = FieldMatrixUtils.cloneMatrix(matrix);
+    let determinant = field.one();
+    let swapCount = 0;
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Original',
+      description: 'Calculamos el determinante usando eliminación gaussiana optimizada.',
+      ...FieldMatrixUtils.toStepMatrix(field, workMatrix),
+      operation: 'det(A) = ?',
+    });
+
+    for (let i = 0; i < n; i++) {
+      // Buscar el pivote (elemento no cero más grande)
+      const pivotRow = FieldMatrixUtils.findPivot(field, workMatrix, i, i);
+
+      // Si el pivote es cero, el determinante es cero
+      if (field.isZero(workMatrix[pivotRow][i])) {
+        steps.push({
+          id: stepId++,
+          title: 'Determinante Cero',
+          description: `La columna ${i + 1} tiene ceros en todas las posiciones restantes. El determinante es 0.`,
+          ...FieldMatrixUtils.toStepMatrix(field, workMatrix),
+          operation: 'det(A) = 0',
+        });
+        return { steps, determinant: field.zero() };
+      }
+
+      // Intercambiar filas si es necesario
+      if (pivotRow !== i) {
+        [workMatrix[i], workMatrix[pivotRow]] = [workMatrix[pivotRow], workMatrix[i]];
+        swapCount++;
+
+        steps.push({
+          id: stepId++,
+          title: `Intercambio de Filas R${i + 1} ↔ R${pivotRow + 1}`,
+          description: `Intercambiamos las filas ${i + 1} y ${pivotRow + 1} para obtener un mejor pivote.`,
+          ...FieldMatrixUtils.toStepMatrix(field, workMatrix),
+          operation: `Intercambio de filas (cambia signo del determinante)`,
+        });
+      }
+
+      // Pivote no invertible (Z/nZ): el resto se calcula por cofactores, que no necesita dividir
+      if (!this.isInvertible(field, workMatrix[i][i])) {
+        const remaining = workMatrix.slice(i).map(row => row.slice(i));
+        const remainingDeterminant = FieldLaplace.determinant(field, remaining);
+        determinant = field.mul(determinant, remainingDeterminant);
+        if (swapCount % 2 !== 0) {
+          determinant = field.neg(determinant);
+        }
+
+        steps.push({
+          id: stepId++,
+          title: 'Pivote No Invertible',
+          description: `Ningún elemento de la columna ${i + 1} es invertible en ${field.name}, así que no podemos seguir eliminando. El determinante del bloque restante (filas y columnas ${i + 1} a ${n}) se calcula por cofactores: ${field.format(remainingDeterminant)}.`,
+          ...FieldMatrixUtils.toStepMatrix(field, workMatrix),
+          operation: `det(A) = ${field.format(determinant)}`,
+        });
+        return { steps, determinant };
+      }
+
+      // El pivote actual
+      const pivot = workMatrix[i][i];
+      determinant = field.mul(determinant, pivot);
+
+      // Eliminar elementos debajo del pivote
+      let hasElimination = false;
+      for (let k = i + 1; k < n; k++) {
+        if (!field.isZero(workMatrix[k][i])) {
+          hasElimination = true;
+          const factor = field.div(workMatrix[k][i], pivot);
+          this.subtractRowMultiple(field, workMatrix, k, i, factor, n);
+        }
+      }
+
+      if (hasElimination) {
+        steps.push({
+          id: stepId++,
+          title: `Eliminación Columna ${i + 1}`,
+          description: `Eliminamos los elementos debajo del pivote a${i + 1},${i + 1} = ${field.format(pivot)}.`,
+          ...FieldMatrixUtils.toStepMatrix(field, workMatrix),
+          operation: `Eliminación gaussiana`,
+        });
+      }
+    }
+
+    // Ajustar signo por intercambios
+    if (swapCount % 2 !== 0) {
+      determinant = field.neg(determinant);
+    }
+
+    steps.push({
+      id: stepId++,
+      title: 'Determinante Final',
+      description: `El determinante es el producto de los elementos de la diagonal principal${swapCount > 0 ? ` (con ajuste de signo por ${swapCount} intercambio${swapCount > 1 ? 's' : ''})` : ''}.`,
+      ...FieldMatrixUtils.toStepMatrix(field, workMatrix),
+      operation: `det(A) = ${field.format(determinant)}`,
+    });
+
+    return { steps, determinant };
+  }
+
+  /**
+   * Determinante por eliminación gaussiana: un paso por cada operación de fila
+   * y el producto de la diagonal al final
+   */
+  static determinantByRowOperations<T>(field: Field<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    determinant: T;
+  } {
+    const steps: CalculationStep[] = [];
+    const n = matrix.length;
+    const workingMatrix = FieldMatrixUtils.cloneMatrix(matrix);
+    let swapCount = 0;
+    let stepCounter = 1;
+
+    steps.push({
+      id: stepCounter++,
+      title: 'Matriz Original',
+      description: `Calculamos el determinante usando eliminación gaussiana (${field.name})`,
+      ...FieldMatrixUtils.toStepMatrix(field, workingMatrix),
+      operation: 'det(A) = ?'
+    });
+
+    for (let i = 0; i < n - 1; i++) {
+      const pivotRow = FieldMatrixUtils.findPivot(field, workingMatrix, i, i);
+
+      if (field.isZero(workingMatrix[pivotRow][i])) {
+        steps.push({
+          id: stepCounter,
+          title: 'Determinante = 0',
+          description: 'Encontramos una columna de ceros, por lo que det(A) = 0',
+          ...FieldMatrixUtils.toStepMatrix(field, workingMatrix),
+          operation: 'det(A) = 0'
+        });
+
+        return { steps, determinant: field.zero() };
+      }
+
+      // Intercambiar filas si es necesario
+      if (pivotRow !== i) {
+        [workingMatrix[i], workingMatrix[pivotRow]] = [workingMatrix[pivotRow], workingMatrix[i]];
+        swapCount++;
+
+        steps.push({
+          id: stepCounter++,
+          title: `Intercambio de Filas`,
+          description: `Intercambiamos R${i + 1} ↔ R${pivotRow + 1} (esto cambia el signo del determinante)`,
+          ...FieldMatrixUtils.toStepMatrix(field, workingMatrix),
+          operation: `R${i + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: i
+        });
+      }
+
+      // Pivote no invertible (Z/nZ): el resto se calcula por cofactores, que no necesita dividir
+      if (!this.isInvertible(field, workingMatrix[i][i])) {
+        const remaining = workingMatrix.slice(i).map(row => row.slice(i));
+        const remainingDeterminant = FieldLaplace.determinant(field, remaining);
+        const diagonal = workingMatrix.slice(0, i).map((row, k) => row[k]);
+        let determinant = diagonal.reduce((product, value) => field.mul(product, value), remainingDeterminant);
+        if (swapCount % 2 === 1) {
+          determinant = field.neg(determinant);
+        }
+
+        steps.push({
+          id: stepCounter,
+          title: 'Pivote No Invertible',
+          description: `Ningún elemento de la columna ${i + 1} es invertible en ${field.name}, así que no podemos seguir eliminando. El determinante del bloque restante (filas y columnas ${i + 1} a ${n}) se calcula por cofactores: ${field.format(remainingDeterminant)}, y det(A) = ${swapCount % 2 === 1 ? '(-1)^' + swapCount + ' × ' : ''}${[...diagonal.map(value => field.format(value)), `(${field.format(remainingDeterminant)})`].join(' × ')} = ${field.format(determinant)}`,
+          ...FieldMatrixUtils.toStepMatrix(field, workingMatrix),
+          operation: `det(A) = ${field.format(determinant)}`
+        });
+
+        return { steps, determinant };
+      }
+
+      // Eliminar elementos debajo del pivote
+      for (let j = i + 1; j < n; j++) {
+        if (!field.isZero(workingMatrix[j][i])) {
+          const factor = field.neg(field.div(workingMatrix[j][i], workingMatrix[i][i]));
+          this.subtractRowMultiple(field, workingMatrix, j, i, field.neg(factor), n);
+
+          steps.push({
+            id: stepCounter++,
+            title: `Eliminación - Fila ${j + 1}`,
+            description: `R${j + 1} = R${j + 1} + (${field.format(factor)}) × R${i + 1}`,
+            ...FieldMatrixUtils.toStepMatrix(field, workingMatrix),
+            operation: `R${j + 1} = R${j + 1} + (${field.format(factor)}) × R${i + 1}`
+          });
+        }
+      }
+    }
+
+    // Calcular determinante como producto de la diagonal
+    let determinant = workingMatrix.reduce((product, row, i) => field.mul(product, row[i]), field.one());
+
+    // Ajustar por intercambios de filas
+    if (swapCount % 2 === 1) {
+      determinant = field.neg(determinant);
+    }
+
+    const diagonalElements = workingMatrix.map((row, i) => field.format(row[i])).join(' × ');
+
+    steps.push({
+      id: stepCounter,
+      title: 'Determinante Final',
+      description: `det(A) = ${swapCount % 2 === 1 ? '(-1)^' + swapCount + ' × ' : ''}${diagonalElements} = ${field.format(determinant)}`,
+      ...FieldMatrixUtils.toStepMatrix(field, workingMatrix),
+      operation: `det(A) = ${field.format(determinant)}`
+    });
+
+    return { steps, determinant };
+  }
+
+  /**
+   * Reduce una matriz (de cualquier tamaño) a su forma escalonada reducida
+   * y devuelve las columnas pivote. Si un pivote distinto de cero no es invertible
+   * (Z/nZ con n compuesto) se detiene e indica el motivo
+   */
+  static rref<T>(field: Field<T>, matrix: FieldMatrix<T>): {
+    rref: FieldMatrix<T>;
+    pivotColumns: number[];
+    failureReason?: string;
+  } {
+    const result = FieldMatrixUtils.cloneMatrix(matrix);
+    const rows = result.length;
+    const cols = rows > 0 ? result[0].length : 0;
+    const pivotColumns: number[] = [];
+
+    for (let col = 0, row = 0; col < cols && row < rows; col++) {
+      const pivotRow = FieldMatrixUtils.findPivot(field, result, row, col);
+      if (field.isZero(result[pivotRow][col])) {
+        continue; // Columna sin pivote
+      }
+      if (!this.isInvertible(field, result[pivotRow][col])) {
+        return {
+          rref: result,
+          pivotColumns,
+          failureReason: `Ningún elemento de la columna ${col + 1} (desde la fila ${row + 1}) es invertible en ${field.name}, así que no se puede normalizar el pivote ${field.format(result[pivotRow][col])}`
+        };
+      }
+
+      [result[row], result[pivotRow]] = [result[pivotRow], result[row]];
+
+      const pivot = result[row][col];
+      result[row] = result[row].map(value => field.div(value, pivot));
+
+      for (let i = 0; i < rows; i++) {
+        if (i !== row && !field.isZero(result[i][col])) {
+          this.subtractRowMultiple(field, result, i, row, result[i][col], cols);
+        }
+      }
+
+      pivotColumns.push(col);
+      row++;
+    }
+
+    return { rref: result, pivotColumns };
+  }
+
+  /**
+   * Igual que rref, pero registra cada operación de fila como un paso. Si un pivote distinto
+   * de cero no es invertible (Z/nZ con n compuesto) se detiene e indica el motivo
+   */
+  static rrefWithSteps<T>(field: Field<T>, matrix: FieldMatrix<T>, name = 'A'): {
+    steps: CalculationStep[];
+    rref: FieldMatrix<T>;
+    pivotColumns: number[];
+    failureReason?: string;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const result = FieldMatrixUtils.cloneMatrix(matrix);
+    const rows = result.length;
+    const cols = rows > 0 ? result[0].length : 0;
+    const pivotColumns: number[] = [];
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Inicial',
+      description: `Reducimos ${name} (${rows}×${cols}) a su forma escalonada reducida con operaciones elementales de fila (${field.name})`,
+      ...FieldMatrixUtils.toStepMatrix(field, result),
+      operation: 'inicial'
+    });
+
+    for (let col = 0, row = 0; col < cols && row < rows; col++) {
+      const pivotRow = FieldMatrixUtils.findPivot(field, result, row, col);
+
+      if (field.isZero(result[pivotRow][col])) {
+        steps.push({
+          id: stepId++,
+          title: `Columna ${col + 1} sin Pivote`,
+          description: `Todos los elementos de la columna ${col + 1} desde la fila ${row + 1} son cero: la columna ${col + 1} no es columna pivote`,
+          ...FieldMatrixUtils.toStepMatrix(field, result),
+          operation: `c${col + 1} sin pivote`
+        });
+        continue;
+      }
+
+      if (pivotRow !== row) {
+        [result[row], result[pivotRow]] = [result[pivotRow], result[row]];
+        steps.push({
+          id: stepId++,
+          title: 'Intercambio de Filas',
+          description: `Intercambiar fila ${row + 1} ↔ fila ${pivotRow + 1} para obtener mejor pivote`,
+          ...FieldMatrixUtils.toStepMatrix(field, result),
+          operation: `R${row + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: row,
+          ...FieldMatrixUtils.toStepPivot(field, result[row][col])
+        });
+      }
+
+      const pivot = result[row][col];
+      if (!this.isInvertible(field, pivot)) {
+        const failureReason = `Ningún elemento de la columna ${col + 1} (desde la fila ${row + 1}) es invertible en ${field.name}, así que no se puede normalizar el pivote ${field.format(pivot)}`;
+        steps.push({
+          id: stepId++,
+          title: 'Pivote No Invertible',
+          description: `${failureReason}. La forma escalonada reducida no está definida.`,
+          ...FieldMatrixUtils.toStepMatrix(field, result),
+          operation: `${field.format(pivot)}⁻¹ no existe`,
+          rowIndex: row,
+          ...FieldMatrixUtils.toStepPivot(field, pivot)
+        });
+        return { steps, rref: result, pivotColumns, failureReason };
+      }
+
+      if (!field.equals(pivot, field.one())) {
+        result[row] = result[row].map(value => field.div(value, pivot));
+        steps.push({
+          id: stepId++,
+          title: 'Normalizar Pivote',
+          description: `Dividir fila ${row + 1} por ${field.format(pivot)} para hacer el pivote = 1`,
+          ...FieldMatrixUtils.toStepMatrix(field, result),
+          operation: `R${row + 1} = R${row + 1} ÷ (${field.format(pivot)})`,
+          rowIndex: row,
+          ...FieldMatrixUtils.toStepPivot(field, field.one())
+        });
+      }
+
+      // Eliminar arriba y abajo del pivote
+      for (let i = 0; i < rows; i++) {
+        if (i !== row && !field.isZero(result[i][col])) {
+          const factor = result[i][col];
+          this.subtractRowMultiple(field, result, i, row, factor, cols);
+          steps.push({
+            id: stepId++,
+            title: 'Eliminación',
+            description: `Eliminar elemento en posición (${i + 1}, ${col + 1}) usando fila ${row + 1}`,
+            ...FieldMatrixUtils.toStepMatrix(field, result),
+            operation: `R${i + 1} = R${i + 1} - (${field.format(factor)}) × R${row + 1}`,
+            rowIndex: i,
+            ...FieldMatrixUtils.toStepPivot(field, field.one())
+          });
+        }
+      }
+
+      pivotColumns.push(col);
+      row++;
+    }
+
+    return { steps, rref: result, pivotColumns };
+  }
+
+  /**
+   * Calcula el rango de una matriz (sin definir, con el motivo, si un pivote no es invertible)
+   */
+  static rank<T>(field: Field<T>, matrix: FieldMatrix<T>): { rank: number; failureReason?: string } {
+    const { pivotColumns, failureReason } = this.rref(field, matrix);
+    return { rank: pivotColumns.length, failureReason };
+  }
+
+  /**
+   * Calcula la inversa reduciendo [A | I] → [I | A⁻¹]. Devuelve null si A es singular
+   * o, con el motivo, si la reducción se detiene en un pivote no invertible
+   */
+  static inverse<T>(field: Field<T>, matrix: FieldMatrix<T>): { inverse: FieldMatrix<T> | null; failureReason?: string } {
+    const n = matrix.length;
+    const identity = FieldMatrixUtils.createIdentityMatrix(field, n);
+    const augmented = matrix.map((row, i) => [...row, ...identity[i]]);
+    const { rref, pivotColumns, failureReason } = this.rref(field, augmented);
+
+    if (failureReason) {
+      return { inverse: null, failureReason };
+    }
+    if (pivotColumns.length < n || pivotColumns[n - 1] !== n - 1) {
+      return { inverse: null };
+    }
+    return { inverse: rref.map(row => row.slice(n)) };
+  }
+
+  /**
+   * Indica si un pivote distinto de cero se puede invertir (siempre, salvo en anillos como Z/nZ)
+   */
+  private static isInvertible<T>(field: Field<T>, value: T): boolean {
+    return field.isInvertible ? field.isInvertible(value) : true;
+  }
+
+  /**
+   * R_target = R_target - factor × R_source (en el lugar)
+   */
+  private static subtractRowMultiple<T>(
+    field: Field<T>,
+    matrix: FieldMatrix<T>,
+    targetRow: number,
+    sourceRow: number,
+    factor: T,
+    columns: number
+  ): void {
+    const source = matrix[sourceRow];
+    matrix[targetRow] = matrix[targetRow].map((value, j) =>
+      j < columns ? field.sub(value, field.mul(factor, source[j])) : value
+    );
+  }
+}
@@ -0,0 +1,337 @@
+import type { CalculationStep } from '../types/matrix';
+import type { Field, FieldLUFactorization, FieldMatrix, FieldSolution, FieldVector } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { FieldElimination } from './fieldElimination';
+import { toSubscript } from './subscript';
+
+/**
+ * Factorización PA = LU con pivoteo parcial y resolución de Ax = b por sustitución, para cualquier campo
+ */
+export class FieldLU {
+
+  /**
+   * Factoriza PA = LU: cada multiplicador de la eliminación se guarda en L y cada
+   * intercambio de filas en P. Si A es singular la factorización existe igualmente,
+   * pero U tiene algún cero en la diagonal
+   */
+  static decompose<T>(field: Field<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    factorization: FieldLUFactorization<T>;
+    failureReason?: string;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const n = matrix.length;
+    const upper = FieldMatrixUtils.cloneMatrix(matrix);
+    const lower = FieldMatrixUtils.createIdentityMatrix(field, n);
+    const permutation = Array.from({ length: n }, (_, i) => i);
+    const factorization = { permutation, lower, upper };
+    const factors = () => this.toStepFactors(field, factorization);
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Inicial',
+      description: `Empezamos con U = A, L = I y P = I (${field.name}). Cada multiplicador de la eliminación se anotará en L y cada intercambio de filas en P`,
+      ...FieldMatrixUtils.toStepMatrix(field, upper),
+      operation: 'inicial',
+      factors: factors()
+    });
+
+    for (let col = 0; col < n - 1; col++) {
+      const pivotRow = FieldMatrixUtils.findPivot(field, upper, col, col);
+
+      if (field.isZero(upper[pivotRow][col])) {
+        steps.push({
+          id: stepId++,
+          title: `Columna ${col + 1} sin Pivote`,
+          description: `Todos los elementos de la columna ${col + 1} desde la fila ${col + 1} son cero: u${toSubscript(col + 1)}${toSubscript(col + 1)} = 0 y A es singular. Los multiplicadores de esta columna son 0`,
+          ...FieldMatrixUtils.toStepMatrix(field, upper),
+          operation: `u${toSubscript(col + 1)}${toSubscript(col + 1)} = 0`,
+          factors: factors()
+        });
+        continue;
+      }
+
+      if (pivotRow !== col) {
+        [upper[col], upper[pivotRow]] = [upper[pivotRow], upper[col]];
+        [permutation[col], permutation[pivotRow]] = [permutation[pivotRow], permutation[col]];
+        // Los multiplicadores ya calculados viajan con su fila
+        for (let j = 0; j < col; j++) {
+          [lower[col][j], lower[pivotRow][j]] = [lower[pivotRow][j], lower[col][j]];
+        }
+
+        steps.push({
+          id: stepId++,
+          title: 'Intercambio de Filas',
+          description: `Intercambiar fila ${col + 1} ↔ fila ${pivotRow + 1} para obtener mejor pivote. El intercambio se anota en P y se aplica también a los multiplicadores ya guardados en L`,
+          ...FieldMatrixUtils.toStepMatrix(field, upper),
+          operation: `R${col + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: col,
+          ...FieldMatrixUtils.toStepPivot(field, upper[col][col]),
+          factors: factors()
+        });
+      }
+
+      const pivot = upper[col][col];
+      if (field.isInvertible && !field.isInvertible(pivot)) {
+        const failureReason = `Ningún elemento de la columna ${col + 1} (desde la fila ${col + 1}) es invertible en ${field.name}, así que no se pueden calcular los multiplicadores con el pivote ${field.format(pivot)}`;
+        steps.push({
+          id: stepId++,
+          title: 'Pivote No Invertible',
+          description: `${failureReason}. La factorización LU no puede continuar.`,
+          ...FieldMatrixUtils.toStepMatrix(field, upper),
+          operation: `${field.format(pivot)}⁻¹ no existe`,
+          rowIndex: col,
+          ...FieldMatrixUtils.toStepPivot(field, pivot),
+          factors: factors()
+        });
+        return { steps, factorization, failureReason };
+      }
+
+      for (let i = col + 1; i < n; i++) {
+        if (field.isZero(upper[i][col])) {
+          continue;
+        }
+
+        const entry = upper[i][col];
+        const multiplier = field.div(entry, pivot);
+        lower[i][col] = multiplier;
+        upper[i] = upper[i].map((value, j) => field.sub(value, field.mul(multiplier, upper[col][j])));
+
+        steps.push({
+          id: stepId++,
+          title: `Multiplicador l${toSubscript(i + 1)}${toSubscript(col + 1)}`,
+          description: `l${toSubscript(i + 1)}${toSubscript(col + 1)} = (${field.format(entry)}) / (${field.format(pivot)}) = ${field.format(multiplier)}. Eliminamos el elemento en posición (${i + 1}, ${col + 1}) de U y guardamos el multiplicador en L`,
+          ...FieldMatrixUtils.toStepMatrix(field, upper),
+          operation: `R${i + 1} = R${i + 1} - (${field.format(multiplier)}) × R${col + 1}`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, pivot),
+          factors: factors()
+        });
+      }
+    }
+
+    const singularAt = upper.findIndex((row, i) => field.isZero(row[i]));
+    const check = FieldMatrixUtils.multiply(field, lower, upper);
+    const permuted = permutation.map(row => matrix[row]);
+    const verified = check.every((row, i) => row.every((value, j) => field.equals(value, permuted[i][j])));
+
+    steps.push({
+      id: stepId++,
+      title: 'Factorización PA = LU',
+      description: `U (la matriz mostrada) es triangular superior, L es triangular inferior con unos en la diagonal y P recoge los intercambios de filas.${verified ? ' Multiplicando se comprueba que PA = LU.' : ''}${singularAt !== -1 ? ` U tiene un cero en la diagonal (u${toSubscript(singularAt + 1)}${toSubscript(singularAt + 1)} = 0), así que A es singular.` : ''}`,
+      ...FieldMatrixUtils.toStepMatrix(field, upper),
+      operation: 'PA = LU',
+      factors: factors()
+    });
+
+    return { steps, factorization };
+  }
+
+  /**
+   * Resuelve Ax = b factorizando PA = LU y resolviendo Ly = Pb (hacia adelante) y Ux = y (hacia atrás)
+   */
+  static solve<T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>): {
+    steps: CalculationStep[];
+    solution: FieldSolution<T>;
+  } {
+    const n = matrix.length;
+    const { steps, factorization, failureReason } = this.decompose(field, matrix);
+    let stepId = steps.length + 1;
+    const { permutation, lower, upper } = factorization;
+    const failed = (reason: string): FieldSolution<T> => ({
+      variables: [],
+      isUnique: false,
+      hasNoSolution: false,
+      hasInfiniteSolutions: false,
+      failureReason: reason
+    });
+
+    if (failureReason) {
+      return { steps, solution: failed(failureReason) };
+    }
+
+    // Ly = Pb: L tiene unos en la diagonal, así que no hace falta dividir
+    const permutedConstants = permutation.map(row => constants[row]);
+    const y: T[] = [];
+    steps.push({
+      id: stepId++,
+      title: 'Sustitución Hacia Adelante',
+      description: `Como PA = LU, el sistema Ax = b equivale a LUx = Pb. Llamamos y = Ux y resolvemos primero Ly = Pb de arriba hacia abajo (Pb = b con las filas en el orden de P)`,
+      ...FieldMatrixUtils.toStepMatrix(field, FieldMatrixUtils.createAugmentedMatrix(lower, permutedConstants)),
+      operation: 'Ly = Pb'
+    });
+
+    for (let i = 0; i < n; i++) {
+      let sum = permutedConstants[i];
+      let terms = '';
+      for (let j = 0; j < i; j++) {
+        sum = field.sub(sum, field.mul(lower[i][j], y[j]));
+        if (!field.isZero(lower[i][j])) {
+          terms += ` - (${field.format(lower[i][j])})(${field.format(y[j])})`;
+        }
+      }
+      y.push(sum);
+
+      steps.push({
+        id: stepId++,
+        title: `Cálculo de y${i + 1}`,
+        description: `y${i + 1} = ${field.format(permutedConstants[i])}${terms} = ${field.format(sum)}`,
+        ...FieldMatrixUtils.toStepMatrix(field, FieldMatrixUtils.createAugmentedMatrix(lower, permutedConstants)),
+        operation: `y${i + 1} = ${field.format(sum)}`,
+        rowIndex: i
+      });
+    }
+
+    // Si no se puede dividir entre algún uᵢᵢ (cero, o no invertible en Z/nZ) no se puede sustituir
+    // hacia atrás: se clasifica el sistema comparando rangos
+    const blockedAt = upper.findIndex((row, i) => field.isZero(row[i]) || (field.isInvertible ? !field.isInvertible(row[i]) : false));
+    if (blockedAt !== -1) {
+      return { steps, solution: this.classifySingular(field, upper, y, blockedAt, steps, stepId) };
+    }
+
+    // Ux = y de abajo hacia arriba
+    const variables: T[] = new Array(n);
+    steps.push({
+      id: stepId++,
+      title: 'Sustitución Hacia Atrás',
+      description: 'Con y conocido resolvemos Ux = y desde la última ecuación hacia la primera',
+      ...FieldMatrixUtils.toStepMatrix(field, FieldMatrixUtils.createAugmentedMatrix(upper, y)),
+      operation: 'Ux = y'
+    });
+
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = y[i];
+      let terms = '';
+      for (let j = i + 1; j < n; j++) {
+        sum = field.sub(sum, field.mul(upper[i][j], variables[j]));
+        if (!field.isZero(upper[i][j])) {
+          terms += ` - (${field.format(upper[i][j])})(${field.format(variables[j])})`;
+        }
+      }
+      variables[i] = field.div(sum, upper[i][i]);
+
+      steps.push({
+        id: stepId++,
+        title: `Cálculo de x${i + 1}`,
+        description: `x${i + 1} = (${field.format(y[i])}${terms}) / ${field.format(upper[i][i])} = ${field.format(variables[i])}`,
+        ...FieldMatrixUtils.toStepMatrix(field, FieldMatrixUtils.createAugmentedMatrix(upper, y)),
+        operation: `x${i + 1} = ${field.format(variables[i])}`,
+        rowIndex: i
+      });
+    }
+
+    steps.push({
+      id: stepId++,
+      title: 'Ventaja de Factorizar',
+      description: `P, L y U solo dependen de A. La factorización cuesta del orden de n³/3 operaciones, pero cada nuevo término independiente b solo requiere las dos sustituciones (del orden de n² operaciones cada una): para resolver Ax = b₁, b₂, b₃, ... se factoriza una única vez y se reutilizan P, L y U`,
+      ...FieldMatrixUtils.toStepMatrix(field, upper),
+      operation: 'factorizar una vez, sustituir muchas',
+      factors: this.toStepFactors(field, factorization)
+    });
+
+    return {
+      steps,
+      solution: {
+        variables,
+        isUnique: true,
+        hasInfiniteSolutions: false,
+        hasNoSolution: false
+      }
+    };
+  }
+
+  /**
+   * Clasifica Ux = y cuando U tiene en la diagonal un cero (o un elemento no invertible en Z/nZ)
+   * comparando rango(U) con rango([U | y]):
+   * sin solución si difieren, infinitas soluciones (con su solución general) si coinciden
+   */
+  private static classifySingular<T>(
+    field: Field<T>,
+    upper: FieldMatrix<T>,
+    y: FieldVector<T>,
+    blockedAt: number,
+    steps: CalculationStep[],
+    stepId: number
+  ): FieldSolution<T> {
+    const n = upper.length;
+    const entry = upper[blockedAt][blockedAt];
+    const isSingular = field.isZero(entry);
+    const diagonal = `u${toSubscript(blockedAt + 1)}${toSubscript(blockedAt + 1)} = ${field.format(entry)}`;
+    const blocked = isSingular
+      ? `${diagonal} y la sustitución hacia atrás tendría que dividir entre cero`
+      : `${diagonal} no es invertible en ${field.name} y la sustitución hacia atrás no puede dividir entre él`;
+    const { rref, pivotColumns, failureReason } = FieldElimination.rref(field, FieldMatrixUtils.createAugmentedMatrix(upper, y));
+
+    const rank = pivotColumns.filter(col => col < n).length;
+    // Un pivote no invertible en la columna de b sigue siendo una fila [0 0 ... 0 | c] con c ≠ 0
+    const coefficientsReduced = rref.slice(rank).every(row => row.slice(0, n).every(value => field.isZero(value)));
+
+    if (failureReason && !coefficientsReduced) {
+      steps.push({
+        id: stepId++,
+        title: 'Pivote No Invertible',
+        description: `${blocked}, así que hay que reducir [U | y] para clasificar el sistema, pero: ${failureReason}`,
+        ...FieldMatrixUtils.toStepMatrix(field, rref),
+        operation: isSingular ? 'det(A) = 0' : 'det(A) no invertible'
+      });
+      return { variables: [], isUnique: false, hasNoSolution: false, hasInfiniteSolutions: false, failureReason };
+    }
+
+    steps.push({
+      id: stepId++,
+      title: isSingular ? 'Matriz Singular' : 'Diagonal No Invertible',
+      description: `${blocked}. Como [U | y] = L⁻¹P[A | b] tiene los mismos rangos que [A | b], la reducimos a forma escalonada reducida: rango(A) = ${rank}`,
+      ...FieldMatrixUtils.toStepMatrix(field, rref),
+      operation: isSingular ? 'det(A) = 0' : 'det(A) no invertible'
+    });
+
+    const inconsistentRow = rref.findIndex((row, i) => i >= rank && !field.isZero(row[n]));
+    if (inconsistentRow !== -1) {
+      const constant = field.format(rref[inconsistentRow][n]);
+      steps.push({
+        id: stepId++,
+        title: 'Sistema Inconsistente',
+        description: `La fila ${inconsistentRow + 1} queda como [0 0 ... 0 | ${constant}]: la ecuación 0 = ${constant} es imposible, por lo que el sistema no tiene solución (rango(A) = ${rank} < rango([A|b]) = ${rank + 1})`,
+        ...FieldMatrixUtils.toStepMatrix(field, rref),
+        operation: 'Sistema sin solución'
+      });
+      return { variables: [], isUnique: false, hasNoSolution: true, hasInfiniteSolutions: false };
+    }
+
+    const generalSolution = FieldElimination.buildGeneralSolution(field, rref, pivotColumns);
+    const freeNames = generalSolution.freeColumns.map(col => `x${col + 1}`).join(', ');
+    const combination = generalSolution.freeColumns
+      .map((_, k) => `t${toSubscript(k + 1)}v${toSubscript(k + 1)}`)
+      .join(' + ');
+    steps.push({
+      id: stepId++,
+      title: 'Sistema con Infinitas Soluciones',
+      description: `rango(A) = rango([A|b]) = ${rank} < ${n}. Las variables libres (${freeNames}) toman valores arbitrarios y las demás se despejan en función de ellas: x = p + ${combination}`,
+      ...FieldMatrixUtils.toStepMatrix(field, rref),
+      operation: `${generalSolution.freeColumns.length} variable(s) libre(s): ${freeNames}`
+    });
+
+    return {
+      variables: generalSolution.particular,
+      isUnique: false,
+      hasNoSolution: false,
+      hasInfiniteSolutions: true,
+      generalSolution
+    };
+  }
+
+  /**
+   * P y L para mostrar junto a U, que es la matriz principal de cada paso
+   */
+  private static toStepFactors<T>(field: Field<T>, factorization: FieldLUFactorization<T>) {
+    const n = factorization.permutation.length;
+    const permutationMatrix = factorization.permutation.map(row =>
+      Array.from({ length: n }, (_, j) => (j === row ? field.one() : field.zero()))
+    );
+    return [
+      FieldMatrixUtils.toStepFactor(field, 'P', permutationMatrix),
+      FieldMatrixUtils.toStepFactor(field, 'L', factorization.lower)
+    ];
+  }
+}
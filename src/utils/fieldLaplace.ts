@@ -0,0 +1,411 @@
+import type { CalculationStep, ExpansionChoices, ExpansionLine, LaplaceTerm, LaplaceTreeNode } from '../types/matrix';
+import type { FieldMatrix, Ring } from '../types/field';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+
+export type ExpansionType = 'row' | 'column';
+
+/**
+ * Expansión de LaPlace (cofactores) para cualquier anillo
+ */
+export class FieldLaplace {
+
+  /**
+   * Calcula el determinante usando expansión de LaPlace, generando los pasos. Cada matriz se
+   * desarrolla por la línea elegida en choices o, si no hay elección, por la de más ceros
+   */
+  static calculateDeterminant<T>(ring: Ring<T>, matrix: FieldMatrix<T>, choices: ExpansionChoices = {}): {
+    steps: CalculationStep[];
+    determinant: T;
+    terms: LaplaceTerm<T>[];
+    tree: LaplaceTreeNode;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepCounter = 1;
+
+    steps.push({
+      id: stepCounter++,
+      title: 'Matriz Original',
+      description: `Calculamos el determinante usando expansión por cofactores (Método de LaPlace, ${ring.name})`,
+      ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+      operation: 'det(A) usando LaPlace'
+    });
+
+    // Usar la fila/columna elegida o, si no hay elección, la de más ceros
+    const { line, optimal, isChosen } = this.chooseLine(ring, matrix, choices, '');
+    const zeroCount = this.countZeros(ring, matrix, line);
+    const expansion = matrix.length >= 3
+      ? { path: '', line, optimal: { type: optimal.type, index: optimal.index } }
+      : undefined;
+
+    if (isChosen) {
+      const minorCount = this.countMinors(ring, matrix, choices, '');
+      const optimalMinorCount = this.countMinors(ring, matrix, {}, '');
+      const comparison = minorCount > optimalMinorCount
+        ? `Tomando en cada nivel la línea con más ceros (aquí la ${this.lineName(optimal)}) se calcularían ${optimalMinorCount} menores en lugar de ${minorCount}: ${minorCount - optimalMinorCount} menos`
+        : minorCount < optimalMinorCount
+        ? `Tomando en cada nivel la línea con más ceros se calcularían ${optimalMinorCount} menores; con tus elecciones bastan ${minorCount}`
+        : `Con la línea de más ceros en cada nivel también se calcularían ${minorCount} menores`;
+
+      steps.push({
+        id: stepCounter++,
+        title: 'Selección de Fila/Columna',
+        description: `Expandiremos por la ${this.lineName(line)}, elegida por ti, que contiene ${zeroCount} cero(s). ${comparison}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `Usar ${this.lineName(line)} (${zeroCount} ceros)`,
+        expansion
+      });
+    } else {
+      steps.push({
+        id: stepCounter++,
+        title: 'Selección de Fila/Columna Óptima',
+        description: `Expandiremos por la ${this.lineName(line)} porque contiene ${zeroCount} cero(s), lo que simplifica el cálculo${expansion ? '. Puedes elegir otra fila o columna para esta matriz y para cada menor' : ''}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `Usar ${this.lineName(line)} (${zeroCount} ceros)`,
+        expansion
+      });
+    }
+
+    const result = this.expand(ring, matrix, line, choices, '', steps, stepCounter, 1);
+
+    return {
+      steps,
+      determinant: result.determinant,
+      terms: result.terms,
+      tree: result.node
+    };
+  }
+
+  /**
+   * Expande por una fila o columna específica; path es la ruta de menores que lleva a matrix.
+   * Devuelve también los términos con aᵢⱼ ≠ 0, con el menor ya calculado y su aporte a det
+   */
+  private static expand<T>(
+    ring: Ring<T>,
+    matrix: FieldMatrix<T>,
+    line: ExpansionLine,
+    choices: ExpansionChoices,
+    path: string,
+    steps: CalculationStep[],
+    stepCounter: number,
+    level: number
+  ): { determinant: T; nextStepId: number; node: LaplaceTreeNode; terms: LaplaceTerm<T>[] } {
+    const n = matrix.length;
+    const format = (value: T) => ring.format(value);
+    // Nodo del árbol de recursión; el padre le añade su posición, elemento y cofactor
+    const node = (determinant: T, children: LaplaceTreeNode[] = []): LaplaceTreeNode => ({
+      name: 'A',
+      path,
+      ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+      determinant: format(determinant),
+      children
+    });
+
+    if (n === 1) {
+      steps.push({
+        id: stepCounter++,
+        title: `Matriz 1×1 (Nivel ${level})`,
+        description: `det = ${format(matrix[0][0])}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `det = ${format(matrix[0][0])}`
+      });
+      return { determinant: matrix[0][0], nextStepId: stepCounter, node: node(matrix[0][0]), terms: [] };
+    }
+
+    if (n === 2) {
+      const det = this.determinant(ring, matrix);
+      steps.push({
+        id: stepCounter++,
+        title: `Determinante 2×2 (Nivel ${level})`,
+        description: `det = (${format(matrix[0][0])})(${format(matrix[1][1])}) - (${format(matrix[0][1])})(${format(matrix[1][0])}) = ${format(det)}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `det = ${format(det)}`
+      });
+      // Los menores de una matriz 2×2 son 1×1: su determinante es el propio elemento
+      const terms = matrix.flatMap((_, k): LaplaceTerm<T>[] => {
+        const i = line.type === 'row' ? line.index : k;
+        const j = line.type === 'row' ? k : line.index;
+        if (ring.isZero(matrix[i][j])) return [];
+        const minor = FieldMatrixUtils.getMinor(matrix, i, j);
+        const sign = (i + j) % 2 === 0 ? 1 : -1;
+        const product = ring.mul(matrix[i][j], minor[0][0]);
+        return [{ row: i, col: j, sign, entry: matrix[i][j], minor, minorDeterminant: minor[0][0], product: sign === 1 ? product : ring.neg(product) }];
+      });
+      return { determinant: det, nextStepId: stepCounter, node: node(det), terms };
+    }
+
+    const { type, index } = line;
+    const label = type === 'row' ? 'fila' : 'columna';
+    const labelTitle = type === 'row' ? 'Fila' : 'Columna';
+
+    // Cada término con aᵢⱼ ≠ 0 obliga a calcular un menor: se compara con la línea de más ceros
+    const optimal = this.findOptimalExpansionRowOrColumn(ring, matrix);
+    const minorCount = n - this.countZeros(ring, matrix, line);
+    const optimalMinorCount = n - optimal.zeroCount;
+
+    // Mostrar fórmula de expansión
+    steps.push({
+      id: stepCounter++,
+      title: `Fórmula de Expansión por ${labelTitle} ${index + 1} (Nivel ${level})`,
+      description: `${this.buildExpansionFormula(ring, matrix, index, type)}${minorCount > optimalMinorCount ? `. Esta ${label} necesita ${minorCount} menores; la ${this.lineName(optimal)}, con ${optimal.zeroCount} cero(s), habría necesitado ${optimalMinorCount} (${minorCount - optimalMinorCount} menos)` : ''}`,
+      ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+      operation: `Expansión por ${label} ${index + 1}`,
+      highlightedCells: matrix.map((_, k) => (type === 'row' ? [index, k] : [k, index]) as [number, number]),
+      // La matriz A ya se elige en el paso de selección
+      expansion: path ? { path, line, optimal: { type: optimal.type, index: optimal.index } } : undefined
+    });
+
+    let determinant = ring.zero();
+    let currentStepId = stepCounter;
+    const children: LaplaceTreeNode[] = [];
+    const terms: LaplaceTerm<T>[] = [];
+
+    for (let k = 0; k < n; k++) {
+      const i = type === 'row' ? index : k;
+      const j = type === 'row' ? k : index;
+      const element = matrix[i][j];
+
+      if (ring.isZero(element)) {
+        // Si el elemento es cero, saltamos este término
+        steps.push({
+          id: currentStepId++,
+          title: `Término (${i + 1},${j + 1}) = 0 (Omitido)`,
+          description: `Como a${i + 1}${j + 1} = 0, este término no contribuye al determinante. No es necesario calcular la menor M${i + 1}${j + 1}.`,
+          ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+          operation: `Término omitido: 0 × M${i + 1}${j + 1} = 0`
+        });
+        continue;
+      }
+
+      // Obtener la menor
+      const minor = FieldMatrixUtils.getMinor(matrix, i, j);
+
+      // Mostrar la matriz original con la fila y columna tachadas visualmente
+      steps.push({
+        id: currentStepId++,
+        title: `Cálculo de Menor M${i + 1}${j + 1}`,
+        description: `Para obtener M${i + 1}${j + 1}, eliminamos la fila ${i + 1} y columna ${j + 1} de la matriz original.`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `Eliminar fila ${i + 1}, columna ${j + 1}`,
+        excludedRow: i,
+        excludedCol: j
+      });
+
+      steps.push({
+        id: currentStepId++,
+        title: `Menor M${i + 1}${j + 1} Resultante`,
+        description: `Esta es la matriz menor obtenida:`,
+        ...FieldMatrixUtils.toStepMatrix(ring, minor),
+        operation: `M${i + 1}${j + 1}`
+      });
+
+      // Calcular el determinante de la menor recursivamente, con su propia línea de expansión
+      const minorPath = this.minorPath(path, i, j);
+      const minorLine = this.chooseLine(ring, minor, choices, minorPath).line;
+      const minorResult = this.expand(ring, minor, minorLine, choices, minorPath, steps, currentStepId, level + 1);
+      currentStepId = minorResult.nextStepId;
+
+      const cofactor = (i + j) % 2 === 0 ? minorResult.determinant : ring.neg(minorResult.determinant);
+      const contribution = ring.mul(element, cofactor);
+      determinant = ring.add(determinant, contribution);
+      terms.push({
+        row: i,
+        col: j,
+        sign: (i + j) % 2 === 0 ? 1 : -1,
+        entry: element,
+        minor,
+        minorDeterminant: minorResult.determinant,
+        product: contribution
+      });
+      children.push({
+        ...minorResult.node,
+        name: `M${i + 1}${j + 1}`,
+        position: [i, j],
+        element: format(element),
+        cofactor: format(cofactor),
+        contribution: format(contribution)
+      });
+
+      steps.push({
+        id: currentStepId++,
+        title: `Cofactor C${i + 1}${j + 1}`,
+        description: `C${i + 1}${j + 1} = (-1)^(${i + 1}+${j + 1}) × det(M${i + 1}${j + 1}) = (-1)^${i + j + 2} × ${format(minorResult.determinant)} = ${format(cofactor)}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: `C${i + 1}${j + 1} = ${format(cofactor)}`
+      });
+
+      steps.push({
+        id: currentStepId++,
+        title: `Contribución: a${i + 1}${j + 1} × C${i + 1}${j + 1}`,
+        description: `(${format(element)}) × (${format(cofactor)}) = ${format(contribution)}`,
+        ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+        operation: this.formatSigned(ring, contribution)
+      });
+    }
+
+    steps.push({
+      id: currentStepId++,
+      title: `Determinante (Nivel ${level})`,
+      description: `Suma de todos los términos de la expansión por ${label} ${index + 1}`,
+      ...FieldMatrixUtils.toStepMatrix(ring, matrix),
+      operation: `det = ${format(determinant)}`
+    });
+
+    return {
+      determinant,
+      nextStepId: currentStepId,
+      node: { ...node(determinant, children), line, omittedTerms: n - children.length },
+      terms
+    };
+  }
+
+  /**
+   * Construye la fórmula de expansión mostrando qué términos son cero
+   */
+  private static buildExpansionFormula<T>(ring: Ring<T>, matrix: FieldMatrix<T>, index: number, type: ExpansionType): string {
+    const terms = matrix.map((_, k) => {
+      const i = type === 'row' ? index : k;
+      const j = type === 'row' ? k : index;
+      const value = matrix[i][j];
+      const sign = (i + j) % 2 === 0 ? '+' : '-';
+      const displaySign = k === 0 ? (sign === '-' ? '-' : '') : ` ${sign} `;
+      return `${displaySign}(${ring.isZero(value) ? '0' : ring.format(value)}) × M${i + 1}${j + 1}`;
+    });
+
+    return `det = ${terms.join('')}`;
+  }
+
+  /**
+   * Línea elegida para la matriz de la ruta dada, o la de más ceros si no hay una elección válida
+   */
+  private static chooseLine<T>(ring: Ring<T>, matrix: FieldMatrix<T>, choices: ExpansionChoices, path: string): {
+    line: ExpansionLine;
+    optimal: { type: ExpansionType; index: number; zeroCount: number };
+    isChosen: boolean;
+  } {
+    const optimal = this.findOptimalExpansionRowOrColumn(ring, matrix);
+    const choice = choices[path];
+    const isChosen = choice !== undefined && choice.index >= 0 && choice.index < matrix.length;
+    return { line: isChosen ? choice : { type: optimal.type, index: optimal.index }, optimal, isChosen };
+  }
+
+  /**
+   * Número de menores que calcula la expansión con las elecciones dadas (sin contar los de aᵢⱼ = 0)
+   */
+  private static countMinors<T>(ring: Ring<T>, matrix: FieldMatrix<T>, choices: ExpansionChoices, path: string): number {
+    const n = matrix.length;
+    if (n < 3) return 0;
+
+    const { line } = this.chooseLine(ring, matrix, choices, path);
+    let count = 0;
+
+    for (let k = 0; k < n; k++) {
+      const i = line.type === 'row' ? line.index : k;
+      const j = line.type === 'row' ? k : line.index;
+      if (ring.isZero(matrix[i][j])) continue;
+
+      count += 1 + this.countMinors(ring, FieldMatrixUtils.getMinor(matrix, i, j), choices, this.minorPath(path, i, j));
+    }
+
+    return count;
+  }
+
+  private static countZeros<T>(ring: Ring<T>, matrix: FieldMatrix<T>, line: ExpansionLine): number {
+    return line.type === 'row'
+      ? matrix[line.index].filter(value => ring.isZero(value)).length
+      : matrix.filter(row => ring.isZero(row[line.index])).length;
+  }
+
+  private static minorPath(path: string, row: number, col: number): string {
+    return `${path ? `${path}/` : ''}${row + 1},${col + 1}`;
+  }
+
+  private static lineName(line: ExpansionLine): string {
+    return `${line.type === 'row' ? 'fila' : 'columna'} ${line.index + 1}`;
+  }
+
+  /**
+   * Formatea un valor con su signo explícito (+x o -x)
+   */
+  private static formatSigned<T>(ring: Ring<T>, value: T): string {
+    const text = ring.format(value);
+    return text.startsWith('-') ? text : `+${text}`;
+  }
+
+  /**
+   * Calcula el determinante por cofactores sin generar pasos
+   */
+  static determinant<T>(ring: Ring<T>, matrix: FieldMatrix<T>): T {
+    const n = matrix.length;
+
+    if (n === 0) {
+      return ring.one();
+    }
+
+    if (n === 1) {
+      return matrix[0][0];
+    }
+
+    if (n === 2) {
+      return ring.sub(ring.mul(matrix[0][0], matrix[1][1]), ring.mul(matrix[0][1], matrix[1][0]));
+    }
+
+    // Encontrar la mejor fila/columna para expandir
+    const optimal = this.findOptimalExpansionRowOrColumn(ring, matrix);
+    let determinant = ring.zero();
+
+    for (let k = 0; k < n; k++) {
+      const i = optimal.type === 'row' ? optimal.index : k;
+      const j = optimal.type === 'row' ? k : optimal.index;
+      if (ring.isZero(matrix[i][j])) continue;
+
+      const cofactor = this.cofactor(ring, matrix, i, j);
+      determinant = ring.add(determinant, ring.mul(matrix[i][j], cofactor));
+    }
+
+    return determinant;
+  }
+
+  /**
+   * Obtiene el cofactor Cᵢⱼ = (-1)^(i+j) × det(Mᵢⱼ)
+   */
+  static cofactor<T>(ring: Ring<T>, matrix: FieldMatrix<T>, row: number, col: number): T {
+    const minorDet = this.determinant(ring, FieldMatrixUtils.getMinor(matrix, row, col));
+    return (row + col) % 2 === 0 ? minorDet : ring.neg(minorDet);
+  }
+
+  /**
+   * Optimiza la selección de fila/columna para la expansión (la que tiene más ceros)
+   */
+  static findOptimalExpansionRowOrColumn<T>(ring: Ring<T>, matrix: FieldMatrix<T>): {
+    type: ExpansionType;
+    index: number;
+    zeroCount: number;
+  } {
+    const n = matrix.length;
+    let bestType: ExpansionType = 'row';
+    let bestIndex = 0;
+    let maxZeros = 0;
+
+    // Revisar filas
+    for (let i = 0; i < n; i++) {
+      const zeros = matrix[i].filter(value => ring.isZero(value)).length;
+      if (zeros > maxZeros) {
+        maxZeros = zeros;
+        bestType = 'row';
+        bestIndex = i;
+      }
+    }
+
+    // Revisar columnas
+    for (let j = 0; j < n; j++) {
+      const zeros = matrix.filter(row => ring.isZero(row[j])).length;
+      if (zeros > maxZeros) {
+        maxZeros = zeros;
+        bestType = 'column';
+        bestIndex = j;
+      }
+    }
+
+    return { type: bestType, index: bestIndex, zeroCount: maxZeros };
+  }
+}
@@ -0,0 +1,184 @@
+import type { CalculationStep, GeneralSolution, Solution, StepFactor, SubspaceAnalysis, VectorBasis } from '../types/matrix';
+import type { Field, FieldGeneralSolution, FieldMatrix, FieldSolution, FieldSubspaceAnalysis, FieldVector, Ring } from '../types/field';
+
+/**
+ * Utilidades de matrices independientes del sistema numérico
+ */
+export class FieldMatrixUtils {
+
+  /**
+   * Clona una matriz (los elementos son inmutables, basta con copiar las filas)
+   */
+  static cloneMatrix<T>(matrix: FieldMatrix<T>): FieldMatrix<T> {
+    return matrix.map(row => [...row]);
+  }
+
+  /**
+   * Obtiene la menor de un elemento (matriz sin la fila y columna especificadas)
+   */
+  static getMinor<T>(matrix: FieldMatrix<T>, excludeRow: number, excludeCol: number): FieldMatrix<T> {
+    return matrix
+      .filter((_, rowIndex) => rowIndex !== excludeRow)
+      .map(row => row.filter((_, colIndex) => colIndex !== excludeCol));
+  }
+
+  /**
+   * Crea una matriz identidad del tamaño especificado
+   */
+  static createIdentityMatrix<T>(ring: Ring<T>, size: number): FieldMatrix<T> {
+    return Array.from({ length: size }, (_, i) =>
+      Array.from({ length: size }, (_, j) => (i === j ? ring.one() : ring.zero()))
+    );
+  }
+
+  /**
+   * Crea una matriz aumentada [A | b]
+   */
+  static createAugmentedMatrix<T>(matrix: FieldMatrix<T>, constants: FieldVector<T>): FieldMatrix<T> {
+    return matrix.map((row, i) => [...row, constants[i]]);
+  }
+
+  /**
+   * Transpone una matriz
+   */
+  static transpose<T>(matrix: FieldMatrix<T>): FieldMatrix<T> {
+    if (matrix.length === 0) return [];
+    return matrix[0].map((_, j) => matrix.map(row => row[j]));
+  }
+
+  /**
+   * Multiplica dos matrices
+   */
+  static multiply<T>(ring: Ring<T>, a: FieldMatrix<T>, b: FieldMatrix<T>): FieldMatrix<T> {
+    return a.map(row =>
+      b[0].map((_, j) =>
+        row.reduce((sum, value, k) => ring.add(sum, ring.mul(value, b[k][j])), ring.zero())
+      )
+    );
+  }
+
+  /**
+   * Verifica si una matriz es la identidad
+   */
+  static isIdentity<T>(ring: Ring<T>, matrix: FieldMatrix<T>): boolean {
+    return matrix.every((row, i) =>
+      row.every((value, j) => (i === j ? ring.equals(value, ring.one()) : ring.isZero(value)))
+    );
+  }
+
+  /**
+   * Encuentra el mejor pivote de una columna (el de mayor magnitud según el campo)
+   */
+  static findPivot<T>(field: Field<T>, matrix: FieldMatrix<T>, startRow: number, col: number): number {
+    let pivotRow = startRow;
+    for (let i = startRow + 1; i < matrix.length; i++) {
+      if (field.compare(matrix[i][col], matrix[pivotRow][col]) > 0) {
+        pivotRow = i;
+      }
+    }
+    return pivotRow;
+  }
+
+  /**
+   * Matrices para mostrar en un paso: decimal siempre y exacta si el sistema lo permite
+   */
+  static toStepMatrix<T>(ring: Ring<T>, matrix: FieldMatrix<T>): Pick<CalculationStep, 'matrix' | 'fractionMatrix' | 'complexMatrix' | 'symbolicMatrix'> {
+    const toFraction = ring.toFraction;
+    const toComplex = ring.toComplex;
+    const toPolynomial = ring.toPolynomial;
+    return {
+      matrix: matrix.map(row => row.map(value => ring.toNumber(value))),
+      fractionMatrix: toFraction ? matrix.map(row => row.map(value => toFraction(value))) : undefined,
+      complexMatrix: toComplex ? matrix.map(row => row.map(value => toComplex(value))) : undefined,
+      symbolicMatrix: toPolynomial ? matrix.map(row => row.map(value => toPolynomial(value))) : undefined,
+    };
+  }
+
+  /**
+   * Matriz auxiliar con nombre para mostrar junto a la principal de un paso
+   */
+  static toStepFactor<T>(ring: Ring<T>, name: string, matrix: FieldMatrix<T>): StepFactor {
+    const { matrix: decimal, fractionMatrix, complexMatrix } = this.toStepMatrix(ring, matrix);
+    return { name, matrix: decimal, fractionMatrix, complexMatrix };
+  }
+
+  /**
+   * Pivote para mostrar en un paso
+   */
+  static toStepPivot<T>(ring: Ring<T>, value: T): Pick<CalculationStep, 'pivotElement' | 'pivotFraction' | 'pivotComplex'> {
+    return {
+      pivotElement: ring.toNumber(value),
+      pivotFraction: ring.toFraction?.(value),
+      pivotComplex: ring.toComplex?.(value),
+    };
+  }
+
+  /**
+   * Convierte una solución genérica al formato Solution que muestra la interfaz
+   */
+  static toSolution<T>(ring: Ring<T>, solution: FieldSolution<T>): Solution {
+    const toFraction = ring.toFraction;
+    const toComplex = ring.toComplex;
+    return {
+      variables: solution.variables.map(value => ring.toNumber(value)),
+      fractionVariables: toFraction ? solution.variables.map(value => toFraction(value)) : undefined,
+      determinant: solution.determinant !== undefined ? ring.toNumber(solution.determinant) : undefined,
+      fractionDeterminant: toFraction && solution.determinant !== undefined ? toFraction(solution.determinant) : undefined,
+      complexVariables: toComplex ? solution.variables.map(value => toComplex(value)) : undefined,
+      complexDeterminant: toComplex && solution.determinant !== undefined ? toComplex(solution.determinant) : undefined,
+      isUnique: solution.isUnique,
+      hasInfiniteSolutions: solution.hasInfiniteSolutions,
+      hasNoSolution: solution.hasNoSolution,
+      failureReason: solution.failureReason,
+      generalSolution: solution.generalSolution ? this.toGeneralSolution(ring, solution.generalSolution) : undefined
+    };
+  }
+
+  /**
+   * Convierte la forma paramétrica genérica al formato que muestra la interfaz
+   */
+  static toGeneralSolution<T>(ring: Ring<T>, general: FieldGeneralSolution<T>): GeneralSolution {
+    const toFraction = ring.toFraction;
+    const toComplex = ring.toComplex;
+    return {
+      particular: general.particular.map(value => ring.toNumber(value)),
+      directions: general.directions.map(vector => vector.map(value => ring.toNumber(value))),
+      fractionParticular: toFraction ? general.particular.map(value => toFraction(value)) : undefined,
+      fractionDirections: toFraction ? general.directions.map(vector => vector.map(value => toFraction(value))) : undefined,
+      complexParticular: toComplex ? general.particular.map(value => toComplex(value)) : undefined,
+      complexDirections: toComplex ? general.directions.map(vector => vector.map(value => toComplex(value))) : undefined,
+      pivotColumns: general.pivotColumns,
+      freeColumns: general.freeColumns
+    };
+  }
+
+  /**
+   * Convierte el análisis de subespacios genérico al formato que muestra la interfaz
+   */
+  static toSubspaceAnalysis<T>(ring: Ring<T>, matrix: FieldMatrix<T>, subspaces: FieldSubspaceAnalysis<T>): SubspaceAnalysis {
+    return {
+      rows: matrix.length,
+      cols: matrix.length > 0 ? matrix[0].length : 0,
+      rank: subspaces.rank,
+      pivotColumns: subspaces.pivotColumns,
+      nullSpace: this.toVectorBasis(ring, subspaces.nullSpace),
+      columnSpace: this.toVectorBasis(ring, subspaces.columnSpace),
+      rowSpace: this.toVectorBasis(ring, subspaces.rowSpace),
+      leftNullSpace: this.toVectorBasis(ring, subspaces.leftNullSpace),
+      failureReason: subspaces.failureReason
+    };
+  }
+
+  /**
+   * Vectores de una base en decimal y, si el sistema lo permite, en forma exacta
+   */
+  static toVectorBasis<T>(ring: Ring<T>, vectors: T[][]): VectorBasis {
+    const toFraction = ring.toFraction;
+    const toComplex = ring.toComplex;
+    return {
+      vectors: vectors.map(vector => vector.map(value => ring.toNumber(value))),
+      fractionVectors: toFraction ? vectors.map(vector => vector.map(value => toFraction(value))) : undefined,
+      complexVectors: toComplex ? vectors.map(vector => vector.map(value => toComplex(value))) : undefined
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import type { CalculationStep } from '../types/matrix';
+import type { Field, FieldMatrix, FieldSubspaceAnalysis } from '../types/field';
+import { FieldElimination } from './fieldElimination';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+
+/**
+ * Rango y subespacios fundamentales (nulo, columna, fila y nulo izquierdo) sobre cualquier campo
+ */
+export class FieldSubspaces {
+
+  /**
+   * Reduce A a su forma escalonada reducida y lee de ella el rango y una base de cada subespacio.
+   * El espacio nulo izquierdo se obtiene reduciendo también Aᵀ
+   */
+  static analyze<T>(field: Field<T>, matrix: FieldMatrix<T>): {
+    steps: CalculationStep[];
+    subspaces: FieldSubspaceAnalysis<T>;
+  } {
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const reduction = FieldElimination.rrefWithSteps(field, matrix);
+    const steps = reduction.steps;
+    let stepId = steps.length + 1;
+    const { rref, pivotColumns } = reduction;
+
+    if (reduction.failureReason) {
+      return {
+        steps,
+        subspaces: {
+          rank: pivotColumns.length,
+          pivotColumns,
+          rref,
+          nullSpace: [],
+          columnSpace: [],
+          rowSpace: [],
+          leftNullSpace: [],
+          failureReason: reduction.failureReason
+        }
+      };
+    }
+
+    const rank = pivotColumns.length;
+    const pivotNames = pivotColumns.map(col => col + 1).join(', ');
+
+    steps.push({
+      id: stepId++,
+      title: 'Rango y Columnas Pivote',
+      description: rank > 0
+        ? `La forma escalonada reducida tiene ${rank} pivote(s), en las columnas ${pivotNames}, así que rango(A) = ${rank}`
+        : 'A es la matriz nula: no hay pivotes y rango(A) = 0',
+      ...FieldMatrixUtils.toStepMatrix(field, rref),
+      operation: `rango(A) = ${rank}`
+    });
+
+    // C(A): las operaciones de fila conservan las relaciones de dependencia entre columnas
+    const columnSpace = pivotColumns.map(col => matrix.map(row => row[col]));
+    steps.push({
+      id: stepId++,
+      title: 'Espacio Columna C(A)',
+      description: rank > 0
+        ? `Las operaciones de fila no cambian qué columnas son combinación de otras, así que las columnas ${pivotNames} de la matriz original A forman una base de C(A). dim C(A) = ${rank}`
+        : 'C(A) = {0}: todas las columnas de A son nulas',
+      ...FieldMatrixUtils.toStepMatrix(field, this.asColumns(field, columnSpace, rows)),
+      operation: `dim C(A) = ${rank}`
+    });
+
+    // F(A): las operaciones de fila no cambian el espacio generado por las filas
+    const rowSpace = rref.slice(0, rank);
+    steps.push({
+      id: stepId++,
+      title: 'Espacio Fila F(A)',
+      description: rank > 0
+        ? `Las operaciones de fila no cambian el espacio generado por las filas, y las ${rank} filas no nulas de la forma escalonada reducida son independientes: forman una base de F(A). dim F(A) = ${rank}`
+        : 'F(A) = {0}: todas las filas de A son nulas',
+      ...FieldMatrixUtils.toStepMatrix(field, rowSpace.length > 0 ? rowSpace : [Array.from({ length: cols }, () => field.zero())]),
+      operation: `dim F(A) = ${rank}`
+    });
+
+    // N(A): cada variable libre de Ax = 0 aporta un vector de la base
+    const nullSpace = this.nullSpaceBasis(field, rref, pivotColumns);
+    steps.push({
+      id: stepId++,
+      title: 'Espacio Nulo N(A)',
+      description: nullSpace.length > 0
+        ? `Resolvemos Ax = 0 con la forma escalonada reducida: las variables libres (${this.freeNames(cols, pivotColumns)}) toman valores arbitrarios y cada una aporta un vector de la base, con un 1 en su posición y -aᵢⱼ en las variables pivote. dim N(A) = ${cols} - ${rank} = ${nullSpace.length} (teorema del rango)`
+        : `Todas las columnas tienen pivote, así que Ax = 0 solo tiene la solución trivial: N(A) = {0}. dim N(A) = ${cols} - ${rank} = 0`,
+      ...FieldMatrixUtils.toStepMatrix(field, this.asColumns(field, nullSpace, cols)),
+      operation: `dim N(A) = ${nullSpace.length}`
+    });
+
+    // N(Aᵀ): mismo procedimiento sobre la traspuesta
+    const transpose = FieldMatrixUtils.transpose(matrix);
+    const transposeReduction = FieldElimination.rref(field, transpose);
+    steps.push({
+      id: stepId++,
+      title: 'Forma Escalonada de Aᵀ',
+      description: `El espacio nulo izquierdo son los y con yᵀA = 0, es decir, Aᵀy = 0. Reducimos Aᵀ (${cols}×${rows}); vuelve a tener ${rank} pivote(s) porque rango(Aᵀ) = rango(A)`,
+      ...FieldMatrixUtils.toStepMatrix(field, transposeReduction.rref),
+      operation: `rref(Aᵀ)`
+    });
+
+    if (transposeReduction.failureReason) {
+      return {
+        steps,
+        subspaces: {
+          rank,
+          pivotColumns,
+          rref,
+          nullSpace,
+          columnSpace,
+          rowSpace,
+          leftNullSpace: [],
+          failureReason: `No se puede obtener N(Aᵀ): ${transposeReduction.failureReason}`
+        }
+      };
+    }
+
+    const leftNullSpace = this.nullSpaceBasis(field, transposeReduction.rref, transposeReduction.pivotColumns);
+    steps.push({
+      id: stepId++,
+      title: 'Espacio Nulo Izquierdo N(Aᵀ)',
+      description: leftNullSpace.length > 0
+        ? `Cada variable libre de Aᵀy = 0 (${this.freeNames(rows, transposeReduction.pivotColumns, 'y')}) aporta un vector de la base. dim N(Aᵀ) = ${rows} - ${rank} = ${leftNullSpace.length}`
+        : `Las filas de A son independientes, así que Aᵀy = 0 solo tiene la solución trivial: N(Aᵀ) = {0}. dim N(Aᵀ) = ${rows} - ${rank} = 0`,
+      ...FieldMatrixUtils.toStepMatrix(field, this.asColumns(field, leftNullSpace, rows)),
+      operation: `dim N(Aᵀ) = ${leftNullSpace.length}`
+    });
+
+    return {
+      steps,
+      subspaces: { rank, pivotColumns, rref, nullSpace, columnSpace, rowSpace, leftNullSpace }
+    };
+  }
+
+  /**
+   * Base del espacio nulo a partir de la forma escalonada reducida (soluciones de Ax = 0)
+   */
+  private static nullSpaceBasis<T>(field: Field<T>, rref: FieldMatrix<T>, pivotColumns: number[]): T[][] {
+    const homogeneous = rref.map(row => [...row, field.zero()]);
+    return FieldElimination.buildGeneralSolution(field, homogeneous, pivotColumns).directions;
+  }
+
+  /**
+   * Coloca los vectores como columnas de una matriz; sin vectores muestra el vector cero
+   */
+  private static asColumns<T>(field: Field<T>, vectors: T[][], length: number): FieldMatrix<T> {
+    if (vectors.length === 0) {
+      return Array.from({ length }, () => [field.zero()]);
+    }
+    return FieldMatrixUtils.transpose(vectors);
+  }
+
+  private static freeNames(count: number, pivotColumns: number[], variable = 'x'): string {
+    return Array.from({ length: count }, (_, col) => col)
+      .filter(col => !pivotColumns.includes(col))
+      .map(col => `${variable}${col + 1}`)
+      .join(', ');
+  }
+}
@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import type { Field, FieldMatrix, FieldSolution, FieldVector } from '../types/field';
+import { FieldBareiss } from './fieldBareiss';
+import { FieldCramer } from './fieldCramer';
+import { FieldElimination } from './fieldElimination';
+import { FieldLU } from './fieldLU';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { FieldSubspaces } from './fieldSubspaces';
+import { createModularField, RationalField } from './fields';
+
+type Solver = <T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>) => FieldSolution<T>;
+
+const solvers: Record<string, Solver> = {
+  'Gauss-Jordan': (field, matrix, constants) => FieldElimination.solveGaussJordan(field, matrix, constants).solution,
+  'eliminación gaussiana': (field, matrix, constants) => FieldElimination.solveGaussian(field, matrix, constants).solution,
+  'Montante (Bareiss)': (field, matrix, constants) => FieldBareiss.solve(field, matrix, constants).solution,
+  'LU': (field, matrix, constants) => FieldLU.solve(field, matrix, constants).solution,
+  'Cramer': (field, matrix, constants) => FieldCramer.solve(field, matrix, constants).solution
+};
+
+// LU y Cramer solo resuelven sistemas cuadrados
+const rectangularSolvers = ['Gauss-Jordan', 'eliminación gaussiana', 'Montante (Bareiss)'];
+
+const toField = <T>(field: Field<T>, rows: number[][]): FieldMatrix<T> =>
+  rows.map(row => row.map(value => field.fromInteger(value)));
+
+// Generador de Park-Miller: matrices aleatorias pero reproducibles
+const seeded = (seed: number) => (max: number) => {
+  seed = (seed * 16807) % 2147483647;
+  return seed % max;
+};
+
+const randomRows = (next: (max: number) => number, rows: number, cols: number, min: number, max: number): number[][] =>
+  Array.from({ length: rows }, () => Array.from({ length: cols }, () => min + next(max - min + 1)));
+
+const apply = <T>(field: Field<T>, matrix: FieldMatrix<T>, vector: FieldVector<T>): FieldVector<T> =>
+  FieldMatrixUtils.multiply(field, matrix, vector.map(value => [value])).map(row => row[0]);
+
+const expectVectorEquals = <T>(field: Field<T>, actual: FieldVector<T>, expected: FieldVector<T>, message: string) => {
+  const format = (vector: FieldVector<T>) => `(${vector.map(value => field.format(value)).join(', ')})`;
+  expect(actual.every((value, i) => field.equals(value, expected[i])), `${message}: ${format(actual)} ≠ ${format(expected)}`).toBe(true);
+};
+
+/**
+ * Cuenta las soluciones de Ax = b en Z/nZ probando todos los vectores posibles
+ */
+const countModularSolutions = (modulus: number, matrix: FieldMatrix<bigint>, constants: FieldVector<bigint>): number => {
+  const field = createModularField(modulus);
+  const cols = matrix[0].length;
+  let count = 0;
+  for (let index = 0; index < modulus ** cols; index++) {
+    const candidate = Array.from({ length: cols }, (_, j) => BigInt(Math.floor(index / modulus ** j) % modulus));
+    if (apply(field, matrix, candidate).every((value, i) => field.equals(value, constants[i]))) {
+      count++;
+    }
+  }
+  return count;
+};
+
+/**
+ * Comprueba que la solución general x = p + t₁v₁ + ... + tₖvₖ cumple Ap = b y Av = 0 para cada dirección
+ */
+const expectGeneralSolution = <T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>, solution: FieldSolution<T>, name: string) => {
+  expect(solution.generalSolution, `${name}: falta la solución general`).toBeDefined();
+  const general = solution.generalSolution;
+  if (!general) return;
+  const zero = constants.map(() => field.zero());
+  expectVectorEquals(field, apply(field, matrix, general.particular), constants, `${name}: A·p`);
+  general.directions.forEach((direction, k) => {
+    expectVectorEquals(field, apply(field, matrix, direction), zero, `${name}: A·v${k + 1}`);
+  });
+};
+
+/**
+ * Comprueba que la solución cumple Ax = b: la única solución, o la solución general si hay infinitas
+ */
+const expectSolves = <T>(field: Field<T>, matrix: FieldMatrix<T>, constants: FieldVector<T>, solution: FieldSolution<T>, name: string) => {
+  if (solution.isUnique) {
+    expectVectorEquals(field, apply(field, matrix, solution.variables), constants, `${name}: A·x`);
+  }
+  if (solution.hasInfiniteSolutions) {
+    expectGeneralSolution(field, matrix, constants, solution, name);
+  }
+};
+
+/**
+ * Resuelve con cada método y contrasta la clasificación con el recuento exhaustivo de soluciones.
+ * Un método puede rendirse (failureReason) ante un pivote no invertible, pero nunca dar una respuesta falsa
+ */
+const expectModularSystem = (modulus: number, rows: number[][], values: number[], names = Object.keys(solvers)): number => {
+  const field = createModularField(modulus);
+  const matrix = toField(field, rows);
+  const constants = values.map(value => field.fromInteger(value));
+  const count = countModularSolutions(modulus, matrix, constants);
+  let solved = 0;
+
+  for (const name of names) {
+    const solution = solvers[name](field, matrix, constants);
+    if (solution.failureReason) continue;
+    solved++;
+    const label = `${name} en ${field.name} con A = ${JSON.stringify(rows)}, b = ${JSON.stringify(values)}`;
+    expect(solution.isUnique, `${label}: solución única`).toBe(count === 1);
+    expect(solution.hasNoSolution, `${label}: sin solución`).toBe(count === 0);
+    expect(solution.hasInfiniteSolutions, `${label}: varias soluciones`).toBe(count > 1);
+    expectSolves(field, matrix, constants, solution, label);
+  }
+  return solved;
+};
+
+describe('sistemas en Z/nZ con n compuesto', () => {
+  it('resuelve A·x = b con A invertible módulo 6 aunque a₁₁ = 0', () => {
+    // det(A) = 5 es invertible, pero ningún elemento de la primera columna (0, 2, 3) lo es:
+    // la eliminación debe rendirse en lugar de saltarse la columna, y Cramer sí llega a la solución
+    expectModularSystem(6, [[0, 1, 1], [2, 0, 1], [3, 1, 0]], [1, 1, 1]);
+
+    const field = createModularField(6);
+    const matrix = toField(field, [[0, 1, 1], [2, 0, 1], [3, 1, 0]]);
+    const solution = FieldCramer.solve(field, matrix, [1n, 1n, 1n]).solution;
+    expect(solution.isUnique).toBe(true);
+    expectSolves(field, matrix, [1n, 1n, 1n], solution, 'Cramer');
+  });
+
+  it('no da una solución falsa con det = 2 módulo 4', () => {
+    expectModularSystem(4, [[0, 1], [2, 0]], [1, 0]);
+  });
+
+  it('no da una solución falsa cuando b tiene un divisor de cero tras eliminar', () => {
+    expectModularSystem(6, [[1, 1], [1, 1]], [1, 3]);
+  });
+
+  it.each([4, 6, 9])('clasifica sistemas cuadrados aleatorios módulo %i como el recuento exhaustivo', modulus => {
+    const next = seeded(modulus);
+    let solved = 0;
+    for (let trial = 0; trial < 30; trial++) {
+      const size = 2 + (trial % 2);
+      solved += expectModularSystem(modulus, randomRows(next, size, size, 0, modulus - 1), randomRows(next, 1, size, 0, modulus - 1)[0]);
+    }
+    expect(solved).toBeGreaterThan(0);
+  });
+
+  it.each([4, 6])('clasifica sistemas rectangulares aleatorios módulo %i como el recuento exhaustivo', modulus => {
+    const next = seeded(modulus + 100);
+    for (let trial = 0; trial < 20; trial++) {
+      const [rows, cols] = trial % 2 === 0 ? [2, 3] : [3, 2];
+      expectModularSystem(modulus, randomRows(next, rows, cols, 0, modulus - 1), randomRows(next, 1, rows, 0, modulus - 1)[0], rectangularSolvers);
+    }
+  });
+});
+
+describe('sistemas con fracciones exactas', () => {
+  it('todos los métodos clasifican igual y sus soluciones cumplen A·x = b', () => {
+    const next = seeded(7);
+    for (let trial = 0; trial < 30; trial++) {
+      const rows = randomRows(next, 3, 3, -4, 4);
+      // Un tercio de las matrices son singulares: la tercera fila es suma de las dos primeras
+      if (trial % 3 === 0) {
+        rows[2] = rows[0].map((value, j) => value + rows[1][j]);
+      }
+      const matrix = toField(RationalField, rows);
+      const constants = randomRows(next, 1, 3, -4, 4)[0].map(value => RationalField.fromInteger(value));
+      const reference = solvers['Gauss-Jordan'](RationalField, matrix, constants);
+
+      for (const [name, solver] of Object.entries(solvers)) {
+        const solution = solver(RationalField, matrix, constants);
+        const label = `${name} con A = ${JSON.stringify(rows)}`;
+        expect(solution.failureReason, label).toBeUndefined();
+        expect([solution.isUnique, solution.hasInfiniteSolutions, solution.hasNoSolution], label)
+          .toEqual([reference.isUnique, reference.hasInfiniteSolutions, reference.hasNoSolution]);
+        expectSolves(RationalField, matrix, constants, solution, label);
+      }
+    }
+  });
+
+  it('Gauss-Jordan da una solución general que cumple Ap = b y Av = 0', () => {
+    const next = seeded(8);
+    let indeterminate = 0;
+    for (let trial = 0; trial < 30; trial++) {
+      const rows = randomRows(next, 3, 3, -4, 4);
+      rows[2] = rows[0].map((value, j) => value + rows[1][j]);
+      const matrix = toField(RationalField, rows);
+      const values = randomRows(next, 1, 2, -4, 4)[0];
+      // b₃ = b₁ + b₂ hace al sistema compatible
+      const constants = [...values, values[0] + values[1]].map(value => RationalField.fromInteger(value));
+      const { solution } = FieldElimination.solveGaussJordan(RationalField, matrix, constants);
+      if (!solution.hasInfiniteSolutions) continue;
+      indeterminate++;
+      expectGeneralSolution(RationalField, matrix, constants, solution, `Gauss-Jordan con A = ${JSON.stringify(rows)}`);
+    }
+    expect(indeterminate).toBeGreaterThan(0);
+  });
+
+  it('LU clasifica un sistema singular en lugar de detenerse', () => {
+    const matrix = toField(RationalField, [[1, 2, 3], [2, 4, 6], [1, 0, 1]]);
+    const consistent = FieldLU.solve(RationalField, matrix, toField(RationalField, [[1, 2, 1]])[0]).solution;
+    const inconsistent = FieldLU.solve(RationalField, matrix, toField(RationalField, [[1, 3, 1]])[0]).solution;
+
+    expect(consistent.hasInfiniteSolutions).toBe(true);
+    expect(consistent.generalSolution?.freeColumns).toEqual([2]);
+    expectGeneralSolution(RationalField, matrix, toField(RationalField, [[1, 2, 1]])[0], consistent, 'LU');
+    expect(inconsistent.hasNoSolution).toBe(true);
+  });
+});
+
+describe('espacio nulo', () => {
+  it.each([6, 7, 12])('cada vector de N(A) y N(Aᵀ) cumple A·v = 0 módulo %i', modulus => {
+    const field = createModularField(modulus);
+    const next = seeded(modulus + 200);
+    for (let trial = 0; trial < 20; trial++) {
+      const matrix = toField(field, randomRows(next, 2 + (trial % 2), 3, 0, modulus - 1));
+      const { subspaces } = FieldSubspaces.analyze(field, matrix);
+      if (subspaces.failureReason) continue;
+      const transpose = FieldMatrixUtils.transpose(matrix);
+      subspaces.nullSpace.forEach(vector => {
+        expectVectorEquals(field, apply(field, matrix, vector), matrix.map(() => 0n), 'A·v');
+      });
+      subspaces.leftNullSpace.forEach(vector => {
+        expectVectorEquals(field, apply(field, transpose, vector), transpose.map(() => 0n), 'Aᵀ·y');
+      });
+    }
+  });
+
+  it('tiene dimensión n − rango(A) con fracciones exactas', () => {
+    const next = seeded(11);
+    for (let trial = 0; trial < 20; trial++) {
+      const rows = randomRows(next, 3, 4, -3, 3);
+      if (trial % 2 === 0) {
+        rows[2] = rows[0].map((value, j) => 2 * value - rows[1][j]);
+      }
+      const matrix = toField(RationalField, rows);
+      const { subspaces } = FieldSubspaces.analyze(RationalField, matrix);
+      expect(subspaces.nullSpace).toHaveLength(4 - subspaces.rank);
+      subspaces.nullSpace.forEach(vector => {
+        expectVectorEquals(RationalField, apply(RationalField, matrix, vector), matrix.map(() => RationalField.zero()), 'A·v');
+      });
+    }
+  });
+});
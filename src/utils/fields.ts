@@ -0,0 +1,173 @@
+import type { ExactDivisionRing, Field, ModularField } from '../types/field';
+import { Fraction } from './fraction';
+import { ComplexFraction } from './complexFraction';
+import { Polynomial } from './polynomial';
+
+/**
+ * Números de punto flotante, con tolerancia 1e-10 para considerar un valor como cero
+ */
+export const FloatField: Field<number> = {
+  name: 'punto flotante',
+  zero: () => 0,
+  one: () => 1,
+  fromInteger: value => value,
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  neg: a => -a,
+  mul: (a, b) => a * b,
+  div: (a, b) => a / b,
+  isZero: a => Math.abs(a) < 1e-10,
+  equals: (a, b) => Math.abs(a - b) < 1e-10,
+  compare: (a, b) => Math.abs(a) - Math.abs(b),
+  format: a => (Math.abs(a) < 1e-10 ? '0' : Number(a.toFixed(4)).toString()),
+  toNumber: a => a,
+};
+
+/**
+ * Números racionales exactos representados con la clase Fraction
+ */
+export const RationalField: Field<Fraction> = {
+  name: 'fracciones exactas',
+  zero: () => new Fraction(0, 1),
+  one: () => new Fraction(1, 1),
+  fromInteger: value => new Fraction(value, 1),
+  add: (a, b) => a.add(b),
+  sub: (a, b) => a.subtract(b),
+  neg: a => a.negate(),
+  mul: (a, b) => a.multiply(b),
+  div: (a, b) => a.divide(b),
+  isZero: a => a.isZero(),
+  equals: (a, b) => a.equals(b),
+  compare: (a, b) => {
+    const absA = a.abs();
+    const absB = b.abs();
+    if (absA.equals(absB)) return 0;
+    return absB.lessThan(absA) ? 1 : -1;
+  },
+  format: a => a.toString(),
+  toNumber: a => a.toDecimal(),
+  toFraction: a => a,
+};
+
+/**
+ * Racionales gaussianos a + bi (partes real e imaginaria como fracciones exactas).
+ * El mejor pivote es el de mayor norma |z|²
+ */
+export const ComplexField: Field<ComplexFraction> = {
+  name: 'complejos exactos',
+  zero: () => new ComplexFraction(0, 0),
+  one: () => new ComplexFraction(1, 0),
+  fromInteger: value => new ComplexFraction(value, 0),
+  add: (a, b) => a.add(b),
+  sub: (a, b) => a.subtract(b),
+  neg: a => a.negate(),
+  mul: (a, b) => a.multiply(b),
+  div: (a, b) => a.divide(b),
+  isZero: a => a.isZero(),
+  equals: (a, b) => a.equals(b),
+  compare: (a, b) => RationalField.compare(a.normSquared(), b.normSquared()),
+  format: a => a.toString(),
+  toNumber: a => a.toDecimal(),
+  toComplex: a => a,
+};
+
+/**
+ * Polinomios con coeficientes racionales en los parámetros de la matriz (k, a, λ, ...).
+ * Es un anillo y no un campo: alcanza para LaPlace y para Montante, cuya división entre el pivote
+ * anterior es exacta, pero no para eliminar dividiendo por pivotes
+ */
+export const PolynomialRing: ExactDivisionRing<Polynomial> = {
+  name: 'polinomios en los parámetros',
+  zero: () => Polynomial.constant(0),
+  one: () => Polynomial.constant(1),
+  fromInteger: value => Polynomial.constant(value),
+  add: (a, b) => a.add(b),
+  sub: (a, b) => a.subtract(b),
+  neg: a => a.negate(),
+  mul: (a, b) => a.multiply(b),
+  div: (a, b) => {
+    const { quotient, remainder } = a.divide(b);
+    if (!remainder.isZero()) {
+      throw new Error(`La división entre ${b} no es exacta`);
+    }
+    return quotient;
+  },
+  isZero: a => a.isZero(),
+  equals: (a, b) => a.equals(b),
+  format: a => a.toString(),
+  toNumber: a => a.toDecimal(),
+  toPolynomial: a => a,
+};
+
+/**
+ * Crea el anillo Z/nZ de enteros módulo n (GF(p) si n es primo).
+ * Los elementos son bigint en el rango [0, n). Se prefiere como pivote cualquier elemento invertible
+ * y, si no hay ninguno, cualquiera distinto de cero (para informar de que no es invertible)
+ */
+export function createModularField(modulus: number | bigint): ModularField {
+  const n = BigInt(modulus);
+  if (n < 2n) {
+    throw new Error('El módulo debe ser un entero mayor o igual a 2');
+  }
+
+  const mod = (a: bigint): bigint => ((a % n) + n) % n;
+
+  // Algoritmo extendido de Euclides
+  const inverse = (a: bigint): bigint | null => {
+    let [oldR, r] = [mod(a), n];
+    let [oldS, s] = [1n, 0n];
+    while (r !== 0n) {
+      const q = oldR / r;
+      [oldR, r] = [r, oldR - q * r];
+      [oldS, s] = [s, oldS - q * s];
+    }
+    return oldR === 1n ? mod(oldS) : null;
+  };
+
+  const isInvertible = (a: bigint): boolean => inverse(a) !== null;
+
+  // Orden de preferencia como pivote: cero < no invertible distinto de cero < invertible
+  const rank = (a: bigint): number => (mod(a) === 0n ? 0 : isInvertible(a) ? 2 : 1);
+
+  let isPrime = true;
+  for (let d = 2n; d * d <= n; d++) {
+    if (n % d === 0n) {
+      isPrime = false;
+      break;
+    }
+  }
+
+  return {
+    name: isPrime ? `GF(${n})` : `Z/${n}Z`,
+    modulus: n,
+    isPrime,
+    zero: () => 0n,
+    one: () => 1n,
+    fromInteger: value => mod(BigInt(value)),
+    add: (a, b) => mod(a + b),
+    sub: (a, b) => mod(a - b),
+    neg: a => mod(-a),
+    mul: (a, b) => mod(a * b),
+    div: (a, b) => {
+      const inv = inverse(b);
+      if (inv === null) {
+        throw new Error(`${b} no es invertible módulo ${n}`);
+      }
+      return mod(a * inv);
+    },
+    isZero: a => mod(a) === 0n,
+    equals: (a, b) => mod(a - b) === 0n,
+    compare: (a, b) => rank(a) - rank(b),
+    isInvertible,
+    inverse,
+    format: a => mod(a).toString(),
+    toNumber: a => Number(mod(a)),
+    fromFraction: value => {
+      const inv = inverse(value.bigDenominator);
+      if (inv === null) {
+        throw new Error(`El denominador ${value.bigDenominator} no es invertible módulo ${n}`);
+      }
+      return mod(value.bigNumerator * inv);
+    },
+  };
+}
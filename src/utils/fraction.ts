@@ -1,32 +1,106 @@
 /**
- * Clase para representar y manipular fracciones
+ * Clase para representar y manipular fracciones.
+ * Internamente usa BigInt para que los cálculos sean exactos sin importar
+ * el tamaño de los numeradores y denominadores intermedios.
  */
 export class Fraction {
-  public numerator: number;
-  public denominator: number;
+  private static readonly DECIMAL = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+  private readonly num: bigint;
+  private readonly den: bigint;
 
-  constructor(numerator: number, denominator: number = 1) {
-    if (denominator === 0) {
+  constructor(numerator: number | bigint | string, denominator: number | bigint | string = 1) {
+    const [numN, numD] = Fraction.toRatio(numerator);
+    const [denN, denD] = Fraction.toRatio(denominator);
+
+    if (denN === 0n) {
       throw new Error("El denominador no puede ser cero");
     }
     
-    // Simplificar la fracción y manejar signos
-    const gcd = this.gcd(Math.abs(numerator), Math.abs(denominator));
-    this.numerator = numerator / gcd;
-    this.denominator = denominator / gcd;
-    
+    // (numN/numD) / (denN/denD) = (numN·denD) / (numD·denN)
+    let num = numN * denD;
+    let den = numD * denN;
+
     // Asegurar que el denominador sea positivo
-    if (this.denominator < 0) {
-      this.numerator = -this.numerator;
-      this.denominator = -this.denominator;
+    if (den < 0n) {
+      num = -num;
+      den = -den;
+    }
+
+    // Simplificar la fracción
+    const gcd = Fraction.gcd(num, den);
+    this.num = num / gcd;
+    this.den = den / gcd;
+  }
+
+  /**
+   * Numerador como número (puede perder precisión si excede 2^53)
+   */
+  get numerator(): number {
+    return Number(this.num);
+  }
+
+  /**
+   * Denominador como número (puede perder precisión si excede 2^53)
+   */
+  get denominator(): number {
+    return Number(this.den);
+  }
+
+  /**
+   * Numerador exacto
+   */
+  get bigNumerator(): bigint {
+    return this.num;
+  }
+
+  /**
+   * Denominador exacto (siempre positivo)
+   */
+  get bigDenominator(): bigint {
+    return this.den;
+  }
+
+  /**
+   * Calcula el máximo común divisor con BigInt (sin desbordamiento).
+   * El resultado siempre es positivo; gcd(0, 0) = 1 para evitar divisiones por cero.
+   */
+  static gcd(a: bigint, b: bigint): bigint {
+    a = a < 0n ? -a : a;
+    b = b < 0n ? -b : b;
+    while (b !== 0n) {
+      [a, b] = [b, a % b];
     }
+    return a === 0n ? 1n : a;
   }
 
   /**
-   * Calcula el máximo común divisor
+   * Convierte un entero o un decimal finito en un par [numerador, denominador] exacto,
+   * usando la representación decimal del número (0.1 → 1/10). Un texto como
+   * "12345678901234567891" o "1.5e-30" se lee dígito a dígito, sin pasar por number
    */
-  private gcd(a: number, b: number): number {
-    return b === 0 ? a : this.gcd(b, a % b);
+  private static toRatio(value: number | bigint | string): [bigint, bigint] {
+    if (typeof value === 'bigint') return [value, 1n];
+
+    if (typeof value === 'string') {
+      if (!Fraction.DECIMAL.test(value)) {
+        throw new Error(`"${value}" no es un número decimal`);
+      }
+    } else {
+      if (!Number.isFinite(value)) {
+        throw new Error("El valor de la fracción debe ser un número finito");
+      }
+      if (Number.isInteger(value)) return [BigInt(value), 1n];
+    }
+
+    // Descomponer la notación decimal o científica: 1.25e-7 → 125 × 10^(-9)
+    const [mantissa, exponentText = '0'] = value.toString().toLowerCase().split('e');
+    const [integerPart, decimalPart = ''] = mantissa.split('.');
+    const exponent = parseInt(exponentText, 10) - decimalPart.length;
+    const digits = BigInt(integerPart + decimalPart);
+
+    return exponent >= 0
+      ? [digits * 10n ** BigInt(exponent), 1n]
+      : [digits, 10n ** BigInt(-exponent)];
   }
 
   /**
@@ -70,8 +144,8 @@ export class Fraction {
    * Suma dos fracciones
    */
   add(other: Fraction): Fraction {
-    const newNum = this.numerator * other.denominator + other.numerator * this.denominator;
-    const newDen = this.denominator * other.denominator;
+    const newNum = this.num * other.den + other.num * this.den;
+    const newDen = this.den * other.den;
     return new Fraction(newNum, newDen);
   }
 
@@ -79,8 +153,8 @@ export class Fraction {
    * Resta dos fracciones
    */
   subtract(other: Fraction): Fraction {
-    const newNum = this.numerator * other.denominator - other.numerator * this.denominator;
-    const newDen = this.denominator * other.denominator;
+    const newNum = this.num * other.den - other.num * this.den;
+    const newDen = this.den * other.den;
     return new Fraction(newNum, newDen);
   }
 
@@ -88,111 +162,154 @@ export class Fraction {
    * Multiplica dos fracciones
    */
   multiply(other: Fraction): Fraction {
-    return new Fraction(this.numerator * other.numerator, this.denominator * other.denominator);
+    return new Fraction(this.num * other.num, this.den * other.den);
   }
 
   /**
    * Divide dos fracciones
    */
   divide(other: Fraction): Fraction {
-    if (other.numerator === 0) {
+    if (other.num === 0n) {
       throw new Error("No se puede dividir por cero");
     }
-    return new Fraction(this.numerator * other.denominator, this.denominator * other.numerator);
+    return new Fraction(this.num * other.den, this.den * other.num);
   }
 
   /**
    * Convierte la fracción a decimal
    */
   toDecimal(): number {
-    return this.numerator / this.denominator;
+    // Reducir ambos términos si no caben en un double para evitar Infinity/Infinity
+    const bits = Math.max(this.absNum().toString(2).length, this.den.toString(2).length);
+    if (bits <= 1000) {
+      return Number(this.num) / Number(this.den);
+    }
+    const shift = BigInt(bits - 1000);
+    return Number(this.num >> shift) / Number(this.den >> shift);
   }
 
   /**
    * Verifica si es un entero
    */
   isInteger(): boolean {
-    return this.denominator === 1;
+    return this.den === 1n;
   }
 
   /**
    * Verifica si es cero
    */
   isZero(): boolean {
-    return this.numerator === 0;
+    return this.num === 0n;
   }
 
   /**
    * Obtiene el valor absoluto
    */
   abs(): Fraction {
-    return new Fraction(Math.abs(this.numerator), this.denominator);
+    return new Fraction(this.absNum(), this.den);
+  }
+
+  /**
+   * Raíz cuadrada exacta. Devuelve null si la fracción no es el cuadrado
+   * de un número racional (o si es negativa)
+   */
+  sqrt(): Fraction | null {
+    if (this.num < 0n) return null;
+
+    const rootNum = Fraction.isqrt(this.num);
+    const rootDen = Fraction.isqrt(this.den);
+    if (rootNum * rootNum !== this.num || rootDen * rootDen !== this.den) {
+      return null;
+    }
+    return new Fraction(rootNum, rootDen);
+  }
+
+  /**
+   * Raíz cuadrada entera (parte entera) por el método de Newton
+   */
+  private static isqrt(value: bigint): bigint {
+    if (value < 2n) return value;
+
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+      x = y;
+      y = (x + value / x) / 2n;
+    }
+    return x;
   }
 
   /**
    * Negación de la fracción
    */
   negate(): Fraction {
-    return new Fraction(-this.numerator, this.denominator);
+    return new Fraction(-this.num, this.den);
   }
 
   /**
    * Compara si dos fracciones son iguales
    */
   equals(other: Fraction): boolean {
-    return this.numerator === other.numerator && this.denominator === other.denominator;
+    return this.num === other.num && this.den === other.den;
   }
 
   /**
    * Compara si esta fracción es menor que otra
    */
   lessThan(other: Fraction): boolean {
-    return this.numerator * other.denominator < other.numerator * this.denominator;
+    return this.num * other.den < other.num * this.den;
+  }
+
+  /**
+   * Valor absoluto del numerador
+   */
+  private absNum(): bigint {
+    return this.num < 0n ? -this.num : this.num;
   }
 
   /**
    * Representación como string
    */
   toString(): string {
-    if (this.denominator === 1) {
-      return this.numerator.toString();
+    if (this.den === 1n) {
+      return this.num.toString();
     }
-    return `${this.numerator}/${this.denominator}`;
+    return `${this.num}/${this.den}`;
   }
 
   /**
    * Representación HTML para mostrar como fracción visual
    */
   toHTML(): string {
-    if (this.denominator === 1) {
-      return this.numerator.toString();
+    if (this.den === 1n) {
+      return this.num.toString();
     }
     
-    const sign = this.numerator < 0 ? '-' : '';
-    const absNum = Math.abs(this.numerator);
+    const sign = this.num < 0n ? '-' : '';
+    const absNum = this.absNum();
     
-    return `${sign}<span class="fraction"><span class="numerator">${absNum}</span><span class="denominator">${this.denominator}</span></span>`;
+    return `${sign}<span class="fraction"><span class="numerator">${absNum}</span><span class="denominator">${this.den}</span></span>`;
   }
 
   /**
    * Representación LaTeX
    */
   toLatex(): string {
-    if (this.denominator === 1) {
-      return this.numerator.toString();
+    if (this.den === 1n) {
+      return this.num.toString();
     }
     
-    const sign = this.numerator < 0 ? '-' : '';
-    const absNum = Math.abs(this.numerator);
+    const sign = this.num < 0n ? '-' : '';
+    const absNum = this.absNum();
     
-    return `${sign}\\frac{${absNum}}{${this.denominator}}`;
+    return `${sign}\\frac{${absNum}}{${this.den}}`;
   }
 
   /**
    * Crea una copia de la fracción
    */
   clone(): Fraction {
-    return new Fraction(this.numerator, this.denominator);
+    return new Fraction(this.num, this.den);
   }
 }
 
@@ -223,6 +340,23 @@ export class FractionMatrixUtils {
     return vector.map(num => Fraction.fromDecimal(num));
   }
 
+  /**
+   * Convierte a fracciones una matriz que puede mezclar números y fracciones exactas.
+   * Las fracciones se conservan tal cual; los números se convierten con fromDecimal
+   */
+  static toFractionMatrix(matrix: (number | Fraction)[][]): FractionMatrix {
+    return matrix.map(row => this.toFractionVector(row));
+  }
+
+  /**
+   * Convierte a fracciones un vector que puede mezclar números y fracciones exactas
+   */
+  static toFractionVector(vector: (number | Fraction)[]): FractionVector {
+    return vector.map(value =>
+      value instanceof Fraction ? value.clone() : Fraction.fromDecimal(value)
+    );
+  }
+
   /**
    * Convierte una matriz de fracciones a matriz de números
    */
@@ -303,7 +437,7 @@ export class FractionMatrixUtils {
     
     for (let i = startRow + 1; i < matrix.length; i++) {
       const value = matrix[i][col].abs();
-      if (!value.isZero() && (maxValue.isZero() || value.toDecimal() > maxValue.toDecimal())) {
+      if (!value.isZero() && (maxValue.isZero() || maxValue.lessThan(value))) {
         maxValue = value;
         maxRow = i;
       }
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { FractionParser } from './fractionParser';
+
+const parseExact = (text: string): [bigint, bigint] => {
+  const result = FractionParser.parse(text);
+  if (result.error !== undefined) throw new Error(result.error);
+  return [result.value.bigNumerator, result.value.bigDenominator];
+};
+
+describe('FractionParser', () => {
+  it('lee enteros de más de 2^53 sin redondear', () => {
+    expect(parseExact('12345678901234567891')).toEqual([12345678901234567891n, 1n]);
+    expect(parseExact('-98765432109876543210987654321')).toEqual([-98765432109876543210987654321n, 1n]);
+    expect(parseExact('12345678901234567891 + 1')).toEqual([12345678901234567892n, 1n]);
+  });
+
+  it('lee decimales largos y notación científica de forma exacta', () => {
+    expect(parseExact('0.1')).toEqual([1n, 10n]);
+    expect(parseExact('0.12345678901234567891')).toEqual([12345678901234567891n, 10n ** 20n]);
+    expect(parseExact('1e30')).toEqual([10n ** 30n, 1n]);
+    expect(parseExact('2.5e-3')).toEqual([1n, 400n]);
+  });
+});
@@ -0,0 +1,298 @@
+import { isBigNumber, isConstantNode, isFunctionNode, isOperatorNode, isParenthesisNode, isSymbolNode } from 'mathjs';
+import type { MathNode } from 'mathjs';
+import { parse } from './mathParser';
+import { Fraction } from './fraction';
+import { ComplexFraction } from './complexFraction';
+import { Polynomial } from './polynomial';
+import type { ModularField } from '../types/field';
+
+export type FractionParseResult =
+  | { value: Fraction; error?: undefined }
+  | { value?: undefined; error: string };
+
+export type ComplexParseResult =
+  | { value: ComplexFraction; error?: undefined }
+  | { value?: undefined; error: string };
+
+export type PolynomialParseResult =
+  | { value: Polynomial; error?: undefined }
+  | { value?: undefined; error: string };
+
+export type ModularParseResult =
+  | { value: bigint; error?: undefined }
+  | { value?: undefined; error: string };
+
+/**
+ * Interpreta el texto escrito en una celda como una fracción exacta.
+ * Acepta enteros, decimales, fracciones ("3/4"), números mixtos ("-1 2/3")
+ * y expresiones ("2^-1", "sqrt(4)/3"), además de complejos con la unidad i
+ * ("3+2i", "(1-i)/2") o parámetros como k, a o λ ("2k-1"). El texto se analiza con
+ * mathjs y se evalúa con las clases Fraction, ComplexFraction y Polynomial, de modo que
+ * el resultado nunca se aproxima.
+ */
+export class FractionParser {
+  private static readonly MIXED_NUMBER = /^([+-]?)(\d+)\s+(\d+)\s*\/\s*(\d+)$/;
+  private static readonly MAX_EXPONENT = 1000;
+  private static readonly FUNCTIONS = new Set(['sqrt', 'abs', 'conj', 're', 'im']);
+
+  /**
+   * Interpreta el texto de una celda como número real. Una celda vacía equivale a 0
+   */
+  static parse(text: string): FractionParseResult {
+    const result = this.parseComplex(text);
+    if (result.error !== undefined) {
+      return result;
+    }
+    if (!result.value.isReal()) {
+      return { error: `Se esperaba un número real: "${text.trim()}"` };
+    }
+    return { value: result.value.re };
+  }
+
+  /**
+   * Interpreta el texto de una celda como elemento de Z/nZ: el valor racional p/q
+   * se reduce a p · q⁻¹ mod n (por ejemplo 1/2 ≡ 4 mod 7)
+   */
+  static parseModular(text: string, field: ModularField): ModularParseResult {
+    const result = this.parse(text);
+    if (result.error !== undefined) {
+      return result;
+    }
+    try {
+      return { value: field.fromFraction(result.value) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Valor no válido en aritmética modular' };
+    }
+  }
+
+  /**
+   * Interpreta el texto de una celda como polinomio en uno o varios parámetros
+   * ("2k-1", "λ^2", "a b", "k(k+1)"). Las partes sin parámetros se evalúan igual que en parse,
+   * y solo se puede dividir entre constantes. Una celda vacía equivale a 0
+   */
+  static parseSymbolic(text: string): PolynomialParseResult {
+    const numeric = this.parse(text);
+    if (numeric.value !== undefined) {
+      return { value: Polynomial.constant(numeric.value) };
+    }
+
+    let node: MathNode;
+    try {
+      node = parse(text.trim());
+    } catch {
+      return numeric;
+    }
+
+    try {
+      return { value: this.evaluateSymbolic(node) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Expresión no válida' };
+    }
+  }
+
+  /**
+   * Interpreta el texto de una celda como complejo a + bi. Una celda vacía equivale a 0
+   */
+  static parseComplex(text: string): ComplexParseResult {
+    const input = text.trim();
+    if (input === '') {
+      return { value: new ComplexFraction(0, 0) };
+    }
+
+    // Número mixto: "-1 2/3" = -(1 + 2/3). mathjs lo leería como 1 × 2/3
+    const mixed = input.match(this.MIXED_NUMBER);
+    if (mixed) {
+      const [, sign, whole, numerator, denominator] = mixed;
+      if (BigInt(denominator) === 0n) {
+        return { error: 'El denominador no puede ser cero' };
+      }
+      const value = new Fraction(BigInt(whole), 1).add(new Fraction(BigInt(numerator), BigInt(denominator)));
+      return { value: ComplexFraction.fromFraction(sign === '-' ? value.negate() : value) };
+    }
+
+    let node: MathNode;
+    try {
+      node = parse(input);
+    } catch {
+      return { error: `Expresión no válida: "${input}"` };
+    }
+
+    try {
+      return { value: this.evaluate(node) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Expresión no válida' };
+    }
+  }
+
+  /**
+   * Evalúa recursivamente el árbol de mathjs con aritmética de fracciones complejas
+   */
+  private static evaluate(node: MathNode): ComplexFraction {
+    if (isConstantNode(node)) {
+      if (!isBigNumber(node.value)) {
+        throw new Error(`Valor no numérico: ${node.toString()}`);
+      }
+      // El literal llega como BigNumber con todos sus dígitos: se convierte desde su texto, no desde number
+      return new ComplexFraction(new Fraction(node.value.toString()), 0);
+    }
+
+    if (isParenthesisNode(node)) {
+      return this.evaluate(node.content);
+    }
+
+    if (isOperatorNode(node)) {
+      const args = node.args.map(arg => this.evaluate(arg));
+
+      switch (node.fn) {
+        case 'unaryPlus':
+          return args[0];
+        case 'unaryMinus':
+          return args[0].negate();
+        case 'add':
+          return args[0].add(args[1]);
+        case 'subtract':
+          return args[0].subtract(args[1]);
+        case 'multiply':
+          return args[0].multiply(args[1]);
+        case 'divide':
+          return args[0].divide(args[1]);
+        case 'pow':
+          return this.power(args[0], args[1]);
+        default:
+          throw new Error(`Operador no soportado: ${node.op}`);
+      }
+    }
+
+    if (isFunctionNode(node)) {
+      const name = node.fn.name;
+      if (node.args.length !== 1) {
+        throw new Error(`La función ${name} requiere un argumento`);
+      }
+      const arg = this.evaluate(node.args[0]);
+
+      switch (name) {
+        case 'sqrt': {
+          // √(-x) = i√x para reales negativos
+          const negative = arg.isReal() && arg.re.bigNumerator < 0n;
+          const root = arg.isReal() ? (negative ? arg.re.negate() : arg.re).sqrt() : null;
+          if (!root) {
+            throw new Error(`√(${arg.toString()}) no es un número racional`);
+          }
+          return negative ? new ComplexFraction(0, root) : ComplexFraction.fromFraction(root);
+        }
+        case 'abs': {
+          const modulus = arg.normSquared().sqrt();
+          if (!modulus) {
+            throw new Error(`|${arg.toString()}| no es un número racional`);
+          }
+          return ComplexFraction.fromFraction(modulus);
+        }
+        case 'conj':
+          return arg.conjugate();
+        case 're':
+          return ComplexFraction.fromFraction(arg.re);
+        case 'im':
+          return ComplexFraction.fromFraction(arg.im);
+        default:
+          throw new Error(`Función no soportada: ${name}`);
+      }
+    }
+
+    if (isSymbolNode(node)) {
+      if (node.name === 'i') {
+        return ComplexFraction.I;
+      }
+      throw new Error(`Símbolo no permitido: ${node.name}`);
+    }
+
+    throw new Error(`Expresión no soportada: ${node.toString()}`);
+  }
+
+  /**
+   * Evalúa el árbol de mathjs como polinomio; cada símbolo distinto de i es un parámetro
+   */
+  private static evaluateSymbolic(node: MathNode): Polynomial {
+    if (isParenthesisNode(node)) {
+      return this.evaluateSymbolic(node.content);
+    }
+
+    if (isSymbolNode(node)) {
+      if (node.name === 'i') {
+        throw new Error('No se pueden combinar números complejos con parámetros');
+      }
+      return Polynomial.variable(node.name);
+    }
+
+    if (isOperatorNode(node)) {
+      const args = node.args.map(arg => this.evaluateSymbolic(arg));
+
+      switch (node.fn) {
+        case 'unaryPlus':
+          return args[0];
+        case 'unaryMinus':
+          return args[0].negate();
+        case 'add':
+          return args[0].add(args[1]);
+        case 'subtract':
+          return args[0].subtract(args[1]);
+        case 'multiply':
+          return args[0].multiply(args[1]);
+        case 'divide': {
+          const divisor = args[1].constantValue();
+          if (!divisor) {
+            throw new Error(`Solo se puede dividir entre constantes: ${node.args[1].toString()}`);
+          }
+          if (divisor.isZero()) {
+            throw new Error('No se puede dividir por cero');
+          }
+          return args[0].scale(new Fraction(1, 1).divide(divisor));
+        }
+        case 'pow': {
+          const exponent = args[1].constantValue();
+          if (!exponent || !exponent.isInteger() || exponent.bigNumerator < 0n ||
+              exponent.bigNumerator > BigInt(this.MAX_EXPONENT)) {
+            throw new Error(`El exponente de un parámetro debe ser un entero entre 0 y ${this.MAX_EXPONENT}`);
+          }
+          return args[0].pow(Number(exponent.bigNumerator));
+        }
+        default:
+          throw new Error(`Operador no soportado: ${node.op}`);
+      }
+    }
+
+    // "k(k+1)": mathjs lo lee como llamada a la función k; se interpreta como producto
+    if (isFunctionNode(node) && !this.FUNCTIONS.has(node.fn.name) && node.args.length === 1) {
+      return Polynomial.variable(node.fn.name).multiply(this.evaluateSymbolic(node.args[0]));
+    }
+
+    // Constantes y funciones (sqrt, abs, ...) solo sobre valores numéricos
+    const value = this.evaluate(node);
+    if (!value.isReal()) {
+      throw new Error('No se pueden combinar números complejos con parámetros');
+    }
+    return Polynomial.constant(value.re);
+  }
+
+  /**
+   * Potencia con exponente entero (negativo incluido)
+   */
+  private static power(base: ComplexFraction, exponent: ComplexFraction): ComplexFraction {
+    if (!exponent.isReal() || !exponent.re.isInteger()) {
+      throw new Error(`El exponente ${exponent.toString()} debe ser entero`);
+    }
+
+    let n = exponent.re.bigNumerator;
+    if (n > BigInt(this.MAX_EXPONENT) || n < -BigInt(this.MAX_EXPONENT)) {
+      throw new Error(`El exponente debe estar entre -${this.MAX_EXPONENT} y ${this.MAX_EXPONENT}`);
+    }
+
+    const negative = n < 0n;
+    if (negative) n = -n;
+
+    let result = new ComplexFraction(1, 0);
+    for (let k = 0n; k < n; k++) {
+      result = result.multiply(base);
+    }
+    return negative ? new ComplexFraction(1, 0).divide(result) : result;
+  }
+}
@@ -0,0 +1,154 @@
+import type { CalculationStep, QRResult, StepFactor } from '../types/matrix';
+import { Fraction } from './fraction';
+import type { FractionMatrix, FractionVector } from './fraction';
+import { Radical } from './radical';
+import type { RadicalMatrix } from './radical';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { RationalField } from './fields';
+import { toSubscript } from './subscript';
+
+/**
+ * Ortogonalización de Gram–Schmidt y factorización A = QR. Las proyecciones se calculan
+ * con fracciones exactas; solo la normalización introduce raíces, que se guardan como c·√s
+ */
+export class GramSchmidt {
+
+  /**
+   * Ortogonaliza las columnas de A restando a cada una sus proyecciones sobre las anteriores,
+   * y normaliza para obtener Q (columnas ortonormales) y R (triangular superior)
+   */
+  static decompose(matrix: FractionMatrix): { steps: CalculationStep[]; result: QRResult } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const rows = matrix.length;
+    const cols = rows > 0 ? matrix[0].length : 0;
+    const columns = Array.from({ length: cols }, (_, k) => matrix.map(row => row[k]));
+    const orthogonal = columns.map(column => [...column]);
+    const current = () => FieldMatrixUtils.toStepMatrix(RationalField, FieldMatrixUtils.transpose(orthogonal));
+
+    steps.push({
+      id: stepId++,
+      title: 'Columnas de A',
+      description: `Ortogonalizamos las columnas a₁, ..., a${toSubscript(cols)} de A (${rows}×${cols}) con el producto escalar ⟨u, v⟩ = u₁v₁ + ... + u${toSubscript(rows)}v${toSubscript(rows)}. Cada uₖ es aₖ menos sus proyecciones sobre u₁, ..., uₖ₋₁: proy_u(a) = (⟨a, u⟩ / ⟨u, u⟩)·u`,
+      ...current(),
+      operation: 'inicial'
+    });
+
+    for (let k = 0; k < cols; k++) {
+      if (k === 0) {
+        steps.push({
+          id: stepId++,
+          title: 'Vector u₁',
+          description: 'El primer vector no tiene proyecciones que restar: u₁ = a₁',
+          ...current(),
+          operation: 'u₁ = a₁'
+        });
+      }
+
+      for (let j = 0; j < k; j++) {
+        const numerator = this.dot(columns[k], orthogonal[j]);
+        const denominator = this.dot(orthogonal[j], orthogonal[j]);
+        const coefficient = numerator.divide(denominator);
+        orthogonal[k] = orthogonal[k].map((value, i) => value.subtract(coefficient.multiply(orthogonal[j][i])));
+
+        const u = `u${toSubscript(k + 1)}`;
+        const uj = `u${toSubscript(j + 1)}`;
+        const a = `a${toSubscript(k + 1)}`;
+        steps.push({
+          id: stepId++,
+          title: `Proyección de ${a} sobre ${uj}`,
+          description: numerator.isZero()
+            ? `⟨${a}, ${uj}⟩ = 0: ${a} ya es ortogonal a ${uj} y no hay nada que restar`
+            : `proy_${uj}(${a}) = (⟨${a}, ${uj}⟩ / ⟨${uj}, ${uj}⟩)·${uj} = ((${numerator}) / (${denominator}))·${uj} = (${coefficient})·${uj}. Restamos la proyección: ${u} = ${u} - (${coefficient})·${uj} = (${orthogonal[k].join(', ')})`,
+          ...current(),
+          operation: `${u} = ${u} - (${coefficient})·${uj}`
+        });
+      }
+
+      if (orthogonal[k].every(value => value.isZero())) {
+        const failureReason = `u${toSubscript(k + 1)} = 0: la columna a${toSubscript(k + 1)} es combinación lineal de las anteriores, así que las columnas de A no son linealmente independientes y no existe la factorización QR (R tendría un cero en la diagonal)`;
+        steps.push({
+          id: stepId++,
+          title: 'Columnas Dependientes',
+          description: failureReason,
+          ...current(),
+          operation: `u${toSubscript(k + 1)} = 0`
+        });
+        return {
+          steps,
+          result: {
+            orthogonalMatrix: FieldMatrixUtils.transpose(orthogonal),
+            norms: [],
+            q: [],
+            r: [],
+            failureReason
+          }
+        };
+      }
+    }
+
+    steps.push({
+      id: stepId++,
+      title: 'Base Ortogonal',
+      description: `Los vectores u₁, ..., u${toSubscript(cols)} (columnas de la matriz) son ortogonales dos a dos: ⟨uᵢ, uⱼ⟩ = 0 si i ≠ j. Generan el mismo espacio que las columnas de A`,
+      ...current(),
+      operation: '⟨uᵢ, uⱼ⟩ = 0'
+    });
+
+    // Normalización: ‖uₖ‖ = √⟨uₖ, uₖ⟩ es exacta si ⟨uₖ, uₖ⟩ es un cuadrado; si no, queda como c·√s
+    const norms = orthogonal.map((u, k) => {
+      const squared = this.dot(u, u);
+      const norm = Radical.sqrt(squared);
+      const approximation = norm.isRational() ? '' : ` ≈ ${norm.toDecimal().toFixed(4)}`;
+      steps.push({
+        id: stepId++,
+        title: `Norma de u${toSubscript(k + 1)}`,
+        description: `‖u${toSubscript(k + 1)}‖ = √⟨u${toSubscript(k + 1)}, u${toSubscript(k + 1)}⟩ = √(${squared}) = ${norm}${approximation}. Dividiendo u${toSubscript(k + 1)} entre su norma obtenemos q${toSubscript(k + 1)}, de longitud 1`,
+        ...current(),
+        operation: `‖u${toSubscript(k + 1)}‖ = ${norm}`
+      });
+      return norm;
+    });
+
+    const q: RadicalMatrix = Array.from({ length: rows }, (_, i) =>
+      orthogonal.map((u, k) => norms[k].reciprocal().scale(u[i]))
+    );
+    // rⱼₖ = ⟨qⱼ, aₖ⟩ = ⟨uⱼ, aₖ⟩ / ‖uⱼ‖ por encima de la diagonal, y rₖₖ = ‖uₖ‖
+    const r: RadicalMatrix = Array.from({ length: cols }, (_, j) =>
+      Array.from({ length: cols }, (_, k) =>
+        j === k ? norms[k]
+          : j < k ? norms[j].reciprocal().scale(this.dot(orthogonal[j], columns[k]))
+          : new Radical(new Fraction(0, 1))
+      )
+    );
+
+    steps.push({
+      id: stepId++,
+      title: 'Factorización A = QR',
+      description: `Q tiene por columnas qₖ = uₖ / ‖uₖ‖, que son ortonormales (QᵀQ = I). R es triangular superior: rₖₖ = ‖uₖ‖ y, encima de la diagonal, rⱼₖ = ⟨qⱼ, aₖ⟩ = ⟨uⱼ, aₖ⟩ / ‖uⱼ‖. Despejando aₖ de Gram–Schmidt queda aₖ = r₁ₖq₁ + ... + rₖₖqₖ, es decir, A = QR`,
+      ...FieldMatrixUtils.toStepMatrix(RationalField, matrix),
+      operation: 'A = QR',
+      factors: [this.toStepFactor('Q', q), this.toStepFactor('R', r)]
+    });
+
+    return {
+      steps,
+      result: { orthogonalMatrix: FieldMatrixUtils.transpose(orthogonal), norms, q, r }
+    };
+  }
+
+  /**
+   * Producto escalar exacto ⟨u, v⟩
+   */
+  private static dot(u: FractionVector, v: FractionVector): Fraction {
+    return u.reduce((sum, value, i) => sum.add(value.multiply(v[i])), new Fraction(0, 1));
+  }
+
+  private static toStepFactor(name: string, matrix: RadicalMatrix): StepFactor {
+    return {
+      name,
+      matrix: matrix.map(row => row.map(value => value.toDecimal())),
+      radicalMatrix: matrix
+    };
+  }
+}
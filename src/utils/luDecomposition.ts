@@ -0,0 +1,39 @@
+import type { Matrix, Vector, CalculationStep, Solution } from '../types/matrix';
+import type { FractionMatrix, FractionVector } from './fraction';
+import { FractionMatrixUtils } from './fraction';
+import { FieldLU } from './fieldLU';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { ComplexField, RationalField } from './fields';
+import type { ComplexMatrix, ComplexVector } from './complexFraction';
+import type { FieldMatrix, FieldVector, ModularField } from '../types/field';
+
+export class LUDecomposition {
+  /**
+   * Resuelve un sistema factorizando PA = LU con fracciones exactas
+   */
+  static solve(matrix: Matrix | FractionMatrix, constants: Vector | FractionVector): { steps: CalculationStep[]; solution: Solution } {
+    const { steps, solution } = FieldLU.solve(
+      RationalField,
+      FractionMatrixUtils.toFractionMatrix(matrix),
+      FractionMatrixUtils.toFractionVector(constants)
+    );
+    return { steps, solution: FieldMatrixUtils.toSolution(RationalField, solution) };
+  }
+
+  /**
+   * Resuelve un sistema con coeficientes complejos (a + bi) factorizando PA = LU
+   */
+  static solveComplex(matrix: ComplexMatrix, constants: ComplexVector): { steps: CalculationStep[]; solution: Solution } {
+    const { steps, solution } = FieldLU.solve(ComplexField, matrix, constants);
+    return { steps, solution: FieldMatrixUtils.toSolution(ComplexField, solution) };
+  }
+
+  /**
+   * Resuelve un sistema en Z/nZ factorizando PA = LU. Si un pivote no es invertible
+   * módulo n, lo indica en los pasos y en solution.failureReason
+   */
+  static solveModular(matrix: FieldMatrix<bigint>, constants: FieldVector<bigint>, field: ModularField): { steps: CalculationStep[]; solution: Solution } {
+    const { steps, solution } = FieldLU.solve(field, matrix, constants);
+    return { steps, solution: FieldMatrixUtils.toSolution(field, solution) };
+  }
+}
@@ -0,0 +1,7 @@
+import { create, parseDependencies } from 'mathjs';
+
+/**
+ * Analizador de mathjs que lee los literales numéricos como BigNumber en lugar de number,
+ * así que 12345678901234567891 o 0.1234567890123456789 llegan al árbol con todos sus dígitos
+ */
+export const { parse } = create({ parseDependencies }, { number: 'BigNumber' });
@@ -0,0 +1,321 @@
+import type { CalculationStep, WorkspaceResult } from '../types/matrix';
+import { Fraction } from './fraction';
+import type { FractionMatrix } from './fraction';
+import { FieldElimination } from './fieldElimination';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { RationalField } from './fields';
+import { toSubscript } from './subscript';
+
+/**
+ * Operaciones entre las matrices del espacio de trabajo (suma, resta, producto, múltiplo escalar,
+ * traspuesta y potencias) con fracciones exactas y un paso por cada entrada calculada
+ */
+export class MatrixArithmetic {
+  /** Límite del exponente en Aⁿ (cada producto añade un paso por entrada) */
+  static readonly MAX_EXPONENT = 10;
+
+  /**
+   * Suma entrada a entrada: (A + B)ᵢⱼ = aᵢⱼ + bᵢⱼ. Exige que A y B tengan el mismo tamaño
+   */
+  static add(a: FractionMatrix, b: FractionMatrix, nameA: string, nameB: string): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    return this.entrywise(a, b, nameA, nameB, '+');
+  }
+
+  /**
+   * Resta entrada a entrada: (A - B)ᵢⱼ = aᵢⱼ - bᵢⱼ. Exige que A y B tengan el mismo tamaño
+   */
+  static subtract(a: FractionMatrix, b: FractionMatrix, nameA: string, nameB: string): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    return this.entrywise(a, b, nameA, nameB, '-');
+  }
+
+  /**
+   * Producto AB: cada entrada es el producto escalar de una fila de A por una columna de B.
+   * Exige que A tenga tantas columnas como filas tiene B
+   */
+  static multiply(a: FractionMatrix, b: FractionMatrix, nameA: string, nameB: string): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    const expression = `${nameA}·${nameB}`;
+
+    if (a[0].length !== b.length) {
+      return this.failure(
+        expression,
+        `${nameA} es ${this.size(a)} y ${nameB} es ${this.size(b)}: para multiplicar, ${nameA} debe tener tantas columnas (${a[0].length}) como filas tiene ${nameB} (${b.length})`,
+        a
+      );
+    }
+
+    const { steps, product } = this.productSteps(a, b, nameA, nameB, 1);
+    return { steps, result: { expression, matrix: product } };
+  }
+
+  /**
+   * Múltiplo escalar kA: cada entrada se multiplica por k
+   */
+  static scale(k: Fraction, a: FractionMatrix, nameA: string): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    const expression = `(${k})·${nameA}`;
+    const scaled = a.map(row => row.map(value => k.multiply(value)));
+
+    const steps: CalculationStep[] = [
+      {
+        id: 1,
+        title: `Matriz ${nameA}`,
+        description: `Multiplicamos cada entrada de ${nameA} (${this.size(a)}) por k = ${k}`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, a),
+        operation: expression
+      },
+      {
+        id: 2,
+        title: `Múltiplo ${expression}`,
+        description: `(k·${nameA})ᵢⱼ = k·${nameA.toLowerCase()}ᵢⱼ, por ejemplo (${k})·(${a[0][0]}) = ${scaled[0][0]}`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, scaled),
+        operation: expression
+      }
+    ];
+
+    return { steps, result: { expression, matrix: scaled } };
+  }
+
+  /**
+   * Traspuesta: las filas de A pasan a ser las columnas de Aᵀ
+   */
+  static transpose(a: FractionMatrix, nameA: string): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    const expression = `${nameA}ᵀ`;
+    const transposed = FieldMatrixUtils.transpose(a);
+
+    const steps: CalculationStep[] = [
+      {
+        id: 1,
+        title: `Matriz ${nameA}`,
+        description: `${nameA} es ${this.size(a)}; su traspuesta será ${this.size(transposed)}`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, a),
+        operation: expression
+      },
+      {
+        id: 2,
+        title: `Traspuesta ${expression}`,
+        description: `(${expression})ᵢⱼ = ${nameA.toLowerCase()}ⱼᵢ: la fila i de ${nameA} es la columna i de ${expression}`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, transposed),
+        operation: expression
+      }
+    ];
+
+    return { steps, result: { expression, matrix: transposed } };
+  }
+
+  /**
+   * Potencia entera Aⁿ de una matriz cuadrada: A⁰ = I, Aⁿ = Aⁿ⁻¹·A y, si n < 0,
+   * Aⁿ = (A⁻¹)⁻ⁿ, que solo existe si A es invertible
+   */
+  static power(a: FractionMatrix, exponent: number, nameA: string): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    const expression = `${nameA}${this.superscript(exponent)}`;
+    const n = a.length;
+
+    if (n !== a[0].length) {
+      return this.failure(expression, `${nameA} es ${this.size(a)}: solo se pueden elevar a una potencia las matrices cuadradas`, a);
+    }
+    if (!Number.isInteger(exponent) || Math.abs(exponent) > this.MAX_EXPONENT) {
+      return this.failure(expression, `El exponente debe ser un entero entre -${this.MAX_EXPONENT} y ${this.MAX_EXPONENT}`, a);
+    }
+
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+
+    if (exponent === 0) {
+      const identity = FieldMatrixUtils.createIdentityMatrix(RationalField, n);
+      steps.push({
+        id: stepId++,
+        title: `Potencia ${expression}`,
+        description: `Por convenio, cualquier matriz cuadrada elevada a 0 es la identidad ${n}×${n}`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, identity),
+        operation: `${expression} = I`
+      });
+      return { steps, result: { expression, matrix: identity } };
+    }
+
+    let base = a;
+    let baseName = nameA;
+    if (exponent < 0) {
+      const { inverse } = FieldElimination.inverse(RationalField, a);
+      if (!inverse) {
+        return this.failure(expression, `${nameA} es singular (det(${nameA}) = 0): no tiene inversa, así que ${expression} = ${this.powerName(`${nameA}⁻¹`, this.superscript(-exponent))} no existe`, a);
+      }
+      base = inverse;
+      baseName = `${nameA}⁻¹`;
+      steps.push({
+        id: stepId++,
+        title: `Inversa ${baseName}`,
+        description: `Un exponente negativo significa ${expression} = ${this.powerName(baseName, this.superscript(-exponent))}. Calculamos ${baseName} reduciendo [${nameA} | I] → [I | ${baseName}]`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, inverse),
+        operation: baseName
+      });
+    }
+
+    const count = Math.abs(exponent);
+    let power = base;
+    steps.push({
+      id: stepId++,
+      title: count === 1 ? `Potencia ${expression}` : `Base ${baseName}`,
+      description: count === 1
+        ? `${expression} = ${baseName}: no hace falta multiplicar`
+        : `Multiplicamos ${count - 1} ${count === 2 ? 'vez' : 'veces'}: ${this.powerName(baseName, 'ᵏ')} = ${this.powerName(baseName, 'ᵏ⁻¹')}·${baseName}, con un paso por cada entrada de cada producto`,
+      ...FieldMatrixUtils.toStepMatrix(RationalField, base),
+      operation: baseName
+    });
+
+    for (let k = 2; k <= count; k++) {
+      const previousName = k === 2 ? baseName : this.powerName(baseName, this.superscript(k - 1));
+      const product = this.productSteps(power, base, previousName, baseName, stepId);
+      steps.push(...product.steps);
+      stepId += product.steps.length;
+      power = product.product;
+    }
+
+    return { steps, result: { expression, matrix: power } };
+  }
+
+  /**
+   * Suma o resta entrada a entrada, con un paso por fila
+   */
+  private static entrywise(a: FractionMatrix, b: FractionMatrix, nameA: string, nameB: string, sign: '+' | '-'): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    const expression = `${nameA} ${sign} ${nameB}`;
+    const verb = sign === '+' ? 'sumar' : 'restar';
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+
+    if (a.length !== b.length || a[0].length !== b[0].length) {
+      return this.failure(
+        expression,
+        `${nameA} es ${this.size(a)} y ${nameB} es ${this.size(b)}: solo se pueden ${verb} matrices del mismo tamaño`,
+        a
+      );
+    }
+
+    steps.push({
+      id: stepId++,
+      title: `${sign === '+' ? 'Suma' : 'Resta'} ${expression}`,
+      description: `${nameA} y ${nameB} son ${this.size(a)}, así que se ${sign === '+' ? 'suman' : 'restan'} entrada a entrada: (${expression})ᵢⱼ = ${nameA.toLowerCase()}ᵢⱼ ${sign} ${nameB.toLowerCase()}ᵢⱼ`,
+      ...FieldMatrixUtils.toStepMatrix(RationalField, a),
+      operation: expression,
+      factors: [
+        FieldMatrixUtils.toStepFactor(RationalField, nameA, a),
+        FieldMatrixUtils.toStepFactor(RationalField, nameB, b)
+      ]
+    });
+
+    const combined = a.map((row, i) => row.map((value, j) => (sign === '+' ? value.add(b[i][j]) : value.subtract(b[i][j]))));
+    combined.forEach((row, i) => {
+      steps.push({
+        id: stepId++,
+        title: `Fila ${i + 1}`,
+        description: row.map((value, j) => `(${a[i][j]}) ${sign} (${b[i][j]}) = ${value}`).join(', '),
+        ...FieldMatrixUtils.toStepMatrix(RationalField, combined),
+        operation: `F${i + 1}(${nameA}) ${sign} F${i + 1}(${nameB})`,
+        rowIndex: i
+      });
+    });
+
+    return { steps, result: { expression, matrix: combined } };
+  }
+
+  /**
+   * Pasos de un producto: uno inicial con las dos matrices y uno por cada entrada
+   * cᵢⱼ = aᵢ₁b₁ⱼ + ... + aᵢₙbₙⱼ (las entradas aún no calculadas se muestran como 0)
+   */
+  private static productSteps(a: FractionMatrix, b: FractionMatrix, nameA: string, nameB: string, startStepId: number): {
+    steps: CalculationStep[];
+    product: FractionMatrix;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = startStepId;
+    const rows = a.length;
+    const inner = b.length;
+    const cols = b[0].length;
+    const product: FractionMatrix = Array.from({ length: rows }, () =>
+      Array.from({ length: cols }, () => new Fraction(0, 1))
+    );
+
+    steps.push({
+      id: stepId++,
+      title: `Producto ${nameA}·${nameB}`,
+      description: `(${rows}×${inner})·(${inner}×${cols}) = ${rows}×${cols}. Cada entrada cᵢⱼ es el producto escalar de la fila i de ${nameA} por la columna j de ${nameB}`,
+      ...FieldMatrixUtils.toStepMatrix(RationalField, product),
+      operation: `${nameA}·${nameB}`,
+      factors: [
+        FieldMatrixUtils.toStepFactor(RationalField, nameA, a),
+        FieldMatrixUtils.toStepFactor(RationalField, nameB, b)
+      ]
+    });
+
+    for (let i = 0; i < rows; i++) {
+      for (let j = 0; j < cols; j++) {
+        const terms = a[i].map((value, k) => `(${value})(${b[k][j]})`);
+        product[i][j] = a[i].reduce((sum, value, k) => sum.add(value.multiply(b[k][j])), new Fraction(0, 1));
+
+        steps.push({
+          id: stepId++,
+          title: `Entrada c${toSubscript(i + 1)}${toSubscript(j + 1)}`,
+          description: `c${toSubscript(i + 1)}${toSubscript(j + 1)} = (fila ${i + 1} de ${nameA})·(columna ${j + 1} de ${nameB}) = ${terms.join(' + ')} = ${product[i][j]}`,
+          ...FieldMatrixUtils.toStepMatrix(RationalField, product),
+          operation: `c${toSubscript(i + 1)}${toSubscript(j + 1)} = ${product[i][j]}`,
+          rowIndex: i
+        });
+      }
+    }
+
+    return { steps, product };
+  }
+
+  /**
+   * Operación no definida: un único paso que explica el motivo
+   */
+  private static failure(expression: string, failureReason: string, matrix: FractionMatrix): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    return {
+      steps: [{
+        id: 1,
+        title: 'Operación No Definida',
+        description: failureReason,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, matrix),
+        operation: `${expression} no existe`
+      }],
+      result: { expression, matrix: null, failureReason }
+    };
+  }
+
+  /**
+   * "A³" o, si la base ya lleva exponente, "(A⁻¹)³"
+   */
+  private static powerName(base: string, exponent: string): string {
+    return base.length > 1 ? `(${base})${exponent}` : `${base}${exponent}`;
+  }
+
+  private static size(matrix: FractionMatrix): string {
+    return `${matrix.length}×${matrix[0].length}`;
+  }
+
+  private static superscript(value: number): string {
+    return value.toString().split('').map(char => (char === '-' ? '⁻' : '⁰¹²³⁴⁵⁶⁷⁸⁹'[Number(char)])).join('');
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { Fraction } from './fraction';
+import type { FractionMatrix } from './fraction';
+import { MatrixExpression } from './matrixExpression';
+
+const identity: FractionMatrix = [
+  [new Fraction(1), new Fraction(0)],
+  [new Fraction(0), new Fraction(1)]
+];
+const matrices = { A: identity, B: identity, C: identity };
+
+describe('MatrixExpression', () => {
+  it('lee los escalares de más de 2^53 sin redondear', () => {
+    const { result } = MatrixExpression.evaluate('12345678901234567891 * A', matrices, 'laplace');
+    expect(result.failureReason).toBeUndefined();
+    expect(result.matrix?.[0][0].bigNumerator).toBe(12345678901234567891n);
+
+    const scalar = MatrixExpression.evaluate('det(A) + 0.12345678901234567891', matrices, 'laplace').result.scalar;
+    expect([scalar?.bigNumerator, scalar?.bigDenominator]).toEqual([112345678901234567891n, 10n ** 20n]);
+  });
+});
@@ -0,0 +1,430 @@
+import { isBigNumber, isConstantNode, isFunctionNode, isOperatorNode, isParenthesisNode, isSymbolNode } from 'mathjs';
+import type { MathNode } from 'mathjs';
+import type { CalculationMethod, CalculationStep, ExpressionNode, WorkspaceMatrixName, WorkspaceResult } from '../types/matrix';
+import { Fraction } from './fraction';
+import type { FractionMatrix } from './fraction';
+import { MatrixArithmetic } from './matrixArithmetic';
+import { LaplaceExpansionFractions } from './laplaceExpansionFractions';
+import { GaussJordanDeterminant } from './gaussJordanDeterminant';
+import { MatrixInverse } from './matrixInverse';
+import { parse } from './mathParser';
+
+/**
+ * Forma de una subexpresión, para decidir cuándo hay que ponerle paréntesis al usarla como operando
+ */
+type ExpressionKind = 'atom' | 'postfix' | 'product' | 'sum' | 'negation';
+
+interface EvaluatedNode {
+  node: ExpressionNode;
+  kind: ExpressionKind;
+}
+
+/**
+ * Evalúa expresiones sobre las matrices del espacio de trabajo, como "det(A*B) - 2*det(C')"
+ * o "inv(A)*B". mathjs solo analiza el texto: cada operación se calcula con fracciones exactas
+ * reutilizando los pasos de la app (productos entrada a entrada, LaPlace o Gauss-Jordan para
+ * det, adjunta o [A | I] para inv), y el resultado es un árbol con los pasos de cada subexpresión
+ */
+export class MatrixExpression {
+  private static readonly FUNCTIONS = new Set(['det', 'inv', 'transpose', 'trace']);
+
+  /**
+   * Evalúa el texto con las matrices guardadas; det e inv usan el método indicado
+   * (LaPlace/adjunta o Gauss-Jordan)
+   */
+  static evaluate(text: string, matrices: Record<WorkspaceMatrixName, FractionMatrix>, method: CalculationMethod): {
+    steps: CalculationStep[];
+    result: WorkspaceResult;
+  } {
+    const input = text.trim();
+    if (input === '') {
+      return { steps: [], result: { expression: input, matrix: null, failureReason: 'Escribe una expresión, por ejemplo det(A*B) - 2*det(C\')' } };
+    }
+
+    let mathNode: MathNode;
+    try {
+      mathNode = parse(input);
+    } catch {
+      return { steps: [], result: { expression: input, matrix: null, failureReason: `Expresión no válida: "${input}"` } };
+    }
+
+    let tree: ExpressionNode;
+    try {
+      tree = this.evaluateNode(mathNode, matrices, method).node;
+    } catch (error) {
+      return {
+        steps: [],
+        result: { expression: input, matrix: null, failureReason: error instanceof Error ? error.message : 'Expresión no válida' }
+      };
+    }
+
+    return {
+      steps: this.flatten(tree),
+      result: {
+        expression: tree.expression,
+        matrix: tree.failureReason ? null : tree.matrix ?? null,
+        scalar: tree.failureReason ? undefined : tree.scalar,
+        tree,
+        failureReason: tree.failureReason
+      }
+    };
+  }
+
+  /**
+   * Pasos de una subexpresión y de todas las suyas, en el orden en que se calculan
+   * (primero las subexpresiones), numerados de nuevo y con la subexpresión en el título
+   */
+  static flatten(tree: ExpressionNode): CalculationStep[] {
+    const collect = (node: ExpressionNode): CalculationStep[] => [
+      ...node.children.flatMap(collect),
+      ...node.steps.map(step => ({ ...step, title: `${node.expression}: ${step.title}` }))
+    ];
+    return collect(tree).map((step, index) => ({ ...step, id: index + 1 }));
+  }
+
+  /**
+   * Evalúa recursivamente el árbol de mathjs. Los errores de sintaxis o de símbolos se lanzan;
+   * las operaciones no definidas (dimensiones, matriz singular) devuelven un nodo con failureReason
+   */
+  private static evaluateNode(
+    mathNode: MathNode,
+    matrices: Record<WorkspaceMatrixName, FractionMatrix>,
+    method: CalculationMethod
+  ): EvaluatedNode {
+    const evaluate = (child: MathNode) => this.evaluateNode(child, matrices, method);
+
+    if (isParenthesisNode(mathNode)) {
+      return evaluate(mathNode.content);
+    }
+
+    if (isConstantNode(mathNode)) {
+      if (!isBigNumber(mathNode.value)) {
+        throw new Error(`Valor no numérico: ${mathNode.toString()}`);
+      }
+      const value = new Fraction(mathNode.value.toString());
+      return { node: { expression: value.toString(), scalar: value, steps: [], children: [] }, kind: 'atom' };
+    }
+
+    if (isSymbolNode(mathNode)) {
+      const name = mathNode.name;
+      if (name === 'A' || name === 'B' || name === 'C') {
+        return { node: { expression: name, matrix: matrices[name], steps: [], children: [] }, kind: 'atom' };
+      }
+      throw new Error(`"${name}" no está definida: solo se pueden usar las matrices A, B y C`);
+    }
+
+    if (isOperatorNode(mathNode)) {
+      const args = mathNode.args.map(evaluate);
+
+      // A' llega como 'ctranspose', que los tipos de mathjs no incluyen
+      switch (mathNode.fn as string) {
+        case 'unaryPlus':
+          return args[0];
+        case 'unaryMinus':
+          return this.negate(args[0]);
+        case 'add':
+        case 'subtract':
+          return this.addOrSubtract(args[0], args[1], mathNode.fn === 'add' ? '+' : '-');
+        case 'multiply':
+          return this.multiply(args[0], args[1]);
+        case 'divide':
+          return this.divide(args[0], args[1]);
+        case 'pow':
+          return this.power(args[0], args[1]);
+        case 'ctranspose':
+          return this.transpose(args[0]);
+        default:
+          throw new Error(`Operador no soportado: ${mathNode.op}`);
+      }
+    }
+
+    if (isFunctionNode(mathNode)) {
+      const name = mathNode.fn.name;
+      if (!this.FUNCTIONS.has(name)) {
+        throw new Error(`Función no soportada: ${name}. Se admiten det, inv, transpose y trace`);
+      }
+      if (mathNode.args.length !== 1) {
+        throw new Error(`La función ${name} requiere un argumento`);
+      }
+      const arg = evaluate(mathNode.args[0]);
+
+      switch (name) {
+        case 'det':
+          return this.determinant(arg, method);
+        case 'inv':
+          return this.inverse(arg, method);
+        case 'transpose':
+          return this.transpose(arg);
+        default:
+          return this.trace(arg);
+      }
+    }
+
+    throw new Error(`Expresión no soportada: ${mathNode.toString()}`);
+  }
+
+  private static negate(arg: EvaluatedNode): EvaluatedNode {
+    const name = this.operand(arg, ['sum', 'negation']);
+    const expression = `-${name}`;
+    if (arg.node.failureReason) return this.propagate(expression, [arg], 'negation');
+
+    const value = this.value(arg);
+    if (value instanceof Fraction) {
+      return this.scalarNode(expression, value.negate(), `-(${value}) = ${value.negate()}`, [arg], 'negation');
+    }
+    const { steps, result } = MatrixArithmetic.scale(new Fraction(-1, 1), value, name);
+    return this.matrixNode(expression, steps, result, [arg], 'negation');
+  }
+
+  private static addOrSubtract(left: EvaluatedNode, right: EvaluatedNode, sign: '+' | '-'): EvaluatedNode {
+    const leftName = left.node.expression;
+    const rightName = this.operand(right, sign === '-' ? ['sum', 'negation'] : ['negation']);
+    const expression = `${leftName} ${sign} ${rightName}`;
+    if (left.node.failureReason || right.node.failureReason) return this.propagate(expression, [left, right], 'sum');
+
+    const a = this.value(left);
+    const b = this.value(right);
+    if (a instanceof Fraction && b instanceof Fraction) {
+      const value = sign === '+' ? a.add(b) : a.subtract(b);
+      return this.scalarNode(expression, value, `(${a}) ${sign} (${b}) = ${value}`, [left, right], 'sum');
+    }
+    if (a instanceof Fraction || b instanceof Fraction) {
+      return this.failureNode(
+        expression,
+        `No se puede ${sign === '+' ? 'sumar' : 'restar'} un número y una matriz: ${a instanceof Fraction ? leftName : rightName} es un escalar`,
+        [left, right],
+        'sum'
+      );
+    }
+
+    const { steps, result } = sign === '+'
+      ? MatrixArithmetic.add(a, b, leftName, rightName)
+      : MatrixArithmetic.subtract(a, b, leftName, rightName);
+    return this.matrixNode(expression, steps, result, [left, right], 'sum');
+  }
+
+  private static multiply(left: EvaluatedNode, right: EvaluatedNode): EvaluatedNode {
+    const leftName = this.operand(left, ['sum', 'negation']);
+    const rightName = this.operand(right, ['sum', 'negation']);
+    const expression = `${leftName}·${rightName}`;
+    if (left.node.failureReason || right.node.failureReason) return this.propagate(expression, [left, right], 'product');
+
+    const a = this.value(left);
+    const b = this.value(right);
+    if (a instanceof Fraction && b instanceof Fraction) {
+      const value = a.multiply(b);
+      return this.scalarNode(expression, value, `(${a})·(${b}) = ${value}`, [left, right], 'product');
+    }
+
+    // k·X y X·k son el mismo múltiplo escalar
+    const { steps, result } = a instanceof Fraction
+      ? MatrixArithmetic.scale(a, b as FractionMatrix, rightName)
+      : b instanceof Fraction
+      ? MatrixArithmetic.scale(b, a, leftName)
+      : MatrixArithmetic.multiply(a, b, leftName, rightName);
+    return this.matrixNode(expression, steps, result, [left, right], 'product');
+  }
+
+  private static divide(left: EvaluatedNode, right: EvaluatedNode): EvaluatedNode {
+    const leftName = this.operand(left, ['sum', 'negation']);
+    const rightName = this.operand(right, ['sum', 'negation', 'product']);
+    const expression = `${leftName} / ${rightName}`;
+    if (left.node.failureReason || right.node.failureReason) return this.propagate(expression, [left, right], 'product');
+
+    const a = this.value(left);
+    const divisor = this.value(right);
+    if (!(divisor instanceof Fraction)) {
+      return this.failureNode(expression, `No se puede dividir entre una matriz (${rightName}): usa inv(${right.node.expression}) y multiplica`, [left, right], 'product');
+    }
+    if (divisor.isZero()) {
+      return this.failureNode(expression, `${rightName} = 0: no se puede dividir entre cero`, [left, right], 'product');
+    }
+
+    if (a instanceof Fraction) {
+      const value = a.divide(divisor);
+      return this.scalarNode(expression, value, `(${a}) / (${divisor}) = ${value}`, [left, right], 'product');
+    }
+    // X / k = (1/k)·X
+    const { steps, result } = MatrixArithmetic.scale(new Fraction(1, 1).divide(divisor), a, leftName);
+    return this.matrixNode(expression, steps, result, [left, right], 'product');
+  }
+
+  private static power(base: EvaluatedNode, exponent: EvaluatedNode): EvaluatedNode {
+    const baseName = this.operand(base, ['postfix', 'product', 'sum', 'negation']);
+    const n = exponent.node.scalar;
+    const expression = n && n.isInteger()
+      ? `${baseName}${this.superscript(n.numerator)}`
+      : `${baseName}^${this.operand(exponent, ['postfix', 'product', 'sum', 'negation'])}`;
+    if (base.node.failureReason || exponent.node.failureReason) return this.propagate(expression, [base, exponent], 'postfix');
+
+    const limit = MatrixArithmetic.MAX_EXPONENT;
+    if (!n || !n.isInteger() || n.abs().bigNumerator > BigInt(limit)) {
+      return this.failureNode(expression, `El exponente de ${expression} debe ser un entero entre -${limit} y ${limit}`, [base, exponent], 'postfix');
+    }
+
+    const a = this.value(base);
+    if (a instanceof Fraction) {
+      if (a.isZero() && n.bigNumerator < 0n) {
+        return this.failureNode(expression, `${expression}: 0 no se puede elevar a un exponente negativo`, [base, exponent], 'postfix');
+      }
+      let value = new Fraction(1, 1);
+      for (let k = 0; k < Math.abs(n.numerator); k++) {
+        value = value.multiply(a);
+      }
+      if (n.bigNumerator < 0n) value = new Fraction(1, 1).divide(value);
+      return this.scalarNode(expression, value, `(${a})${this.superscript(n.numerator)} = ${value}`, [base, exponent], 'postfix');
+    }
+
+    const { steps, result } = MatrixArithmetic.power(a, n.numerator, baseName);
+    return this.matrixNode(expression, steps, result, [base, exponent], 'postfix');
+  }
+
+  private static transpose(arg: EvaluatedNode): EvaluatedNode {
+    const name = this.operand(arg, ['postfix', 'product', 'sum', 'negation']);
+    const expression = `${name}ᵀ`;
+    if (arg.node.failureReason) return this.propagate(expression, [arg], 'postfix');
+
+    const value = this.value(arg);
+    if (value instanceof Fraction) {
+      return this.scalarNode(expression, value, `La traspuesta de un escalar es el propio escalar: ${value}`, [arg], 'postfix');
+    }
+    const { steps, result } = MatrixArithmetic.transpose(value, name);
+    return this.matrixNode(expression, steps, result, [arg], 'postfix');
+  }
+
+  /**
+   * det(X) con los pasos de LaPlace o de Gauss-Jordan, según el método seleccionado
+   */
+  private static determinant(arg: EvaluatedNode, method: CalculationMethod): EvaluatedNode {
+    const expression = `det(${arg.node.expression})`;
+    if (arg.node.failureReason) return this.propagate(expression, [arg], 'atom');
+
+    const matrix = arg.node.matrix;
+    if (!matrix || matrix.length !== matrix[0].length) {
+      return this.failureNode(expression, `El determinante solo está definido para matrices cuadradas: ${this.describe(arg)}`, [arg], 'atom');
+    }
+
+    const { steps, determinant } = method === 'laplace'
+      ? this.laplaceDeterminant(matrix)
+      : GaussJordanDeterminant.calculateDeterminant(matrix);
+    return { node: { expression, scalar: determinant, steps, children: [arg.node] }, kind: 'atom' };
+  }
+
+  private static laplaceDeterminant(matrix: FractionMatrix): { steps: CalculationStep[]; determinant: Fraction } {
+    const { steps, fractionDeterminant } = LaplaceExpansionFractions.calculateDeterminant(matrix);
+    return { steps, determinant: fractionDeterminant };
+  }
+
+  /**
+   * X⁻¹ por la adjunta o reduciendo [X | I], según el método seleccionado
+   */
+  private static inverse(arg: EvaluatedNode, method: CalculationMethod): EvaluatedNode {
+    const name = this.operand(arg, ['postfix', 'product', 'sum', 'negation']);
+    const expression = `${name}⁻¹`;
+    if (arg.node.failureReason) return this.propagate(expression, [arg], 'postfix');
+
+    const matrix = arg.node.matrix;
+    if (!matrix || matrix.length !== matrix[0].length) {
+      return this.failureNode(expression, `La inversa solo está definida para matrices cuadradas: ${this.describe(arg)}`, [arg], 'postfix');
+    }
+
+    const { steps, result } = method === 'laplace'
+      ? MatrixInverse.calculateInverse(matrix)
+      : MatrixInverse.calculateGaussJordanInverse(matrix);
+    if (!result.isInvertible || !result.fractionInverseMatrix) {
+      return {
+        node: {
+          expression,
+          steps,
+          children: [arg.node],
+          failureReason: `det(${arg.node.expression}) = 0: ${arg.node.expression} es singular y ${expression} no existe`
+        },
+        kind: 'postfix'
+      };
+    }
+    return { node: { expression, matrix: result.fractionInverseMatrix, steps, children: [arg.node] }, kind: 'postfix' };
+  }
+
+  /**
+   * trace(X) = x₁₁ + x₂₂ + ... + xₙₙ
+   */
+  private static trace(arg: EvaluatedNode): EvaluatedNode {
+    const expression = `trace(${arg.node.expression})`;
+    if (arg.node.failureReason) return this.propagate(expression, [arg], 'atom');
+
+    const matrix = arg.node.matrix;
+    if (!matrix || matrix.length !== matrix[0].length) {
+      return this.failureNode(expression, `La traza solo está definida para matrices cuadradas: ${this.describe(arg)}`, [arg], 'atom');
+    }
+    const diagonal = matrix.map((row, i) => row[i]);
+    const value = diagonal.reduce((sum, entry) => sum.add(entry), new Fraction(0, 1));
+    return this.scalarNode(expression, value, `Suma de la diagonal: ${diagonal.map(entry => `(${entry})`).join(' + ')} = ${value}`, [arg], 'atom');
+  }
+
+  /**
+   * Nombre de una subexpresión como operando, entre paréntesis si su forma está en wrapKinds
+   */
+  private static operand(evaluated: EvaluatedNode, wrapKinds: ExpressionKind[]): string {
+    return wrapKinds.includes(evaluated.kind) ? `(${evaluated.node.expression})` : evaluated.node.expression;
+  }
+
+  private static describe(evaluated: EvaluatedNode): string {
+    const matrix = evaluated.node.matrix;
+    return matrix
+      ? `${evaluated.node.expression} es ${matrix.length}×${matrix[0].length}`
+      : `${evaluated.node.expression} es un escalar`;
+  }
+
+  private static scalarNode(expression: string, value: Fraction, description: string, children: EvaluatedNode[], kind: ExpressionKind): EvaluatedNode {
+    return { node: { expression, scalar: value, description, steps: [], children: children.map(child => child.node) }, kind };
+  }
+
+  /**
+   * Nodo a partir de una operación de MatrixArithmetic, que puede no estar definida
+   */
+  private static matrixNode(
+    expression: string,
+    steps: CalculationStep[],
+    result: WorkspaceResult,
+    children: EvaluatedNode[],
+    kind: ExpressionKind
+  ): EvaluatedNode {
+    return {
+      node: {
+        expression,
+        matrix: result.matrix ?? undefined,
+        steps,
+        children: children.map(child => child.node),
+        failureReason: result.failureReason
+      },
+      kind
+    };
+  }
+
+  private static failureNode(expression: string, failureReason: string, children: EvaluatedNode[], kind: ExpressionKind): EvaluatedNode {
+    return { node: { expression, steps: [], children: children.map(child => child.node), failureReason }, kind };
+  }
+
+  /**
+   * Una subexpresión no está definida: el error sube hasta la raíz sin calcular nada más
+   */
+  private static propagate(expression: string, children: EvaluatedNode[], kind: ExpressionKind): EvaluatedNode {
+    const failureReason = children.map(child => child.node.failureReason).find(reason => reason !== undefined);
+    return this.failureNode(expression, failureReason ?? 'Operación no definida', children, kind);
+  }
+
+  /**
+   * Valor de una subexpresión ya evaluada sin errores: un escalar o una matriz
+   */
+  private static value(evaluated: EvaluatedNode): Fraction | FractionMatrix {
+    const value = evaluated.node.scalar ?? evaluated.node.matrix;
+    if (!value) {
+      throw new Error(`${evaluated.node.expression} no tiene valor`);
+    }
+    return value;
+  }
+
+  private static superscript(value: number): string {
+    return value.toString().split('').map(char => (char === '-' ? '⁻' : '⁰¹²³⁴⁵⁶⁷⁸⁹'[Number(char)])).join('');
+  }
+}
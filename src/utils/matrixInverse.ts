@@ -1,314 +1,571 @@
 import type { Matrix, CalculationStep, InverseResult } from '../types/matrix';
-import { Fraction, FractionMatrix } from './fraction';
-import { LaplaceExpansion } from './laplaceExpansion';
+import { FractionMatrixUtils } from './fraction';
+import type { Fraction, FractionMatrix } from './fraction';
+import { FieldLaplace } from './fieldLaplace';
+import { FieldBareiss } from './fieldBareiss';
+import { ComplexField, RationalField } from './fields';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import type { ComplexFraction, ComplexMatrix } from './complexFraction';
+import type { Field, FieldMatrix, ModularField } from '../types/field';
 
 export class MatrixInverse {
   /**
    * Calcula la matriz inversa usando el método de LaPlace (determinante + matriz adjunta)
-   * A^(-1) = (1/det(A)) * adj(A)
+   * A^(-1) = (1/det(A)) * adj(A), con fracciones exactas en cofactores, adjunta e inversa
    */
-  static calculateInverse(matrix: Matrix): {
+  static calculateInverse(matrix: Matrix | FractionMatrix): {
     steps: CalculationStep[];
     result: InverseResult;
+  } {
+    const inverse = this.calculateAdjugateInverse(
+      RationalField,
+      FractionMatrixUtils.toFractionMatrix(matrix),
+      '📝 **Regla de signos**: Si (i+j) es par → positivo (+), si es impar → negativo (-)'
+    );
+    return { steps: inverse.steps, result: this.toRationalResult(inverse) };
+  }
+
+  /**
+   * Calcula la inversa de una matriz compleja (a + bi) con el método de la adjunta,
+   * usando aritmética exacta de racionales gaussianos
+   */
+  static calculateComplexInverse(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateAdjugateInverse(ComplexField, matrix, this.complexArithmeticNote);
+    return { steps: inverse.steps, result: this.toComplexResult(inverse) };
+  }
+
+  /**
+   * Calcula la inversa en Z/nZ: A⁻¹ = det(A)⁻¹ × adj(A), con el inverso modular del determinante.
+   * Existe solo si mcd(det(A), n) = 1
+   */
+  static calculateModularInverse(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateAdjugateInverse(
+      field,
+      matrix,
+      `📝 **Inverso modular**: det(A)⁻¹ es el número d tal que det(A) × d ≡ 1 (mod ${field.modulus}); existe solo si mcd(det(A), ${field.modulus}) = 1`
+    );
+    return { steps: inverse.steps, result: this.toModularResult(field, inverse) };
+  }
+
+  /**
+   * Calcula la inversa reduciendo [A | I] → [I | A⁻¹] por Gauss-Jordan con fracciones exactas
+   */
+  static calculateGaussJordanInverse(matrix: Matrix | FractionMatrix): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateRowReductionInverse(RationalField, FractionMatrixUtils.toFractionMatrix(matrix));
+    return { steps: inverse.steps, result: this.toRationalResult(inverse) };
+  }
+
+  /**
+   * Inversa compleja reduciendo [A | I] → [I | A⁻¹] con racionales gaussianos exactos
+   */
+  static calculateComplexGaussJordanInverse(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateRowReductionInverse(ComplexField, matrix, this.complexArithmeticNote);
+    return { steps: inverse.steps, result: this.toComplexResult(inverse) };
+  }
+
+  /**
+   * Inversa en Z/nZ reduciendo [A | I] → [I | A⁻¹]. Si una columna no tiene ningún pivote
+   * invertible (n compuesto) se recurre al método de la adjunta
+   */
+  static calculateModularGaussJordanInverse(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateRowReductionInverse(
+      field,
+      matrix,
+      `📝 **Inverso modular**: normalizar un pivote p exige p⁻¹, el número d tal que p × d ≡ 1 (mod ${field.modulus}); existe solo si mcd(p, ${field.modulus}) = 1`
+    );
+    return { steps: inverse.steps, result: this.toModularResult(field, inverse) };
+  }
+
+  /**
+   * Calcula la inversa por Montante (Bareiss): [A | I] → [p·I | p·A⁻¹] sin fracciones intermedias
+   */
+  static calculateBareissInverse(matrix: Matrix | FractionMatrix): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateFractionFreeInverse(RationalField, FractionMatrixUtils.toFractionMatrix(matrix));
+    return { steps: inverse.steps, result: this.toRationalResult(inverse) };
+  }
+
+  /**
+   * Inversa compleja por Montante con racionales gaussianos exactos
+   */
+  static calculateComplexBareissInverse(matrix: ComplexMatrix): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateFractionFreeInverse(ComplexField, matrix, this.complexArithmeticNote);
+    return { steps: inverse.steps, result: this.toComplexResult(inverse) };
+  }
+
+  /**
+   * Inversa en Z/nZ por Montante. Si un pivote no es invertible (n compuesto) se recurre
+   * al método de la adjunta
+   */
+  static calculateModularBareissInverse(matrix: FieldMatrix<bigint>, field: ModularField): {
+    steps: CalculationStep[];
+    result: InverseResult;
+  } {
+    const inverse = this.calculateFractionFreeInverse(
+      field,
+      matrix,
+      `📝 **Inverso modular**: dividir entre un pivote p exige p⁻¹, el número d tal que p × d ≡ 1 (mod ${field.modulus}); existe solo si mcd(p, ${field.modulus}) = 1`
+    );
+    return { steps: inverse.steps, result: this.toModularResult(field, inverse) };
+  }
+
+  private static readonly complexArithmeticNote = '📝 **División compleja**: z / w = z × w̄ / |w|²';
+
+  /**
+   * Convierte el resultado genérico con fracciones al formato que muestra la interfaz
+   */
+  private static toRationalResult(inverse: {
+    determinant: Fraction;
+    inverseMatrix: FractionMatrix | null;
+    adjugateMatrix: FractionMatrix | null;
+    method: NonNullable<InverseResult['method']>;
+  }): InverseResult {
+    const { determinant, inverseMatrix, adjugateMatrix } = inverse;
+    return {
+      inverseMatrix: inverseMatrix ? FractionMatrixUtils.toNumberMatrix(inverseMatrix) : [],
+      fractionInverseMatrix: inverseMatrix ?? undefined,
+      determinant: determinant.toDecimal(),
+      fractionDeterminant: determinant,
+      isInvertible: inverseMatrix !== null,
+      adjugateMatrix: adjugateMatrix ? FractionMatrixUtils.toNumberMatrix(adjugateMatrix) : [],
+      fractionAdjugateMatrix: adjugateMatrix ?? undefined,
+      method: inverse.method
+    };
+  }
+
+  /**
+   * Convierte el resultado genérico complejo al formato que muestra la interfaz
+   */
+  private static toComplexResult(inverse: {
+    determinant: ComplexFraction;
+    inverseMatrix: ComplexMatrix | null;
+    adjugateMatrix: ComplexMatrix | null;
+    method: NonNullable<InverseResult['method']>;
+  }): InverseResult {
+    const { determinant, inverseMatrix, adjugateMatrix } = inverse;
+    return {
+      inverseMatrix: inverseMatrix ? inverseMatrix.map(row => row.map(value => value.toDecimal())) : [],
+      complexInverseMatrix: inverseMatrix ?? undefined,
+      determinant: determinant.toDecimal(),
+      complexDeterminant: determinant,
+      isInvertible: inverseMatrix !== null,
+      adjugateMatrix: adjugateMatrix ? adjugateMatrix.map(row => row.map(value => value.toDecimal())) : [],
+      complexAdjugateMatrix: adjugateMatrix ?? [],
+      method: inverse.method
+    };
+  }
+
+  /**
+   * Convierte el resultado genérico en Z/nZ al formato que muestra la interfaz
+   */
+  private static toModularResult(field: ModularField, inverse: {
+    determinant: bigint;
+    inverseMatrix: FieldMatrix<bigint> | null;
+    adjugateMatrix: FieldMatrix<bigint> | null;
+    method: NonNullable<InverseResult['method']>;
+  }): InverseResult {
+    const { determinant, inverseMatrix, adjugateMatrix } = inverse;
+    const toNumbers = (values: FieldMatrix<bigint>) => values.map(row => row.map(value => field.toNumber(value)));
+    return {
+      inverseMatrix: inverseMatrix ? toNumbers(inverseMatrix) : [],
+      determinant: field.toNumber(determinant),
+      isInvertible: inverseMatrix !== null,
+      adjugateMatrix: adjugateMatrix ? toNumbers(adjugateMatrix) : [],
+      modulus: Number(field.modulus),
+      method: inverse.method
+    };
+  }
+
+  /**
+   * Método de la adjunta sobre cualquier campo: A⁻¹ = det(A)⁻¹ × adj(A).
+   * Devuelve inverseMatrix = null si el determinante no es invertible
+   */
+  private static calculateAdjugateInverse<T>(field: Field<T>, matrix: FieldMatrix<T>, arithmeticNote: string): {
+    steps: CalculationStep[];
+    determinant: T;
+    inverseMatrix: FieldMatrix<T> | null;
+    adjugateMatrix: FieldMatrix<T> | null;
+    method: 'laplace';
   } {
     const n = matrix.length;
-    
+
     if (n !== matrix[0].length) {
       throw new Error('La matriz debe ser cuadrada para calcular su inversa');
     }
 
+    const format = (value: T) => field.format(value);
     const steps: CalculationStep[] = [];
     let stepId = 1;
 
-    // Paso 1: Mostrar matriz original y explicar procedimiento
     steps.push({
       id: stepId++,
       title: 'Matriz Original y Procedimiento',
-      description: `Para calcular A⁻¹ usando el método de LaPlace seguiremos estos pasos:
+      description: `Para calcular A⁻¹ en ${field.name} usamos el método de LaPlace:
       
-      1️⃣ **Calcular determinante**: Verificar que det(A) ≠ 0
-      2️⃣ **Matriz de cofactores**: Para cada elemento aᵢⱼ calcular Cᵢⱼ = (-1)^(i+j) × Mᵢⱼ
-      3️⃣ **Matriz adjunta**: adj(A) = transpose(matriz de cofactores)  
+      1️⃣ **Calcular determinante**: Verificar que det(A) sea invertible
+      2️⃣ **Matriz de cofactores**: Cᵢⱼ = (-1)^(i+j) × Mᵢⱼ
+      3️⃣ **Matriz adjunta**: adj(A) = transpose(matriz de cofactores)
       4️⃣ **Matriz inversa**: A⁻¹ = (1/det(A)) × adj(A)
       
-      📝 **Regla de signos**: Si (i+j) es par → positivo (+), si es impar → negativo (-)`,
-      matrix: matrix.map(row => [...row]),
+      ${arithmeticNote}`,
+      ...FieldMatrixUtils.toStepMatrix(field, matrix),
       operation: 'Procedimiento LaPlace'
     });
 
-    // Paso 2: Calcular determinante
-    const determinantResult = LaplaceExpansion.calculateDeterminant(matrix);
-    const determinant = determinantResult.determinant;
-    const fractionDeterminant = Fraction.fromDecimal(determinant);
+    // Determinante exacto
+    const determinant = FieldLaplace.determinant(field, matrix);
 
     steps.push({
       id: stepId++,
       title: 'Cálculo del Determinante',
-      description: `Para que la matriz tenga inversa, su determinante debe ser diferente de cero. det(A) = ${determinant}`,
-      matrix: matrix.map(row => [...row]),
-      operation: `det(A) = ${determinant}`,
-      fractionMatrix: matrix.map(row => row.map(val => Fraction.fromDecimal(val)))
+      description: `Para que la matriz tenga inversa, su determinante debe ser invertible. det(A) = ${format(determinant)}`,
+      ...FieldMatrixUtils.toStepMatrix(field, matrix),
+      operation: `det(A) = ${format(determinant)}`
     });
 
-    // Verificar si la matriz es invertible
-    if (Math.abs(determinant) < 1e-10) {
-      const result: InverseResult = {
-        inverseMatrix: [],
-        determinant,
-        fractionDeterminant,
-        isInvertible: false,
-        adjugateMatrix: [],
-        fractionAdjugateMatrix: []
-      };
-
+    const isInvertible = !field.isZero(determinant) && (field.isInvertible ? field.isInvertible(determinant) : true);
+    if (!isInvertible) {
       steps.push({
         id: stepId++,
         title: 'Matriz No Invertible',
-        description: 'La matriz no tiene inversa porque su determinante es cero (matriz singular).',
-        matrix: matrix.map(row => [...row]),
-        operation: 'Error: det(A) = 0'
+        description: field.isZero(determinant)
+          ? 'La matriz no tiene inversa porque su determinante es cero (matriz singular).'
+          : `La matriz no tiene inversa porque det(A) = ${format(determinant)} no es invertible en ${field.name}.`,
+        ...FieldMatrixUtils.toStepMatrix(field, matrix),
+        operation: field.isZero(determinant) ? 'Error: det(A) = 0' : `Error: ${format(determinant)}⁻¹ no existe`
       });
 
-      return { steps, result };
+      return { steps, determinant, inverseMatrix: null, adjugateMatrix: null, method: 'laplace' };
     }
 
-    // Paso 3: Calcular matriz de cofactores paso a paso
-    const { cofactorMatrix, cofactorSteps } = this.calculateCofactorMatrixDetailed(matrix, stepId);
-    
-    // Agregar todos los pasos de cofactores
-    steps.push(...cofactorSteps);
-    stepId += cofactorSteps.length;
+    // Cofactores
+    const cofactorMatrix: FieldMatrix<T> = [];
+    for (let i = 0; i < n; i++) {
+      cofactorMatrix[i] = [];
+      for (let j = 0; j < n; j++) {
+        const minorDet = FieldLaplace.determinant(field, FieldMatrixUtils.getMinor(matrix, i, j));
+        const cofactor = (i + j) % 2 === 0 ? minorDet : field.neg(minorDet);
+        cofactorMatrix[i][j] = cofactor;
 
-    const fractionCofactorMatrix = cofactorMatrix.map(row => 
-      row.map(val => Fraction.fromDecimal(val))
-    );
+        steps.push({
+          id: stepId++,
+          title: `Cofactor C₍${i+1},${j+1}₎`,
+          description: `C₍${i+1},${j+1}₎ = (-1)^(${i+1}+${j+1}) × M₍${i+1},${j+1}₎ = ${(i + j) % 2 === 0 ? '+' : '-'}(${format(minorDet)}) = ${format(cofactor)}`,
+          ...FieldMatrixUtils.toStepMatrix(field, matrix),
+          operation: `C₍${i+1},${j+1}₎ = ${format(cofactor)}`,
+          excludedRow: i,
+          excludedCol: j
+        });
+      }
+    }
 
     steps.push({
       id: stepId++,
       title: 'Matriz de Cofactores Completa',
       description: 'Resultado final de todos los cofactores calculados:',
-      matrix: cofactorMatrix,
-      fractionMatrix: fractionCofactorMatrix,
+      ...FieldMatrixUtils.toStepMatrix(field, cofactorMatrix),
       operation: 'Matriz C = [Cᵢⱼ]'
     });
 
-    // Paso 4: Calcular matriz adjunta (transpuesta de cofactores)
-    const adjugateMatrix = this.transposeMatrix(cofactorMatrix);
-    const fractionAdjugateMatrix = adjugateMatrix.map(row => 
-      row.map(val => Fraction.fromDecimal(val))
-    );
+    const adjugateMatrix = FieldMatrixUtils.transpose(cofactorMatrix);
 
     steps.push({
       id: stepId++,
       title: 'Matriz Adjunta',
       description: 'La matriz adjunta es la transpuesta de la matriz de cofactores: adj(A) = C^T',
-      matrix: adjugateMatrix,
-      fractionMatrix: fractionAdjugateMatrix,
+      ...FieldMatrixUtils.toStepMatrix(field, adjugateMatrix),
       operation: 'adj(A) = C^T'
     });
 
-    // Paso 5: Calcular matriz inversa
-    const inverseMatrix = adjugateMatrix.map(row => 
-      row.map(val => val / determinant)
-    );
-    const fractionInverseMatrix = fractionAdjugateMatrix.map(row => 
-      row.map(fraction => fraction.divide(fractionDeterminant))
-    );
+    const inverseDeterminant = field.div(field.one(), determinant);
+    const inverseMatrix = adjugateMatrix.map(row => row.map(value => field.mul(value, inverseDeterminant)));
 
     steps.push({
       id: stepId++,
       title: 'Matriz Inversa',
-      description: `La matriz inversa se calcula como: A^(-1) = (1/det(A)) × adj(A) = (1/${determinant}) × adj(A)`,
-      matrix: inverseMatrix,
-      fractionMatrix: fractionInverseMatrix,
+      description: `La matriz inversa se calcula como: A^(-1) = (1/det(A)) × adj(A) = (${format(inverseDeterminant)}) × adj(A)`,
+      ...FieldMatrixUtils.toStepMatrix(field, inverseMatrix),
       operation: 'A^(-1) = (1/det(A)) × adj(A)'
     });
 
-    // Paso 6: Verificación (opcional)
-    const verificationMatrix = this.multiplyMatrices(matrix, inverseMatrix);
-    const isIdentity = this.isIdentityMatrix(verificationMatrix);
+    const verificationMatrix = FieldMatrixUtils.multiply(field, matrix, inverseMatrix);
+    const isIdentity = FieldMatrixUtils.isIdentity(field, verificationMatrix);
 
     steps.push({
       id: stepId++,
       title: 'Verificación',
       description: `Verificamos que A × A^(-1) = I (matriz identidad). ${isIdentity ? '✅ Correcto' : '❌ Error en el cálculo'}`,
-      matrix: verificationMatrix,
+      ...FieldMatrixUtils.toStepMatrix(field, verificationMatrix),
       operation: 'A × A^(-1) = I'
     });
 
-    const result: InverseResult = {
-      inverseMatrix,
-      fractionInverseMatrix,
-      determinant,
-      fractionDeterminant,
-      isInvertible: true,
-      adjugateMatrix,
-      fractionAdjugateMatrix
-    };
-
-    return { steps, result };
+    return { steps, determinant, inverseMatrix, adjugateMatrix, method: 'laplace' };
   }
 
   /**
-   * Calcula la matriz de cofactores con pasos detallados
+   * Gauss-Jordan sobre la matriz doble [A | I]: cada operación de fila se aplica a las dos
+   * mitades, y cuando la izquierda llega a I la derecha es A⁻¹. El determinante sale del
+   * producto de los pivotes (cambiando de signo con cada intercambio) y adj(A) = det(A) × A⁻¹
    */
-  private static calculateCofactorMatrixDetailed(matrix: Matrix, startStepId: number): {
-    cofactorMatrix: Matrix;
-    cofactorSteps: CalculationStep[];
+  private static calculateRowReductionInverse<T>(field: Field<T>, matrix: FieldMatrix<T>, arithmeticNote = ''): {
+    steps: CalculationStep[];
+    determinant: T;
+    inverseMatrix: FieldMatrix<T> | null;
+    adjugateMatrix: FieldMatrix<T> | null;
+    method: NonNullable<InverseResult['method']>;
   } {
     const n = matrix.length;
-    const cofactorMatrix: Matrix = [];
-    const cofactorSteps: CalculationStep[] = [];
-    let stepId = startStepId;
 
-    // Primero explicar el proceso
-    cofactorSteps.push({
+    if (n !== matrix[0].length) {
+      throw new Error('La matriz debe ser cuadrada para calcular su inversa');
+    }
+
+    const format = (value: T) => field.format(value);
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const identity = FieldMatrixUtils.createIdentityMatrix(field, n);
+    const augmented = matrix.map((row, i) => [...row, ...identity[i]]);
+    let determinant = field.one();
+    let swapCount = 0;
+
+    steps.push({
       id: stepId++,
-      title: 'Cálculo de Cofactores',
-      description: `Calcularemos cada cofactor Cᵢⱼ = (-1)^(i+j) × Mᵢⱼ donde:
-      • i = número de fila (empezando desde 0)
-      • j = número de columna (empezando desde 0)  
-      • Mᵢⱼ = determinante del menor (matriz sin fila i y columna j)
-      • Si (i+j) es par → signo positivo (+)
-      • Si (i+j) es impar → signo negativo (-)`,
-      matrix: matrix.map(row => [...row]),
-      operation: 'Regla de Cofactores'
+      title: 'Matriz Aumentada [A | I]',
+      description: `Para calcular A⁻¹ en ${field.name} con Gauss-Jordan escribimos A junto a la identidad y aplicamos operaciones de fila a las dos mitades a la vez:
+
+      1️⃣ **Pivote**: En cada columna elegimos un pivote distinto de cero (intercambiando filas si hace falta)
+      2️⃣ **Normalizar**: Dividimos su fila para que el pivote valga 1
+      3️⃣ **Eliminar**: Hacemos cero el resto de la columna, por encima y por debajo del pivote
+      4️⃣ **Resultado**: Cuando la izquierda es I, la derecha es A⁻¹: [A | I] → [I | A⁻¹]
+      
+      ${arithmeticNote}`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmented),
+      operation: '[A | I]'
     });
 
-    for (let i = 0; i < n; i++) {
-      cofactorMatrix[i] = [];
-      for (let j = 0; j < n; j++) {
-        // Calcular el menor M_ij
-        const minor = this.calculateMinor(matrix, i, j);
-        const minorDet = LaplaceExpansion.calculateDeterminant(minor).determinant;
-        
-        // Calcular el signo
-        const signExponent = i + j;
-        const sign = Math.pow(-1, signExponent);
-        const signText = signExponent % 2 === 0 ? '+' : '-';
-        
-        // Calcular el cofactor
-        const cofactor = sign * minorDet;
-        cofactorMatrix[i][j] = cofactor;
+    for (let col = 0; col < n; col++) {
+      const pivotRow = FieldMatrixUtils.findPivot(field, augmented, col, col);
 
-        // Crear paso para este cofactor
-        cofactorSteps.push({
+      if (field.isZero(augmented[pivotRow][col])) {
+        steps.push({
           id: stepId++,
-          title: `Cofactor C₍${i+1},${j+1}₎`,
-          description: `C₍${i+1},${j+1}₎ = (-1)^(${i+1}+${j+1}) × M₍${i+1},${j+1}₎ = (-1)^${signExponent+2} × det(menor)
-          
-          📍 **Posición**: fila ${i+1}, columna ${j+1}
-          🔢 **Exponente**: (${i+1}+${j+1}) = ${signExponent+2} 
-          ⚡ **Signo**: ${signExponent+2} es ${(signExponent+2) % 2 === 0 ? 'par' : 'impar'} → ${signText}
-          🎯 **Menor**: M₍${i+1},${j+1}₎ = ${minorDet} (determinante de la matriz sin fila ${i+1} y columna ${j+1})
-          ✅ **Cofactor**: ${signText}${Math.abs(minorDet)} = ${cofactor}`,
-          matrix: matrix.map(row => [...row]),
-          operation: `C₍${i+1},${j+1}₎ = ${cofactor}`,
-          excludedRow: i,
-          excludedCol: j
+          title: 'Matriz No Invertible',
+          description: `Todos los elementos de la columna ${col + 1} desde la fila ${col + 1} son cero, así que la mitad izquierda no puede llegar a la identidad: A es singular (det(A) = 0) y no tiene inversa.`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmented),
+          operation: 'Error: det(A) = 0'
         });
+        return { steps, determinant: field.zero(), inverseMatrix: null, adjugateMatrix: null, method: 'gauss-jordan' };
       }
-    }
 
-    return { cofactorMatrix, cofactorSteps };
-  }
+      if (pivotRow !== col) {
+        [augmented[col], augmented[pivotRow]] = [augmented[pivotRow], augmented[col]];
+        determinant = field.neg(determinant);
+        swapCount++;
 
-  /**
-   * Calcula la matriz de cofactores (método simple)
-   */
-  private static calculateCofactorMatrix(matrix: Matrix): Matrix {
-    const n = matrix.length;
-    const cofactorMatrix: Matrix = [];
+        steps.push({
+          id: stepId++,
+          title: 'Intercambio de Filas',
+          description: `Intercambiar fila ${col + 1} ↔ fila ${pivotRow + 1} para obtener mejor pivote (en las dos mitades)`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmented),
+          operation: `R${col + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: col,
+          ...FieldMatrixUtils.toStepPivot(field, augmented[col][col])
+        });
+      }
 
-    for (let i = 0; i < n; i++) {
-      cofactorMatrix[i] = [];
-      for (let j = 0; j < n; j++) {
-        // Calcular el menor M_ij
-        const minor = this.calculateMinor(matrix, i, j);
-        // Calcular el cofactor C_ij = (-1)^(i+j) * M_ij
-        const sign = Math.pow(-1, i + j);
-        const cofactor = sign * LaplaceExpansion.calculateDeterminant(minor).determinant;
-        cofactorMatrix[i][j] = cofactor;
+      const pivot = augmented[col][col];
+
+      // En Z/nZ puede que ningún elemento de la columna sea invertible aunque det(A) sí lo sea
+      if (field.isInvertible && !field.isInvertible(pivot)) {
+        const adjugate = this.calculateAdjugateInverse(field, matrix, arithmeticNote);
+        steps.push({
+          id: stepId++,
+          title: 'Pivote No Invertible',
+          description: `Ningún elemento de la columna ${col + 1} (desde la fila ${col + 1}) es invertible en ${field.name}, así que no se puede normalizar el pivote ${format(pivot)}. Esto no implica que A sea singular: seguimos con el método de la adjunta, que solo necesita invertir det(A).`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmented),
+          operation: `${format(pivot)}⁻¹ no existe`,
+          rowIndex: col,
+          ...FieldMatrixUtils.toStepPivot(field, pivot)
+        });
+        steps.push(...adjugate.steps.map(step => ({ ...step, id: stepId++ })));
+        return { ...adjugate, steps };
       }
-    }
 
-    return cofactorMatrix;
-  }
+      determinant = field.mul(determinant, pivot);
 
-  /**
-   * Calcula el menor de una matriz eliminando la fila i y columna j
-   */
-  private static calculateMinor(matrix: Matrix, excludeRow: number, excludeCol: number): Matrix {
-    const n = matrix.length;
-    const minor: Matrix = [];
+      if (!field.equals(pivot, field.one())) {
+        augmented[col] = augmented[col].map(value => field.div(value, pivot));
 
-    for (let i = 0; i < n; i++) {
-      if (i === excludeRow) continue;
-      
-      const row: number[] = [];
-      for (let j = 0; j < n; j++) {
-        if (j === excludeCol) continue;
-        row.push(matrix[i][j]);
+        steps.push({
+          id: stepId++,
+          title: 'Normalizar Pivote',
+          description: `Dividir fila ${col + 1} por ${format(pivot)} para hacer el pivote = 1`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmented),
+          operation: `R${col + 1} = R${col + 1} ÷ (${format(pivot)})`,
+          rowIndex: col,
+          ...FieldMatrixUtils.toStepPivot(field, field.one())
+        });
       }
-      minor.push(row);
-    }
 
-    return minor;
-  }
+      for (let i = 0; i < n; i++) {
+        if (i === col || field.isZero(augmented[i][col])) {
+          continue;
+        }
 
-  /**
-   * Transpone una matriz
-   */
-  private static transposeMatrix(matrix: Matrix): Matrix {
-    const n = matrix.length;
-    const transposed: Matrix = [];
+        const factor = augmented[i][col];
+        augmented[i] = augmented[i].map((value, j) => field.sub(value, field.mul(factor, augmented[col][j])));
 
-    for (let i = 0; i < n; i++) {
-      transposed[i] = [];
-      for (let j = 0; j < n; j++) {
-        transposed[i][j] = matrix[j][i];
+        steps.push({
+          id: stepId++,
+          title: i < col ? 'Eliminación hacia Arriba' : 'Eliminación hacia Abajo',
+          description: `Eliminar elemento en posición (${i + 1}, ${col + 1}) usando fila ${col + 1}`,
+          ...FieldMatrixUtils.toStepMatrix(field, augmented),
+          operation: `R${i + 1} = R${i + 1} - (${format(factor)}) × R${col + 1}`,
+          rowIndex: i,
+          ...FieldMatrixUtils.toStepPivot(field, field.one())
+        });
       }
     }
 
-    return transposed;
-  }
+    const inverseMatrix = augmented.map(row => row.slice(n));
+    const adjugateMatrix = inverseMatrix.map(row => row.map(value => field.mul(determinant, value)));
 
-  /**
-   * Multiplica dos matrices
-   */
-  private static multiplyMatrices(a: Matrix, b: Matrix): Matrix {
-    const n = a.length;
-    const result: Matrix = [];
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Inversa',
+      description: `La mitad izquierda ya es la identidad, así que la derecha es A⁻¹. El producto de los pivotes${swapCount > 0 ? ` (con ajuste de signo por ${swapCount} intercambio${swapCount > 1 ? 's' : ''})` : ''} da det(A) = ${format(determinant)}.`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmented),
+      operation: '[I | A⁻¹]'
+    });
 
-    for (let i = 0; i < n; i++) {
-      result[i] = [];
-      for (let j = 0; j < n; j++) {
-        let sum = 0;
-        for (let k = 0; k < n; k++) {
-          sum += a[i][k] * b[k][j];
-        }
-        result[i][j] = sum;
-      }
-    }
+    const verificationMatrix = FieldMatrixUtils.multiply(field, matrix, inverseMatrix);
+    const isIdentity = FieldMatrixUtils.isIdentity(field, verificationMatrix);
+
+    steps.push({
+      id: stepId++,
+      title: 'Verificación',
+      description: `Verificamos que A × A^(-1) = I (matriz identidad). ${isIdentity ? '✅ Correcto' : '❌ Error en el cálculo'}`,
+      ...FieldMatrixUtils.toStepMatrix(field, verificationMatrix),
+      operation: 'A × A^(-1) = I'
+    });
 
-    return result;
+    return { steps, determinant, inverseMatrix, adjugateMatrix, method: 'gauss-jordan' };
   }
 
   /**
-   * Verifica si una matriz es la identidad (con tolerancia para errores de punto flotante)
+   * Montante sobre [A | I]: al terminar, la izquierda es p·I y la derecha p·A⁻¹, con p el último
+   * pivote. Con s intercambios de filas, det(A) = (−1)ˢ·p y adj(A) = (−1)ˢ·(mitad derecha)
    */
-  private static isIdentityMatrix(matrix: Matrix, tolerance: number = 1e-10): boolean {
+  private static calculateFractionFreeInverse<T>(field: Field<T>, matrix: FieldMatrix<T>, arithmeticNote = ''): {
+    steps: CalculationStep[];
+    determinant: T;
+    inverseMatrix: FieldMatrix<T> | null;
+    adjugateMatrix: FieldMatrix<T> | null;
+    method: NonNullable<InverseResult['method']>;
+  } {
     const n = matrix.length;
 
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        const expected = i === j ? 1 : 0;
-        if (Math.abs(matrix[i][j] - expected) > tolerance) {
-          return false;
-        }
-      }
+    if (n !== matrix[0].length) {
+      throw new Error('La matriz debe ser cuadrada para calcular su inversa');
     }
 
-    return true;
+    const format = (value: T) => field.format(value);
+    const identity = FieldMatrixUtils.createIdentityMatrix(field, n);
+    const augmented = matrix.map((row, i) => [...row, ...identity[i]]);
+    const steps: CalculationStep[] = [{
+      id: 1,
+      title: 'Matriz Aumentada [A | I]',
+      description: `Para calcular A⁻¹ en ${field.name} con el método de Montante (Bareiss) escribimos A junto a la identidad y, en cada iteración, sustituimos cada elemento fuera de la fila del pivote por el determinante 2×2 que forma con el pivote, dividido entre el pivote anterior:
+
+      1️⃣ **Pivote**: Tomamos el elemento de la diagonal (intercambiando filas solo si es cero)
+      2️⃣ **Productos cruzados**: aᵢⱼ ← (p·aᵢⱼ − aᵢₖ·aₖⱼ) / pivote anterior; la división siempre es exacta
+      3️⃣ **Resultado**: Con el último pivote p queda [p·I | p·A⁻¹], así que p = det(A) y la mitad derecha es adj(A)
+      
+      ${arithmeticNote}`,
+      ...FieldMatrixUtils.toStepMatrix(field, augmented),
+      operation: '[A | I]'
+    }];
+
+    const reduction = FieldBareiss.reduce(field, augmented, n, true, 2);
+    steps.push(...reduction.steps);
+    let stepId = steps.length + 1;
+    const reduced = reduction.matrix;
+
+    if (reduction.missingPivotColumn !== undefined) {
+      const col = reduction.missingPivotColumn;
+      steps.push({
+        id: stepId,
+        title: 'Matriz No Invertible',
+        description: `Todos los elementos de la columna ${col + 1} desde la fila ${col + 1} son cero, así que la mitad izquierda no puede llegar a p·I: A es singular (det(A) = 0) y no tiene inversa.`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduced),
+        operation: 'Error: det(A) = 0'
+      });
+      return { steps, determinant: field.zero(), inverseMatrix: null, adjugateMatrix: null, method: 'bareiss' };
+    }
+
+    // En Z/nZ un pivote sin inverso no puede dividir en la siguiente iteración
+    if (reduction.nonInvertiblePivot) {
+      const { row, col } = reduction.nonInvertiblePivot;
+      const adjugate = this.calculateAdjugateInverse(field, matrix, arithmeticNote);
+      steps.push({
+        id: stepId++,
+        title: 'Pivote No Invertible',
+        description: `Ningún elemento de la columna ${col + 1} (desde la fila ${row + 1}) es invertible en ${field.name}, así que el pivote ${format(reduced[row][col])} no podrá dividir en la siguiente iteración. Esto no implica que A sea singular: seguimos con el método de la adjunta, que solo necesita invertir det(A).`,
+        ...FieldMatrixUtils.toStepMatrix(field, reduced),
+        operation: `${format(reduced[row][col])}⁻¹ no existe`,
+        rowIndex: row,
+        ...FieldMatrixUtils.toStepPivot(field, reduced[row][col])
+      });
+      steps.push(...adjugate.steps.map(step => ({ ...step, id: stepId++ })));
+      return { ...adjugate, steps };
+    }
+
+    const pivot = reduction.pivot;
+    const isOddSwap = reduction.swapCount % 2 === 1;
+    const determinant = isOddSwap ? field.neg(pivot) : pivot;
+    const rightHalf = reduced.map(row => row.slice(n));
+    const adjugateMatrix = isOddSwap ? rightHalf.map(row => row.map(value => field.neg(value))) : rightHalf;
+    const inverseMatrix = rightHalf.map(row => row.map(value => field.div(value, pivot)));
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Inversa',
+      description: `La mitad izquierda es ${format(pivot)}·I, así que el último pivote da det(A) = ${isOddSwap ? `−(${format(pivot)}) (por ${reduction.swapCount} intercambio${reduction.swapCount > 1 ? 's' : ''} de filas)` : format(pivot)} y la mitad derecha es ${isOddSwap ? '−adj(A)' : 'adj(A)'}. Una sola división final da A⁻¹ = (mitad derecha) / ${format(pivot)}.`,
+      ...FieldMatrixUtils.toStepMatrix(field, inverseMatrix),
+      operation: `A⁻¹ = (1/${format(pivot)}) × [mitad derecha]`
+    });
+
+    const verificationMatrix = FieldMatrixUtils.multiply(field, matrix, inverseMatrix);
+    const isIdentity = FieldMatrixUtils.isIdentity(field, verificationMatrix);
+
+    steps.push({
+      id: stepId++,
+      title: 'Verificación',
+      description: `Verificamos que A × A^(-1) = I (matriz identidad). ${isIdentity ? '✅ Correcto' : '❌ Error en el cálculo'}`,
+      ...FieldMatrixUtils.toStepMatrix(field, verificationMatrix),
+      operation: 'A × A^(-1) = I'
+    });
+
+    return { steps, determinant, inverseMatrix, adjugateMatrix, method: 'bareiss' };
   }
-}
\ No newline at end of file
+}
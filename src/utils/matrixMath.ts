@@ -1,4 +1,8 @@
 import type { Matrix, Vector } from '../types/matrix';
+import { FieldElimination } from './fieldElimination';
+import { FieldLaplace } from './fieldLaplace';
+import { FloatField, RationalField } from './fields';
+import { FractionMatrixUtils } from './fraction';
 
 export class MatrixMath {
   
@@ -113,33 +117,14 @@ export class MatrixMath {
    * Calcula el determinante de una matriz usando expansión por cofactores
    */
   static calculateDeterminant(matrix: Matrix): number {
-    const n = matrix.length;
-    
-    if (n === 1) {
-      return matrix[0][0];
-    }
-    
-    if (n === 2) {
-      return matrix[0][0] * matrix[1][1] - matrix[0][1] * matrix[1][0];
-    }
-    
-    let determinant = 0;
-    
-    for (let j = 0; j < n; j++) {
-      const cofactor = this.getCofactor(matrix, 0, j);
-      determinant += matrix[0][j] * cofactor;
-    }
-    
-    return determinant;
+    return FieldLaplace.determinant(FloatField, matrix);
   }
 
   /**
    * Obtiene el cofactor de un elemento en la matriz
    */
   static getCofactor(matrix: Matrix, row: number, col: number): number {
-    const minor = this.getMinor(matrix, row, col);
-    const sign = Math.pow(-1, row + col);
-    return sign * this.calculateDeterminant(minor);
+    return FieldLaplace.cofactor(FloatField, matrix, row, col);
   }
 
   /**
@@ -189,46 +174,10 @@ export class MatrixMath {
   }
 
   /**
-   * Calcula el rango de una matriz
+   * Calcula el rango de una matriz de forma exacta (los decimales se convierten a fracciones)
    */
   static getRank(matrix: Matrix): number {
-    const temp = this.cloneMatrix(matrix);
-    const rows = temp.length;
-    const cols = temp[0].length;
-    
-    let rank = 0;
-    
-    for (let col = 0, row = 0; col < cols && row < rows; col++) {
-      // Encontrar pivote
-      let pivotRow = row;
-      for (let i = row + 1; i < rows; i++) {
-        if (Math.abs(temp[i][col]) > Math.abs(temp[pivotRow][col])) {
-          pivotRow = i;
-        }
-      }
-      
-      if (Math.abs(temp[pivotRow][col]) < 1e-10) {
-        continue; // Columna de ceros
-      }
-      
-      // Intercambiar filas
-      if (pivotRow !== row) {
-        [temp[row], temp[pivotRow]] = [temp[pivotRow], temp[row]];
-      }
-      
-      // Eliminar columna
-      for (let i = row + 1; i < rows; i++) {
-        const factor = temp[i][col] / temp[row][col];
-        for (let j = col; j < cols; j++) {
-          temp[i][j] -= factor * temp[row][j];
-        }
-      }
-      
-      rank++;
-      row++;
-    }
-    
-    return rank;
+    return FieldElimination.rank(RationalField, FractionMatrixUtils.toFractionMatrix(matrix)).rank;
   }
 
   /**
@@ -0,0 +1,37 @@
+import type { CalculationStep, SubspaceAnalysis } from '../types/matrix';
+import type { FractionMatrix } from './fraction';
+import type { ComplexMatrix } from './complexFraction';
+import type { FieldMatrix, ModularField } from '../types/field';
+import { FieldSubspaces } from './fieldSubspaces';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { ComplexField, RationalField } from './fields';
+
+export class MatrixSubspaces {
+  /**
+   * Calcula rango, columnas pivote y bases de N(A), C(A), F(A) y N(Aᵀ) con fracciones exactas
+   */
+  static analyze(matrix: FractionMatrix): { steps: CalculationStep[]; result: SubspaceAnalysis } {
+    const { steps, subspaces } = FieldSubspaces.analyze(RationalField, matrix);
+    return { steps, result: FieldMatrixUtils.toSubspaceAnalysis(RationalField, matrix, subspaces) };
+  }
+
+  /**
+   * Subespacios fundamentales de una matriz con entradas complejas (a + bi)
+   */
+  static analyzeComplex(matrix: ComplexMatrix): { steps: CalculationStep[]; result: SubspaceAnalysis } {
+    const { steps, subspaces } = FieldSubspaces.analyze(ComplexField, matrix);
+    return { steps, result: FieldMatrixUtils.toSubspaceAnalysis(ComplexField, matrix, subspaces) };
+  }
+
+  /**
+   * Subespacios fundamentales en Z/nZ. Si un pivote no es invertible módulo n,
+   * lo indica en los pasos y en result.failureReason
+   */
+  static analyzeModular(matrix: FieldMatrix<bigint>, field: ModularField): { steps: CalculationStep[]; result: SubspaceAnalysis } {
+    const { steps, subspaces } = FieldSubspaces.analyze(field, matrix);
+    return {
+      steps,
+      result: { ...FieldMatrixUtils.toSubspaceAnalysis(field, matrix, subspaces), modulus: Number(field.modulus) }
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { FractionParser } from './fractionParser';
+import { ParametricSystem } from './parametricSystem';
+import type { Polynomial } from './polynomial';
+
+const symbolic = (text: string): Polynomial => {
+  const result = FractionParser.parseSymbolic(text);
+  if (result.error !== undefined) throw new Error(result.error);
+  return result.value;
+};
+
+const classify = (matrix: string[][], constants: string[]) =>
+  ParametricSystem.solve(matrix.map(row => row.map(symbolic)), constants.map(symbolic)).solution.parametricClassification;
+
+describe('discusión de sistemas con un parámetro', () => {
+  it('cuenta las raíces reales distintas por Sturm', () => {
+    expect(symbolic('k^2 - 3k + 3').countRealRoots()).toBe(0);
+    expect(symbolic('k^2 - 2').countRealRoots()).toBe(2);
+    expect(symbolic('(k - 1)^2').countRealRoots()).toBe(1);
+    expect(symbolic('k^3 - 2').countRealRoots()).toBe(1);
+    expect(symbolic('(k^2 + 1)(k^2 - 3)').countRealRoots()).toBe(2);
+  });
+
+  it('indica que un pivote sin raíces reales nunca se anula para k real', () => {
+    const classification = classify([['1', '1'], ['1', 'k^2 - 3k + 4']], ['1', '2']);
+    expect(classification?.cases.map(({ condition, kind }) => [condition, kind])).toEqual([
+      ['Todo k', 'unique'],
+      ['k raíz de k² - 3k + 3', 'never']
+    ]);
+  });
+
+  it('sigue sin determinar las raíces irracionales reales que anulan det(A)', () => {
+    const classification = classify([['1', '1'], ['1', 'k^2 - 1']], ['1', '2']);
+    expect(classification?.cases.map(({ kind }) => kind)).toEqual(['unique', 'undetermined']);
+  });
+});
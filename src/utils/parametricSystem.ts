@@ -0,0 +1,377 @@
+import type { CalculationStep, ParametricCase, Solution } from '../types/matrix';
+import { Fraction } from './fraction';
+import { Polynomial } from './polynomial';
+import type { PolynomialMatrix, PolynomialVector } from './polynomial';
+import { FieldElimination } from './fieldElimination';
+import { FieldLaplace } from './fieldLaplace';
+import { FieldMatrixUtils } from './fieldMatrixUtils';
+import { PolynomialRing, RationalField } from './fields';
+
+/**
+ * Discusión de un sistema Ax = b que depende de un parámetro (k, a, λ, ...).
+ * Escalona [A|b] sin dividir (eliminación de Bareiss con polinomios); cada pivote que
+ * depende del parámetro se anula en ciertos valores, que se estudian aparte sustituyéndolos
+ */
+export class ParametricSystem {
+
+  /**
+   * Clasifica el sistema según el valor del parámetro: solución única, infinitas o ninguna
+   */
+  static solve(matrix: PolynomialMatrix, constants: PolynomialVector): {
+    steps: CalculationStep[];
+    solution: Solution;
+  } {
+    const steps: CalculationStep[] = [];
+    let stepId = 1;
+    const rows = matrix.length;
+    const cols = matrix[0].length;
+    const augmentedMatrix = FieldMatrixUtils.createAugmentedMatrix(matrix, constants);
+    // Posición original de cada fila, para recuperar las ecuaciones pivote tras los intercambios
+    const rowOrder = Array.from({ length: rows }, (_, i) => i);
+
+    const parameters = [...new Set(augmentedMatrix.flat().flatMap(value => value.variables))].sort();
+    if (parameters.length !== 1) {
+      const failureReason = parameters.length === 0
+        ? 'El sistema no depende de ningún parámetro'
+        : `Solo se puede discutir el sistema para un único parámetro (se encontraron ${parameters.join(', ')})`;
+      return { steps, solution: this.failedSolution(failureReason) };
+    }
+    const [parameter] = parameters;
+
+    steps.push({
+      id: stepId++,
+      title: 'Matriz Aumentada con Parámetro',
+      description: `Discutimos el sistema según el valor de ${parameter}. Escalonamos [A|b] sin dividir entre expresiones con ${parameter}: cada fila se combina como Rᵢ = (p·Rᵢ - aᵢ·Rₚ) / p', donde p es el pivote actual y p' el anterior (método de Bareiss), para que las entradas sigan siendo polinomios`,
+      ...FieldMatrixUtils.toStepMatrix(PolynomialRing, augmentedMatrix),
+      operation: `Discusión según ${parameter}`
+    });
+
+    // FASE 1: Escalonar sin divisiones, anotando dónde se anula cada pivote
+    const criticalValues: Fraction[] = [];
+    const irrationalFactors: Polynomial[] = [];
+    const addCriticalValues = (value: Polynomial) => {
+      const { roots, remainder: factor } = value.factorRationalRoots();
+      const remainder = factor.scale(new Fraction(1, 1).divide(factor.leadingCoefficient()));
+      roots.forEach(root => {
+        if (!criticalValues.some(existing => existing.equals(root))) criticalValues.push(root);
+      });
+      if (!remainder.isConstant() && !irrationalFactors.some(existing => existing.equals(remainder))) {
+        irrationalFactors.push(remainder);
+      }
+      return roots;
+    };
+
+    let previousPivot = Polynomial.constant(1);
+    let row = 0;
+    for (let col = 0; col < cols && row < rows; col++) {
+      const pivotRow = this.findPivot(augmentedMatrix, row, col);
+      if (pivotRow === -1) {
+        steps.push({
+          id: stepId++,
+          title: `Columna ${col + 1} sin Pivote`,
+          description: `Todas las entradas de la columna ${col + 1} desde la fila ${row + 1} son cero para cualquier valor de ${parameter}: x${col + 1} no tiene pivote`,
+          ...FieldMatrixUtils.toStepMatrix(PolynomialRing, augmentedMatrix),
+          operation: `Columna ${col + 1} nula`
+        });
+        continue;
+      }
+
+      if (pivotRow !== row) {
+        [augmentedMatrix[row], augmentedMatrix[pivotRow]] = [augmentedMatrix[pivotRow], augmentedMatrix[row]];
+        [rowOrder[row], rowOrder[pivotRow]] = [rowOrder[pivotRow], rowOrder[row]];
+        steps.push({
+          id: stepId++,
+          title: 'Intercambio de Filas',
+          description: `Intercambiar fila ${row + 1} ↔ fila ${pivotRow + 1} para usar el pivote más simple (de menor grado en ${parameter})`,
+          ...FieldMatrixUtils.toStepMatrix(PolynomialRing, augmentedMatrix),
+          operation: `R${row + 1} ↔ R${pivotRow + 1}`,
+          rowIndex: row
+        });
+      }
+
+      const pivot = augmentedMatrix[row][col];
+      if (!pivot.isConstant()) {
+        const roots = addCriticalValues(pivot);
+        const rootsText = roots.length > 0
+          ? `se anula cuando ${roots.map(root => `${parameter} = ${root}`).join(', ')}`
+          : 'no tiene raíces racionales';
+        steps.push({
+          id: stepId++,
+          title: `Pivote que Depende de ${parameter}`,
+          description: `El pivote ${pivot} ${rootsText}. Esos valores se estudian por separado; para el resto, el pivote es distinto de cero y podemos seguir escalonando`,
+          ...FieldMatrixUtils.toStepMatrix(PolynomialRing, augmentedMatrix),
+          operation: `${pivot} ≠ 0`,
+          rowIndex: row
+        });
+      }
+
+      // Eliminar debajo del pivote: Rᵢ = (p·Rᵢ - aᵢ·Rₚ) / p'
+      for (let i = row + 1; i < rows; i++) {
+        const factor = augmentedMatrix[i][col];
+        augmentedMatrix[i] = augmentedMatrix[i].map((value, j) =>
+          PolynomialRing.div(pivot.multiply(value).subtract(factor.multiply(augmentedMatrix[row][j])), previousPivot)
+        );
+
+        if (!factor.isZero()) {
+          const divisorText = previousPivot.equals(Polynomial.constant(1)) ? '' : ` / (${previousPivot})`;
+          steps.push({
+            id: stepId++,
+            title: 'Eliminación hacia Adelante',
+            description: `Eliminar el elemento en posición (${i + 1}, ${col + 1}) usando la fila ${row + 1}`,
+            ...FieldMatrixUtils.toStepMatrix(PolynomialRing, augmentedMatrix),
+            operation: `R${i + 1} = ((${pivot}) × R${i + 1} - (${factor}) × R${row + 1})${divisorText}`,
+            rowIndex: i
+          });
+        }
+      }
+
+      previousPivot = pivot;
+      row++;
+    }
+
+    // FASE 2: Caso general (el parámetro no anula ningún pivote)
+    const rank = row;
+    const inconsistentTerms = augmentedMatrix.slice(rank).map(values => values[cols]).filter(value => !value.isZero());
+    inconsistentTerms.forEach(value => {
+      if (!value.isConstant()) addCriticalValues(value);
+    });
+    criticalValues.sort((a, b) => (a.lessThan(b) ? -1 : b.lessThan(a) ? 1 : 0));
+
+    // Un factor sin raíces reales no se anula para ningún valor real del parámetro
+    const excluded = [
+      ...criticalValues.map(value => value.toString()),
+      ...irrationalFactors.filter(factor => factor.countRealRoots() > 0).map(factor => `raíces de ${factor}`)
+    ];
+    const generalCondition = excluded.length > 0 ? `${parameter} ≠ ${excluded.join(', ')}` : `Todo ${parameter}`;
+    // Con rango completo, las ecuaciones pivote forman un subsistema cuadrado con solución única
+    const pivotSubsystem = inconsistentTerms.length === 0 && rank === cols
+      ? rowOrder.slice(0, rank).sort((a, b) => a - b)
+      : null;
+    const generalCase = this.classifyGeneralCase(matrix, constants, rank, inconsistentTerms.length > 0, generalCondition, pivotSubsystem);
+
+    steps.push({
+      id: stepId++,
+      title: 'Caso General',
+      description: `Para ${generalCondition}: ${generalCase.description}`,
+      ...FieldMatrixUtils.toStepMatrix(PolynomialRing, augmentedMatrix),
+      operation: `${generalCondition}: ${this.kindLabel(generalCase.kind)}`
+    });
+
+    // FASE 3: Valores críticos, sustituyendo el parámetro y resolviendo con fracciones
+    const cases: ParametricCase[] = [generalCase];
+    for (const value of criticalValues) {
+      const substituted = FieldMatrixUtils.createAugmentedMatrix(matrix, constants)
+        .map(values => values.map(entry => entry.evaluate({ [parameter]: value })));
+      const criticalCase = this.classifyNumericCase(substituted, `${parameter} = ${value}`);
+      cases.push(criticalCase);
+
+      steps.push({
+        id: stepId++,
+        title: `Caso ${parameter} = ${value}`,
+        description: `Sustituimos ${parameter} = ${value} en el sistema original y lo reducimos con Gauss-Jordan: ${criticalCase.description}`,
+        ...FieldMatrixUtils.toStepMatrix(RationalField, substituted),
+        operation: `${parameter} = ${value}: ${this.kindLabel(criticalCase.kind)}`
+      });
+    }
+
+    // Raíces no racionales: solo se sabe si la solución sigue siendo única comparando con el determinante
+    for (const factor of irrationalFactors) {
+      cases.push(this.classifyIrrationalCase(pivotSubsystem && pivotSubsystem.map(i => matrix[i]), factor, parameter));
+    }
+
+    return {
+      steps,
+      solution: {
+        variables: [],
+        isUnique: false,
+        hasInfiniteSolutions: false,
+        hasNoSolution: false,
+        parametricClassification: { parameter, cases }
+      }
+    };
+  }
+
+  /**
+   * Fila con el pivote más simple: una constante distinta de cero o, si no hay, el de menor grado.
+   * Devuelve -1 si la columna es idénticamente cero desde startRow
+   */
+  private static findPivot(matrix: PolynomialMatrix, startRow: number, col: number): number {
+    let pivotRow = -1;
+    for (let i = startRow; i < matrix.length; i++) {
+      const value = matrix[i][col];
+      if (value.isZero()) continue;
+      if (pivotRow === -1 || value.degree() < matrix[pivotRow][col].degree()) {
+        pivotRow = i;
+      }
+    }
+    return pivotRow;
+  }
+
+  /**
+   * Clasificación para los valores del parámetro que no anulan ningún pivote
+   */
+  private static classifyGeneralCase(
+    matrix: PolynomialMatrix,
+    constants: PolynomialVector,
+    rank: number,
+    isInconsistent: boolean,
+    condition: string,
+    pivotRows: number[] | null
+  ): ParametricCase {
+    const n = matrix[0].length;
+
+    if (isInconsistent) {
+      return {
+        condition,
+        kind: 'none',
+        rank,
+        augmentedRank: rank + 1,
+        description: `rango(A) = ${rank} < rango([A|b]) = ${rank + 1}, el sistema es incompatible`
+      };
+    }
+
+    if (rank < n || !pivotRows) {
+      return {
+        condition,
+        kind: 'infinite',
+        rank,
+        augmentedRank: rank,
+        description: `rango(A) = rango([A|b]) = ${rank} < ${n}, el sistema es compatible indeterminado con ${n - rank} variable(s) libre(s)`
+      };
+    }
+
+    // Solución por la Regla de Cramer sobre las ecuaciones pivote: xᵢ = det(Aᵢ) / det(A)
+    const subsystem = pivotRows.map(i => matrix[i]);
+    const subsystemConstants = pivotRows.map(i => constants[i]);
+    const determinant = FieldLaplace.determinant(PolynomialRing, subsystem);
+    const solution = subsystem[0].map((_, i) => {
+      const replaced = subsystem.map((values, r) => values.map((value, c) => (c === i ? subsystemConstants[r] : value)));
+      return this.formatQuotient(FieldLaplace.determinant(PolynomialRing, replaced), determinant);
+    });
+    const equations = pivotRows.length < matrix.length
+      ? ` usando las ecuaciones ${pivotRows.map(i => i + 1).join(', ')} (las demás son combinación de ellas)`
+      : '';
+
+    return {
+      condition,
+      kind: 'unique',
+      rank,
+      augmentedRank: rank,
+      solution,
+      description: `rango(A) = rango([A|b]) = ${n}, el sistema es compatible determinado. Por la Regla de Cramer${equations}, xᵢ = det(Aᵢ) / det(A) con det(A) = ${determinant}`
+    };
+  }
+
+  /**
+   * Clasificación de un sistema numérico (parámetro sustituido) comparando rangos
+   */
+  private static classifyNumericCase(augmentedMatrix: Fraction[][], condition: string): ParametricCase {
+    const n = augmentedMatrix[0].length - 1;
+    const { rref, pivotColumns } = FieldElimination.rref(RationalField, augmentedMatrix);
+    const rank = pivotColumns.filter(col => col < n).length;
+    const augmentedRank = pivotColumns.length;
+
+    if (augmentedRank > rank) {
+      return {
+        condition,
+        kind: 'none',
+        rank,
+        augmentedRank,
+        description: `rango(A) = ${rank} < rango([A|b]) = ${augmentedRank}, el sistema es incompatible`
+      };
+    }
+
+    if (rank < n) {
+      return {
+        condition,
+        kind: 'infinite',
+        rank,
+        augmentedRank,
+        description: `rango(A) = rango([A|b]) = ${rank} < ${n}, el sistema es compatible indeterminado con ${n - rank} variable(s) libre(s)`
+      };
+    }
+
+    return {
+      condition,
+      kind: 'unique',
+      rank,
+      augmentedRank,
+      solution: rref.slice(0, n).map(values => values[n].toString()),
+      description: `rango(A) = rango([A|b]) = ${n}, el sistema es compatible determinado`
+    };
+  }
+
+  /**
+   * Raíces irracionales de un pivote: si no anulan el determinante de las ecuaciones pivote
+   * (det(A) en un sistema cuadrado) la solución sigue siendo única. Si todas son complejas,
+   * el caso no se da para ningún valor real del parámetro
+   */
+  private static classifyIrrationalCase(subsystem: PolynomialMatrix | null, factor: Polynomial, parameter: string): ParametricCase {
+    const condition = `${parameter} raíz de ${factor}`;
+
+    if (factor.countRealRoots() === 0) {
+      return {
+        condition,
+        kind: 'never',
+        description: `${factor} no tiene raíces reales, así que este caso no se da para ningún ${parameter} real`
+      };
+    }
+    const determinant = subsystem ? FieldLaplace.determinant(PolynomialRing, subsystem) : Polynomial.constant(0);
+
+    if (!determinant.isZero() && Polynomial.gcd(determinant, factor).isConstant()) {
+      return {
+        condition,
+        kind: 'unique',
+        description: `${factor} no comparte raíces con det(A) = ${determinant}, así que A sigue siendo invertible y la solución es única`
+      };
+    }
+
+    return {
+      condition,
+      kind: 'undetermined',
+      description: `Estas raíces anulan un pivote pero no son racionales; distinguir entre infinitas soluciones y ninguna requiere aritmética con radicales`
+    };
+  }
+
+  /**
+   * Cociente simplificado de dos polinomios, con denominador mónico: "(k + 1) / (k - 2)"
+   */
+  private static formatQuotient(numerator: Polynomial, denominator: Polynomial): string {
+    const common = Polynomial.gcd(numerator, denominator);
+    if (!common.isZero()) {
+      numerator = numerator.divide(common).quotient;
+      denominator = denominator.divide(common).quotient;
+    }
+    const leading = denominator.leadingCoefficient();
+    numerator = numerator.scale(new Fraction(1, 1).divide(leading));
+    denominator = denominator.scale(new Fraction(1, 1).divide(leading));
+
+    const wrap = (value: Polynomial) => (value.toString().match(/ [+-] /) ? `(${value})` : value.toString());
+    return denominator.isConstant() ? numerator.toString() : `${wrap(numerator)} / ${wrap(denominator)}`;
+  }
+
+  private static kindLabel(kind: ParametricCase['kind']): string {
+    switch (kind) {
+      case 'unique':
+        return 'solución única';
+      case 'infinite':
+        return 'infinitas soluciones';
+      case 'none':
+        return 'sin solución';
+      case 'never':
+        return 'no se da para ningún valor real';
+      default:
+        return 'sin determinar';
+    }
+  }
+
+  private static failedSolution(failureReason: string): Solution {
+    return {
+      variables: [],
+      isUnique: false,
+      hasInfiniteSolutions: false,
+      hasNoSolution: false,
+      failureReason
+    };
+  }
+}
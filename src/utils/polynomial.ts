@@ -0,0 +1,451 @@
+import { Fraction } from './fraction';
+
+/**
+ * Monomio: lista de pares [parámetro, exponente] ordenada por nombre del parámetro.
+ * La lista vacía representa el término independiente
+ */
+type Monomial = ReadonlyArray<readonly [string, number]>;
+
+interface PolynomialTerm {
+  monomial: Monomial;
+  coefficient: Fraction;
+}
+
+const SUPERSCRIPTS = ['⁰', '¹', '²', '³', '⁴', '⁵', '⁶', '⁷', '⁸', '⁹'];
+
+/**
+ * Polinomio en uno o varios parámetros (k, a, λ, ...) con coeficientes racionales exactos.
+ * Siempre está simplificado: los términos semejantes se agrupan y los coeficientes cero se eliminan
+ */
+export class Polynomial {
+  private static readonly MAX_ROOT_SEARCH = 10n ** 12n;
+
+  private readonly terms: ReadonlyMap<string, PolynomialTerm>;
+
+  private constructor(terms: Map<string, PolynomialTerm>) {
+    this.terms = terms;
+  }
+
+  /**
+   * Polinomio constante
+   */
+  static constant(value: Fraction | number): Polynomial {
+    const coefficient = value instanceof Fraction ? value : new Fraction(value, 1);
+    return Polynomial.fromTerms([{ monomial: [], coefficient }]);
+  }
+
+  /**
+   * Polinomio formado por un solo parámetro (p. ej. k)
+   */
+  static variable(name: string): Polynomial {
+    return Polynomial.fromTerms([{ monomial: [[name, 1]], coefficient: new Fraction(1, 1) }]);
+  }
+
+  /**
+   * Construye un polinomio agrupando los términos semejantes
+   */
+  private static fromTerms(terms: PolynomialTerm[]): Polynomial {
+    const grouped = new Map<string, PolynomialTerm>();
+    for (const term of terms) {
+      const key = Polynomial.monomialKey(term.monomial);
+      const existing = grouped.get(key);
+      const coefficient = existing ? existing.coefficient.add(term.coefficient) : term.coefficient;
+      if (coefficient.isZero()) {
+        grouped.delete(key);
+      } else {
+        grouped.set(key, { monomial: term.monomial, coefficient });
+      }
+    }
+    return new Polynomial(grouped);
+  }
+
+  private static monomialKey(monomial: Monomial): string {
+    return monomial.map(([name, exponent]) => `${name}^${exponent}`).join('*');
+  }
+
+  /**
+   * Producto de dos monomios: suma los exponentes de los parámetros comunes
+   */
+  private static multiplyMonomials(a: Monomial, b: Monomial): Monomial {
+    const powers = new Map<string, number>(a.map(([name, exponent]) => [name, exponent]));
+    for (const [name, exponent] of b) {
+      powers.set(name, (powers.get(name) ?? 0) + exponent);
+    }
+    return [...powers.entries()].sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0));
+  }
+
+  private static monomialDegree(monomial: Monomial): number {
+    return monomial.reduce((sum, [, exponent]) => sum + exponent, 0);
+  }
+
+  /**
+   * Suma de polinomios
+   */
+  add(other: Polynomial): Polynomial {
+    return Polynomial.fromTerms([...this.terms.values(), ...other.terms.values()]);
+  }
+
+  /**
+   * Resta de polinomios
+   */
+  subtract(other: Polynomial): Polynomial {
+    return this.add(other.negate());
+  }
+
+  /**
+   * Negación
+   */
+  negate(): Polynomial {
+    return this.scale(new Fraction(-1, 1));
+  }
+
+  /**
+   * Multiplica todos los coeficientes por una constante
+   */
+  scale(factor: Fraction): Polynomial {
+    return Polynomial.fromTerms(
+      [...this.terms.values()].map(term => ({ monomial: term.monomial, coefficient: term.coefficient.multiply(factor) }))
+    );
+  }
+
+  /**
+   * Producto de polinomios (distribuye término a término)
+   */
+  multiply(other: Polynomial): Polynomial {
+    const products: PolynomialTerm[] = [];
+    for (const a of this.terms.values()) {
+      for (const b of other.terms.values()) {
+        products.push({
+          monomial: Polynomial.multiplyMonomials(a.monomial, b.monomial),
+          coefficient: a.coefficient.multiply(b.coefficient)
+        });
+      }
+    }
+    return Polynomial.fromTerms(products);
+  }
+
+  /**
+   * Potencia con exponente entero no negativo
+   */
+  pow(exponent: number): Polynomial {
+    if (!Number.isInteger(exponent) || exponent < 0) {
+      throw new Error(`El exponente de un parámetro debe ser un entero no negativo: ${exponent}`);
+    }
+    let result = Polynomial.constant(1);
+    for (let k = 0; k < exponent; k++) {
+      result = result.multiply(this);
+    }
+    return result;
+  }
+
+  /**
+   * Verifica si es el polinomio cero
+   */
+  isZero(): boolean {
+    return this.terms.size === 0;
+  }
+
+  /**
+   * Verifica si no depende de ningún parámetro
+   */
+  isConstant(): boolean {
+    return [...this.terms.values()].every(term => term.monomial.length === 0);
+  }
+
+  /**
+   * Valor del polinomio si es constante, o null si depende de algún parámetro
+   */
+  constantValue(): Fraction | null {
+    if (!this.isConstant()) return null;
+    return this.terms.get('')?.coefficient ?? new Fraction(0, 1);
+  }
+
+  /**
+   * Verifica igualdad exacta (ambos están simplificados)
+   */
+  equals(other: Polynomial): boolean {
+    return this.subtract(other).isZero();
+  }
+
+  /**
+   * Parámetros que aparecen en el polinomio, en orden alfabético
+   */
+  get variables(): string[] {
+    const names = new Set<string>();
+    for (const term of this.terms.values()) {
+      term.monomial.forEach(([name]) => names.add(name));
+    }
+    return [...names].sort();
+  }
+
+  /**
+   * Grado total del polinomio (el polinomio cero tiene grado 0)
+   */
+  degree(): number {
+    return Math.max(0, ...[...this.terms.values()].map(term => Polynomial.monomialDegree(term.monomial)));
+  }
+
+  /**
+   * Evalúa el polinomio sustituyendo cada parámetro por un valor exacto
+   */
+  evaluate(values: Record<string, Fraction>): Fraction {
+    let result = new Fraction(0, 1);
+    for (const term of this.terms.values()) {
+      let product = term.coefficient;
+      for (const [name, exponent] of term.monomial) {
+        const value = values[name];
+        if (!value) {
+          throw new Error(`Falta el valor del parámetro ${name}`);
+        }
+        for (let k = 0; k < exponent; k++) {
+          product = product.multiply(value);
+        }
+      }
+      result = result.add(product);
+    }
+    return result;
+  }
+
+  /**
+   * Coeficientes de un polinomio en un solo parámetro, del término independiente al de mayor grado
+   */
+  private univariateCoefficients(): Fraction[] {
+    const coefficients = Array.from({ length: this.degree() + 1 }, () => new Fraction(0, 1));
+    for (const term of this.terms.values()) {
+      coefficients[Polynomial.monomialDegree(term.monomial)] = term.coefficient;
+    }
+    return coefficients;
+  }
+
+  /**
+   * Raíces racionales de un polinomio en un solo parámetro (teorema de la raíz racional),
+   * junto con el factor que queda al dividir entre (x - r) por cada raíz con su multiplicidad.
+   * Si el factor restante tiene grado > 0, sus raíces son irracionales o complejas
+   */
+  factorRationalRoots(): { roots: Fraction[]; remainder: Polynomial } {
+    const variables = this.variables;
+    if (variables.length !== 1) {
+      throw new Error('Solo se pueden buscar raíces de polinomios en un parámetro');
+    }
+
+    let coefficients = this.univariateCoefficients();
+    const roots: Fraction[] = [];
+
+    // x = 0 es raíz mientras el término independiente sea cero
+    if (coefficients[0].isZero()) {
+      roots.push(new Fraction(0, 1));
+      while (coefficients.length > 1 && coefficients[0].isZero()) {
+        coefficients = coefficients.slice(1);
+      }
+    }
+
+    // Coeficientes enteros equivalentes: multiplicar por el mcm de los denominadores
+    const lcm = coefficients.reduce((acc, c) => (acc * c.bigDenominator) / Fraction.gcd(acc, c.bigDenominator), 1n);
+    const integers = coefficients.map(c => (c.bigNumerator * lcm) / c.bigDenominator);
+    const constant = integers[0] < 0n ? -integers[0] : integers[0];
+    const leading = integers[integers.length - 1] < 0n ? -integers[integers.length - 1] : integers[integers.length - 1];
+
+    if (coefficients.length > 1 && constant <= Polynomial.MAX_ROOT_SEARCH && leading <= Polynomial.MAX_ROOT_SEARCH) {
+      for (const p of Polynomial.divisors(constant)) {
+        for (const q of Polynomial.divisors(leading)) {
+          if (Fraction.gcd(p, q) !== 1n) continue;
+          for (const candidate of [new Fraction(p, q), new Fraction(-p, q)]) {
+            let found = false;
+            let quotient = Polynomial.divideByRoot(coefficients, candidate);
+            while (coefficients.length > 1 && quotient) {
+              found = true;
+              coefficients = quotient;
+              quotient = Polynomial.divideByRoot(coefficients, candidate);
+            }
+            if (found) roots.push(candidate);
+          }
+        }
+      }
+    }
+
+    roots.sort((a, b) => (a.lessThan(b) ? -1 : b.lessThan(a) ? 1 : 0));
+    return { roots, remainder: Polynomial.fromCoefficients(variables[0], coefficients) };
+  }
+
+  /**
+   * División larga entre un polinomio en el mismo parámetro (o una constante)
+   */
+  divide(divisor: Polynomial): { quotient: Polynomial; remainder: Polynomial } {
+    if (divisor.isZero()) {
+      throw new Error('No se puede dividir por cero');
+    }
+    const variables = [...new Set([...this.variables, ...divisor.variables])];
+    if (variables.length > 1) {
+      throw new Error('Solo se pueden dividir polinomios en un mismo parámetro');
+    }
+    if (variables.length === 0) {
+      return { quotient: this.scale(new Fraction(1, 1).divide(divisor.constantValue()!)), remainder: Polynomial.constant(0) };
+    }
+
+    const remainder = this.univariateCoefficients();
+    const divisorCoefficients = divisor.univariateCoefficients();
+    const divisorDegree = divisorCoefficients.length - 1;
+    const leading = divisorCoefficients[divisorDegree];
+    const quotient = Array.from({ length: Math.max(1, remainder.length - divisorDegree) }, () => new Fraction(0, 1));
+
+    for (let power = remainder.length - 1; power >= divisorDegree; power--) {
+      const factor = remainder[power].divide(leading);
+      if (factor.isZero()) continue;
+      quotient[power - divisorDegree] = factor;
+      for (let k = 0; k <= divisorDegree; k++) {
+        remainder[power - divisorDegree + k] = remainder[power - divisorDegree + k].subtract(factor.multiply(divisorCoefficients[k]));
+      }
+    }
+
+    return {
+      quotient: Polynomial.fromCoefficients(variables[0], quotient),
+      remainder: Polynomial.fromCoefficients(variables[0], remainder)
+    };
+  }
+
+  /**
+   * Máximo común divisor mónico de dos polinomios en un mismo parámetro (algoritmo de Euclides)
+   */
+  static gcd(a: Polynomial, b: Polynomial): Polynomial {
+    while (!b.isZero()) {
+      [a, b] = [b, a.divide(b).remainder];
+    }
+    return a.isZero() ? a : a.scale(new Fraction(1, 1).divide(a.leadingCoefficient()));
+  }
+
+  /**
+   * Coeficiente del término de mayor grado
+   */
+  leadingCoefficient(): Fraction {
+    const coefficients = this.univariateCoefficients();
+    return coefficients[coefficients.length - 1];
+  }
+
+  /**
+   * Número de raíces reales distintas de un polinomio en un solo parámetro (teorema de Sturm):
+   * cambios de signo de la sucesión p, p', −resto(p, p'), ... en −∞ menos los cambios en +∞
+   */
+  countRealRoots(): number {
+    const variables = this.variables;
+    if (variables.length > 1) {
+      throw new Error('Solo se pueden contar las raíces de polinomios en un parámetro');
+    }
+    if (variables.length === 0) {
+      return 0;
+    }
+
+    const coefficients = this.univariateCoefficients();
+    const derivative = Polynomial.fromCoefficients(
+      variables[0],
+      coefficients.slice(1).map((coefficient, power) => coefficient.multiply(new Fraction(power + 1, 1)))
+    );
+    const sequence: Polynomial[] = [this, derivative];
+    for (;;) {
+      const { remainder } = sequence[sequence.length - 2].divide(sequence[sequence.length - 1]);
+      if (remainder.isZero()) break;
+      sequence.push(remainder.negate());
+    }
+
+    // Signo de cada polinomio de la sucesión en ±∞: el del coeficiente principal, cambiado en −∞ si el grado es impar
+    const signChanges = (atNegativeInfinity: boolean) => {
+      const signs = sequence.map(value => {
+        const sign = new Fraction(0, 1).lessThan(value.leadingCoefficient()) ? 1 : -1;
+        return atNegativeInfinity && value.degree() % 2 === 1 ? -sign : sign;
+      });
+      return signs.filter((sign, i) => i > 0 && sign !== signs[i - 1]).length;
+    };
+    return signChanges(true) - signChanges(false);
+  }
+
+  /**
+   * Construye c₀ + c₁x + c₂x² + ... a partir de sus coeficientes
+   */
+  private static fromCoefficients(name: string, coefficients: Fraction[]): Polynomial {
+    return Polynomial.fromTerms(coefficients.map((coefficient, power) => ({
+      monomial: power === 0 ? [] : [[name, power] as const],
+      coefficient
+    })));
+  }
+
+  /**
+   * División sintética entre (x - r). Devuelve el cociente, o null si r no es raíz
+   */
+  private static divideByRoot(coefficients: Fraction[], root: Fraction): Fraction[] | null {
+    const n = coefficients.length - 1;
+    const quotient: Fraction[] = new Array(n);
+    let carry = new Fraction(0, 1);
+    for (let power = n; power >= 1; power--) {
+      carry = carry.multiply(root).add(coefficients[power]);
+      quotient[power - 1] = carry;
+    }
+    const remainder = carry.multiply(root).add(coefficients[0]);
+    return remainder.isZero() ? quotient : null;
+  }
+
+  /**
+   * Divisores positivos de un entero positivo
+   */
+  private static divisors(value: bigint): bigint[] {
+    const small: bigint[] = [];
+    const large: bigint[] = [];
+    for (let d = 1n; d * d <= value; d++) {
+      if (value % d === 0n) {
+        small.push(d);
+        if (d * d !== value) large.unshift(value / d);
+      }
+    }
+    return [...small, ...large];
+  }
+
+  /**
+   * Aproximación decimal si el polinomio es constante (NaN si depende de parámetros)
+   */
+  toDecimal(): number {
+    return this.constantValue()?.toDecimal() ?? NaN;
+  }
+
+  /**
+   * Representación simplificada, de mayor a menor grado: "2k² - 3k + 1"
+   */
+  toString(): string {
+    if (this.isZero()) return '0';
+
+    const sorted = [...this.terms.values()].sort((a, b) => {
+      const degreeDiff = Polynomial.monomialDegree(b.monomial) - Polynomial.monomialDegree(a.monomial);
+      if (degreeDiff !== 0) return degreeDiff;
+      const keyA = Polynomial.monomialKey(a.monomial);
+      const keyB = Polynomial.monomialKey(b.monomial);
+      return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+    });
+    const separator = this.variables.some(name => name.length > 1) ? '·' : '';
+
+    return sorted
+      .map((term, index) => {
+        const negative = term.coefficient.bigNumerator < 0n;
+        const magnitude = term.coefficient.abs();
+        const variables = term.monomial
+          .map(([name, exponent]) => (exponent === 1 ? name : `${name}${Polynomial.superscript(exponent)}`))
+          .join(separator);
+
+        let body: string;
+        if (variables === '') {
+          body = magnitude.toString();
+        } else if (magnitude.equals(new Fraction(1, 1))) {
+          body = variables;
+        } else {
+          body = magnitude.isInteger() ? `${magnitude}${variables}` : `(${magnitude})${variables}`;
+        }
+
+        if (index === 0) return negative ? `-${body}` : body;
+        return `${negative ? ' - ' : ' + '}${body}`;
+      })
+      .join('');
+  }
+
+  private static superscript(exponent: number): string {
+    return exponent.toString().split('').map(digit => SUPERSCRIPTS[Number(digit)]).join('');
+  }
+}
+
+export type PolynomialMatrix = Polynomial[][];
+export type PolynomialVector = Polynomial[];
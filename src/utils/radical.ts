@@ -0,0 +1,111 @@
+import { Fraction } from './fraction';
+
+/**
+ * Número de la forma c·√s, con c racional y s un entero positivo sin factores cuadrados
+ * (hasta donde se pueden extraer por división de prueba). Representa exactamente las
+ * normas y las entradas de Q y R en Gram–Schmidt
+ */
+export class Radical {
+  readonly coefficient: Fraction;
+  readonly radicand: bigint;
+
+  /** Radicandos mayores se muestran como decimal en lugar de c·√s */
+  static readonly MAX_EXACT_RADICAND = 1000000n;
+  private static readonly TRIAL_DIVISION_LIMIT = 10000n;
+
+  constructor(coefficient: Fraction, radicand: bigint = 1n) {
+    this.coefficient = coefficient;
+    this.radicand = coefficient.isZero() ? 1n : radicand;
+  }
+
+  /**
+   * Raíz cuadrada exacta de una fracción no negativa: √(p/q) = √(p·q) / q,
+   * sacando del radicando los factores cuadrados
+   */
+  static sqrt(value: Fraction): Radical {
+    if (value.bigNumerator < 0n) {
+      throw new Error(`√(${value.toString()}) no es un número real`);
+    }
+
+    let radicand = value.bigNumerator * value.bigDenominator;
+    let outside = 1n;
+    for (let p = 2n; p <= this.TRIAL_DIVISION_LIMIT && p * p <= radicand; p++) {
+      while (radicand % (p * p) === 0n) {
+        radicand /= p * p;
+        outside *= p;
+      }
+    }
+    // Lo que queda puede ser un cuadrado de un primo mayor que el límite de prueba
+    const root = new Fraction(radicand, 1).sqrt();
+    if (root) {
+      outside *= root.bigNumerator;
+      radicand = 1n;
+    }
+
+    return new Radical(new Fraction(outside, value.bigDenominator), radicand);
+  }
+
+  /**
+   * Multiplica por un racional
+   */
+  scale(factor: Fraction): Radical {
+    return new Radical(this.coefficient.multiply(factor), this.radicand);
+  }
+
+  /**
+   * Inverso 1/(c·√s) = √s / (c·s)
+   */
+  reciprocal(): Radical {
+    return new Radical(
+      new Fraction(1, 1).divide(this.coefficient.multiply(new Fraction(this.radicand, 1))),
+      this.radicand
+    );
+  }
+
+  /**
+   * Cuadrado exacto: c²·s
+   */
+  square(): Fraction {
+    return this.coefficient.multiply(this.coefficient).multiply(new Fraction(this.radicand, 1));
+  }
+
+  isRational(): boolean {
+    return this.radicand === 1n;
+  }
+
+  isZero(): boolean {
+    return this.coefficient.isZero();
+  }
+
+  /**
+   * Indica si el radicando es lo bastante pequeño como para mostrarlo de forma exacta
+   */
+  isDisplayable(): boolean {
+    return this.radicand <= Radical.MAX_EXACT_RADICAND;
+  }
+
+  toDecimal(): number {
+    return this.coefficient.toDecimal() * Math.sqrt(Number(this.radicand));
+  }
+
+  /**
+   * "3", "√2", "-√2", "(2/3)√6", "-(1/3)√3"; con radicandos muy grandes, el valor decimal
+   */
+  toString(): string {
+    if (this.isRational()) {
+      return this.coefficient.toString();
+    }
+    if (!this.isDisplayable()) {
+      return this.toDecimal().toFixed(6);
+    }
+
+    const root = `√${this.radicand}`;
+    if (this.coefficient.equals(new Fraction(1, 1))) return root;
+    if (this.coefficient.equals(new Fraction(-1, 1))) return `-${root}`;
+    if (this.coefficient.isInteger()) return `${this.coefficient}${root}`;
+    const sign = this.coefficient.bigNumerator < 0n ? '-' : '';
+    return `${sign}(${this.coefficient.abs()})${root}`;
+  }
+}
+
+export type RadicalMatrix = Radical[][];
@@ -0,0 +1,8 @@
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+
+/**
+ * Escribe un número (o una cadena de dígitos, como los índices "12" de a₁₂) con subíndices
+ */
+export function toSubscript(value: number | string): string {
+  return value.toString().split('').map(digit => SUBSCRIPT_DIGITS[Number(digit)]).join('');
+}